@@ -1,73 +1,186 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { 
   Search, Upload, FileText, Users, BookOpen, TrendingUp, 
-  Download, AlertCircle, CheckCircle2 
+  AlertCircle, CheckCircle2, FlaskConical, XCircle, Database, Quote, Award, FolderOpen, History, Filter, Tags, X, ArrowLeft, Building2 
 } from 'lucide-react';
-import { AnalysisStats, OrcidProfileData } from './types';
-import { fetchOrcidData, parseCsvFile } from './services/orcidService';
-import { AnalysisCharts } from './components/AnalysisCharts';
+import {
+  AnalysisFilters, AnalysisSnapshot, AnalysisStats, ChatAction, ChatChart, ColumnMapping, DataSource, DiscoveryField, DiscoveryResult,
+  FetchProgress, ImportedTable,
+  JournalList, OrcidFetchResult, OrcidProfileData, WorkTypeTaxonomy
+} from './types';
+import { fetchOrcidData } from './services/orcidService';
+import { applyColumnMapping, guessColumnMapping, readTableFile } from './services/importService';
+import { DEFAULT_CONCURRENCY, fetchOrcidBatch } from './services/fetchScheduler';
+import { computeGroupStats, computeStats, getGroupingDimensions } from './services/statsService';
+import { EMPTY_FILTERS, applyFilters, describeFilters, filtersFromSearchParams, isFilterActive, toggleValue, writeFiltersToUrl } from './services/filterService';
+import { applyTaxonomy, loadTaxonomy, saveTaxonomy } from './services/taxonomyService';
+import { applyJournalList, deleteJournalList, loadJournalList, saveJournalList } from './services/journalService';
+import { CITATION_PROVIDERS, enrichProfilesWithCitations, getCitationProviders, hasDemoData } from './services/citationService';
+import { readProfileFromUrl, writeProfileToUrl } from './services/researcherProfileService';
+import { DISCOVERY_FIELDS, demoSearchTransport, discoverResearchers, orcidSearchTransport } from './services/discoveryService';
+import {
+  buildHtmlReport, captureChartImages, exportHtmlReport, exportJsonSnapshot,
+  exportWorkbook, exportWorksCsv, parseJsonSnapshot, printHtmlReport
+} from './services/exportService';
+import { AnalysisCharts, GroupComparisonCharts } from './components/AnalysisCharts';
 import ChatBot from './components/ChatBot';
+import { ResearcherProfile } from './components/ResearcherProfile';
+import { BatchProgress } from './components/BatchProgress';
+import { CacheInspector } from './components/CacheInspector';
+import { ImportMapper } from './components/ImportMapper';
+import { DiscoveryResults } from './components/DiscoveryResults';
+import { GroupComparisonTable } from './components/GroupComparisonTable';
+import { CoAuthorshipPanel } from './components/CoAuthorshipPanel';
+import { CollaborationNetworkView } from './components/CollaborationNetwork';
+import { ExportFormat, ExportMenu } from './components/ExportMenu';
+import { SnapshotBrowser } from './components/SnapshotBrowser';
+import { FilterBar } from './components/FilterBar';
+import { WorksDrillDown } from './components/WorksDrillDown';
+import { WorksExplorer } from './components/WorksExplorer';
+import { TaxonomyEditor } from './components/TaxonomyEditor';
+import { JournalQualityPanel } from './components/JournalQualityPanel';
+import { JournalReviewQueue } from './components/JournalReviewQueue';
+import { DataQualityAudit } from './components/DataQualityAudit';
+import { ReportGenerator } from './components/ReportGenerator';
+import { TopicPanel } from './components/TopicPanel';
+import { ChatChartView } from './components/ChatChartView';
+
+type FailedFetch = Extract<OrcidFetchResult, { status: 'failed' }>;
+
+const SOURCE_BADGES: Record<DataSource, { label: string; className: string }> = {
+  live: { label: 'Live', className: 'bg-emerald-50 text-emerald-700' },
+  cached: { label: 'Cached', className: 'bg-blue-50 text-blue-700' },
+  demo: { label: 'Demo', className: 'bg-amber-100 text-amber-800' }
+};
+
+const newAnalysisId = () => `analysis-${Date.now()}`;
 
 function App() {
   // State
-  const [inputType, setInputType] = useState<'single' | 'batch'>('single');
+  const [inputType, setInputType] = useState<'single' | 'batch' | 'discover'>('single');
   const [singleId, setSingleId] = useState('');
-  const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [importTable, setImportTable] = useState<ImportedTable | null>(null);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping | null>(null);
+  const [discoveryField, setDiscoveryField] = useState<DiscoveryField>('organization');
+  const [discoveryValue, setDiscoveryValue] = useState('');
+  const [discovery, setDiscovery] = useState<DiscoveryResult | null>(null);
+  const [discoverySelection, setDiscoverySelection] = useState<string[]>([]);
+  const [searching, setSearching] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [data, setData] = useState<OrcidProfileData[]>([]);
-  
-  // Computed Stats
-  const stats: AnalysisStats | null = useMemo(() => {
-    if (data.length === 0) return null;
-
-    const totalResearchers = data.length;
-    let totalPubs = 0;
-    const yearCounts: Record<number, number> = {};
-    const typeCounts: Record<string, number> = {};
-
-    data.forEach(profile => {
-      totalPubs += profile.works.length;
-      profile.works.forEach(work => {
-        // Year Stats
-        if (work.year) {
-            yearCounts[work.year] = (yearCounts[work.year] || 0) + 1;
-        }
-        // Type Stats
-        const type = work.type || 'Other';
-        typeCounts[type] = (typeCounts[type] || 0) + 1;
-      });
-    });
-
-    // Format for Recharts
-    const publicationsByYear = Object.entries(yearCounts)
-      .map(([year, count]) => ({ year: parseInt(year), count }))
-      .sort((a, b) => a.year - b.year);
-
-    const publicationsByType = Object.entries(typeCounts)
-      .map(([type, count]) => ({ type, count }))
-      .sort((a, b) => b.count - a.count); // Descending
-
-    return {
-      totalResearchers,
-      totalPublications: totalPubs,
-      avgPublications: totalResearchers > 0 ? totalPubs / totalResearchers : 0,
-      publicationsByYear,
-      publicationsByType,
-      processedProfiles: data
-    };
+  const [failures, setFailures] = useState<FailedFetch[]>([]);
+  const [demoMode, setDemoMode] = useState(false);
+  const [forceRefresh, setForceRefresh] = useState(false);
+  const [showCache, setShowCache] = useState(false);
+  const [showSnapshots, setShowSnapshots] = useState(false);
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+  const [progress, setProgress] = useState<FetchProgress[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const reportRef = useRef<HTMLDivElement>(null);
+  // ORCID iD of the researcher whose profile page is open, kept in the URL so the page can be shared
+  const [profileId, setProfileId] = useState<string | null>(readProfileFromUrl);
+  const [groupingId, setGroupingId] = useState('');
+  const [citationProviderId, setCitationProviderId] = useState(CITATION_PROVIDERS[0].id);
+  const [enriching, setEnriching] = useState(false);
+  const [enrichmentNote, setEnrichmentNote] = useState<string | null>(null);
+  const [filters, setFilters] = useState<AnalysisFilters>(() => filtersFromSearchParams(new URLSearchParams(window.location.search)));
+  const [showWorks, setShowWorks] = useState(false);
+  const [taxonomy, setTaxonomy] = useState<WorkTypeTaxonomy>(loadTaxonomy);
+  const [showTaxonomy, setShowTaxonomy] = useState(false);
+  const [journalList, setJournalList] = useState<JournalList | null>(null);
+  const [showJournalReview, setShowJournalReview] = useState(false);
+  const [assistantCharts, setAssistantCharts] = useState<ChatChart[]>([]);
+  // Identifies the loaded analysis across citation enrichment and saved snapshots
+  const [analysisId, setAnalysisId] = useState<string | null>(null);
+
+  useEffect(() => {
+    writeFiltersToUrl(filters);
+  }, [filters]);
+
+  useEffect(() => {
+    loadJournalList().then(setJournalList);
+  }, []);
+
+  // The back and forward buttons move between the dashboard and profile pages
+  useEffect(() => {
+    const handlePopState = () => setProfileId(readProfileFromUrl());
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // A shared profile link opens on an empty dashboard, so fetch the researcher it points to
+  useEffect(() => {
+    const linkedId = readProfileFromUrl();
+    if (linkedId) {
+      setSingleId(linkedId);
+      analyzeSingle(linkedId);
+    }
+  }, []);
+
+  // Assistant charts describe the data they were built from, so they go when it is replaced
+  useEffect(() => {
+    setAssistantCharts([]);
   }, [data]);
+  
+  // Computed Stats: works are mapped to reporting categories and journal classes first,
+  // and everything below the filter bar sees only the filtered data
+  const categorizedData = useMemo(
+    () => applyJournalList(applyTaxonomy(data, taxonomy), journalList),
+    [data, taxonomy, journalList]
+  );
+  const filteredData = useMemo(() => applyFilters(categorizedData, filters), [categorizedData, filters]);
+  const stats: AnalysisStats | null = useMemo(() => computeStats(filteredData), [filteredData]);
+  // Snapshots and JSON exports keep every researcher and work; the filters are saved next to them
+  const fullStats: AnalysisStats | null = useMemo(
+    () => isFilterActive(filters) ? computeStats(categorizedData) : stats,
+    [categorizedData, filters, stats]
+  );
+  // The audit looks at whole records: filters pick the researchers but do not hide their works
+  const auditedProfiles = useMemo(() => {
+    const inView = new Set(filteredData.map(profile => profile.orcidId));
+    return categorizedData.filter(profile => inView.has(profile.orcidId));
+  }, [categorizedData, filteredData]);
+  const filterSummary = useMemo(() => describeFilters(filters, data), [filters, data]);
+  // Profile pages show whole records, whatever the dashboard filters
+  const profilePage = profileId ? categorizedData.find(profile => profile.orcidId === profileId) || null : null;
+
+  const citationProviders = useMemo(() => getCitationProviders(data), [data]);
+  // A provider that is no longer offered (e.g. demo after loading live data) falls back to the first one
+  useEffect(() => {
+    if (!citationProviders.some(provider => provider.id === citationProviderId)) setCitationProviderId(citationProviders[0].id);
+  }, [citationProviders]);
+
+  const groupingOptions = useMemo(() => getGroupingDimensions(data), [data]);
+  const activeGrouping = groupingOptions.find(option => option.id === groupingId) || null;
+  const groupStats = useMemo(
+    () => activeGrouping ? computeGroupStats(filteredData, activeGrouping.dimension) : [],
+    [filteredData, activeGrouping?.id]
+  );
+
+  const importResult = useMemo(
+    () => importTable && columnMapping ? applyColumnMapping(importTable, columnMapping) : null,
+    [importTable, columnMapping]
+  );
 
   // Handlers
-  const handleSingleAnalyze = async () => {
-    if (!singleId.trim()) return;
+  const analyzeSingle = async (orcidId: string) => {
+    if (!orcidId.trim()) return;
     setLoading(true);
     setError(null);
     setData([]);
+    setAnalysisId(newAnalysisId());
+    setFailures([]);
+    setProgress([]);
+    setEnrichmentNote(null);
 
     try {
-      const result = await fetchOrcidData(singleId);
-      setData([result]);
+      const result = await fetchOrcidData(orcidId, { demoMode, forceRefresh });
+      if (result.status === 'ok') {
+        setData([result.profile]);
+      } else {
+        setError(result.reason);
+      }
     } catch (err: any) {
       setError(err.message || 'Failed to analyze ID');
     } finally {
@@ -75,41 +188,228 @@ function App() {
     }
   };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      setCsvFile(e.target.files[0]);
+  const handleSingleAnalyze = () => analyzeSingle(singleId);
+
+  const openProfile = (orcidId: string | null) => {
+    setProfileId(orcidId);
+    writeProfileToUrl(orcidId);
+    window.scrollTo(0, 0);
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files || !e.target.files[0]) return;
+    setError(null);
+    setImportTable(null);
+    setColumnMapping(null);
+
+    try {
+      const table = await readTableFile(e.target.files[0]);
+      setImportTable(table);
+      setColumnMapping(guessColumnMapping(table));
+    } catch (err: any) {
+      setError(err.message || 'Failed to read file');
     }
   };
 
-  const handleBatchAnalyze = async () => {
-    if (!csvFile) return;
+  // Shared by file imports and affiliation discovery: fetches the iDs and merges in any imported columns
+  const analyzeBatch = async (ids: string[], attributesById: Map<string, Record<string, string>>) => {
     setLoading(true);
     setError(null);
     setData([]);
+    setAnalysisId(newAnalysisId());
+    setFailures([]);
+    setProgress([]);
+    setEnrichmentNote(null);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
     try {
-      const ids = await parseCsvFile(csvFile);
-      if (ids.length === 0) throw new Error("No valid ORCID IDs found in file.");
-      
-      const results = [];
-      // Process in sequence to avoid hitting rate limits too hard, 
-      // though parallel w/ limit is better for production.
-      for (const id of ids) {
-        try {
-            const result = await fetchOrcidData(id);
-            results.push(result);
-        } catch (e) {
-            console.warn(`Skipping ${id} due to error`);
+      if (ids.length === 0) throw new Error("No valid ORCID IDs to analyze.");
+
+      setProgress(ids.map(orcidId => ({ orcidId, status: 'pending' })));
+
+      // Results are appended as they arrive so the dashboard renders partial data
+      const results = await fetchOrcidBatch(ids, { demoMode, forceRefresh }, {
+        concurrency,
+        signal: controller.signal,
+        onProgress: (update) => {
+          setProgress(prev => prev.map(item => item.orcidId === update.orcidId ? update : item));
+        },
+        onResult: (result) => {
+          if (result.status === 'ok') {
+            const profile = { ...result.profile, attributes: attributesById.get(result.orcidId) || {} };
+            setData(prev => [...prev, profile]);
+          } else {
+            setFailures(prev => [...prev, result]);
+          }
         }
+      });
+
+      if (!controller.signal.aborted && results.every(result => result.status === 'failed')) {
+        setError('None of the ORCID IDs could be fetched.');
       }
-      setData(results);
     } catch (err: any) {
       setError(err.message || 'Failed to process file');
     } finally {
+      abortControllerRef.current = null;
       setLoading(false);
     }
   };
 
+  const handleBatchAnalyze = () => {
+    if (!importResult) return;
+    analyzeBatch(
+      importResult.researchers.map(researcher => researcher.orcidId),
+      new Map(importResult.researchers.map(r => [r.orcidId, r.attributes]))
+    );
+  };
+
+  const handleDiscover = async () => {
+    setSearching(true);
+    setError(null);
+    setDiscovery(null);
+    setDiscoverySelection([]);
+    try {
+      const result = await discoverResearchers(discoveryField, discoveryValue, {
+        transport: demoMode ? demoSearchTransport : orcidSearchTransport
+      });
+      setDiscovery(result);
+      setDiscoverySelection(result.researchers.map(researcher => researcher.orcidId));
+    } catch (err: any) {
+      setError(err instanceof TypeError
+        ? 'Network error while searching ORCID (possibly blocked by CORS).'
+        : err.message || 'Failed to search ORCID');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleDiscoveryAnalyze = () => analyzeBatch(discoverySelection, new Map());
+
+  const handleCancelBatch = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    if (!stats) return;
+    try {
+      switch (format) {
+        case 'pdf':
+          printHtmlReport(buildHtmlReport(stats, captureChartImages(reportRef.current)));
+          break;
+        case 'html':
+          exportHtmlReport(stats, captureChartImages(reportRef.current));
+          break;
+        case 'xlsx':
+          exportWorkbook(stats);
+          break;
+        case 'csv':
+          exportWorksCsv(stats);
+          break;
+        case 'json':
+          if (fullStats) exportJsonSnapshot(fullStats, filters);
+          break;
+      }
+    } catch (err: any) {
+      setError(err.message || 'Export failed');
+    }
+  };
+
+  const handleOpenSnapshot = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+
+    try {
+      const { profiles, filters: savedFilters } = parseJsonSnapshot(await file.text());
+      setFailures([]);
+      setProgress([]);
+      setEnrichmentNote(null);
+      setData(profiles);
+      setFilters(savedFilters);
+      setAnalysisId(newAnalysisId());
+    } catch (err: any) {
+      setError(err.message || 'Failed to open snapshot');
+    }
+  };
+
+  const handleOpenSavedSnapshot = (snapshot: AnalysisSnapshot) => {
+    setError(null);
+    setFailures([]);
+    setProgress([]);
+    setEnrichmentNote(null);
+    setData(snapshot.stats.processedProfiles);
+    setFilters(snapshot.filters || EMPTY_FILTERS);
+    setAnalysisId(snapshot.analysisId || snapshot.id);
+    setShowSnapshots(false);
+  };
+
+  const handleYearClick = (year: number) => {
+    setFilters(prev => ({ ...prev, yearFrom: year, yearTo: year }));
+    setShowWorks(true);
+  };
+
+  const handleTypeClick = (type: string) => {
+    setFilters(prev => ({ ...prev, types: prev.types.includes(type) ? prev.types : [...prev.types, type] }));
+    setShowWorks(true);
+  };
+
+  const handleChatAction = (action: ChatAction) => {
+    if (action.type === 'apply-filters') {
+      setFilters(action.filters);
+    } else if (action.type === 'open-researcher') {
+      if (categorizedData.some(p => p.orcidId === action.orcidId)) openProfile(action.orcidId);
+    } else {
+      setAssistantCharts(prev => [...prev, action.chart]);
+    }
+  };
+
+  const handleSaveTaxonomy = (updated: WorkTypeTaxonomy) => {
+    const saved = saveTaxonomy(updated);
+    setTaxonomy(saved);
+    // Category filters refer to category names, drop the ones that no longer exist
+    setFilters(prev => ({ ...prev, types: prev.types.filter(type => saved.categories.includes(type)) }));
+    setShowTaxonomy(false);
+  };
+
+  const updateJournalList = async (list: JournalList) => {
+    setJournalList(list);
+    try {
+      await saveJournalList(list);
+    } catch (err: any) {
+      setError(`The journal list is applied but could not be saved locally: ${err.message || err}`);
+    }
+  };
+
+  const handleRemoveJournalList = async () => {
+    setJournalList(null);
+    await deleteJournalList().catch(err => console.warn(`Could not delete the journal list: ${err}`));
+  };
+
+  const handleJournalDecision = (key: string, entryIndex: number | null) => {
+    if (!journalList) return;
+    updateJournalList({ ...journalList, manualMatches: { ...journalList.manualMatches, [key]: entryIndex } });
+  };
+
+  const handleEnrichCitations = async () => {
+    const provider = citationProviders.find(p => p.id === citationProviderId);
+    if (!provider || data.length === 0) return;
+    setEnriching(true);
+    setEnrichmentNote(null);
+
+    try {
+      const result = await enrichProfilesWithCitations(data, provider);
+      setData(result.profiles);
+      setEnrichmentNote(`${provider.name}: citation data found for ${result.matched} of ${result.requested} DOIs.`);
+    } catch (err: any) {
+      setEnrichmentNote(`${provider.name}: ${err.message || 'failed to fetch citation data'}`);
+    } finally {
+      setEnriching(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900 font-sans">
       {/* Header */}
@@ -123,197 +423,621 @@ function App() {
               ORCID Analytics Agent
             </h1>
           </div>
-          <div className="text-sm text-gray-500 hidden sm:block">
-            v1.0 • Integrated with Gemini Business
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => setShowSnapshots(true)}
+              className="flex items-center gap-1 text-sm text-gray-500 hover:text-indigo-600 transition-colors"
+            >
+              <History className="w-4 h-4" /> Snapshots
+            </button>
+            <label className="flex items-center gap-1 text-sm text-gray-500 hover:text-indigo-600 transition-colors cursor-pointer">
+              <FolderOpen className="w-4 h-4" /> Import JSON
+              <input type="file" accept=".json" onChange={handleOpenSnapshot} className="hidden" />
+            </label>
+            <button
+              onClick={() => setShowCache(true)}
+              className="flex items-center gap-1 text-sm text-gray-500 hover:text-indigo-600 transition-colors"
+            >
+              <Database className="w-4 h-4" /> Cache
+            </button>
+            <div className="text-sm text-gray-500 hidden sm:block">
+              v1.0 • Integrated with Gemini Business
+            </div>
           </div>
         </div>
       </header>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         
-        {/* Input Section */}
-        <section className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6 mb-8">
-          <div className="flex gap-4 mb-6 border-b border-gray-100 pb-2">
-            <button 
-              onClick={() => setInputType('single')}
-              className={`pb-2 px-4 text-sm font-medium transition-colors relative ${
-                inputType === 'single' ? 'text-indigo-600' : 'text-gray-500 hover:text-gray-700'
-              }`}
-            >
-              Single Researcher
-              {inputType === 'single' && (
-                <div className="absolute bottom-0 left-0 w-full h-0.5 bg-indigo-600 rounded-t-full"></div>
-              )}
-            </button>
-            <button 
-              onClick={() => setInputType('batch')}
-              className={`pb-2 px-4 text-sm font-medium transition-colors relative ${
-                inputType === 'batch' ? 'text-indigo-600' : 'text-gray-500 hover:text-gray-700'
-              }`}
-            >
-              Batch Analysis (CSV)
-              {inputType === 'batch' && (
-                <div className="absolute bottom-0 left-0 w-full h-0.5 bg-indigo-600 rounded-t-full"></div>
+        {profileId && (
+          profilePage ? (
+            <ResearcherProfile
+              profile={profilePage}
+              profiles={categorizedData}
+              onBack={() => openProfile(null)}
+              onSelectProfile={openProfile}
+            />
+          ) : (
+            <div className="text-center py-16 bg-white rounded-xl border border-gray-100 shadow-sm mb-8">
+              {loading ? (
+                <>
+                  <div className="w-12 h-12 border-4 border-indigo-100 border-t-indigo-600 rounded-full animate-spin mx-auto mb-4"></div>
+                  <p className="text-gray-700 font-medium">Loading {profileId}...</p>
+                </>
+              ) : (
+                <>
+                  <p className="text-gray-700 font-medium">{profileId} is not in the loaded data.</p>
+                  <p className="text-sm text-gray-500 mt-1">
+                    {error || 'Loading the record from ORCID replaces the current analysis.'}
+                  </p>
+                  <div className="mt-4 flex justify-center gap-3">
+                    <button
+                      onClick={() => analyzeSingle(profileId)}
+                      className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700"
+                    >
+                      Load from ORCID
+                    </button>
+                    <button
+                      onClick={() => openProfile(null)}
+                      className="flex items-center gap-1 px-4 py-2 text-sm font-medium text-indigo-700 bg-indigo-50 rounded-lg hover:bg-indigo-100"
+                    >
+                      <ArrowLeft className="w-4 h-4" /> Back to dashboard
+                    </button>
+                  </div>
+                </>
               )}
-            </button>
-          </div>
+            </div>
+          )
+        )}
 
-          <div className="flex flex-col md:flex-row gap-4 items-end">
-            {inputType === 'single' ? (
-              <div className="flex-1 w-full">
-                <label className="block text-sm font-medium text-gray-700 mb-2">ORCID ID</label>
-                <div className="relative">
-                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
-                  <input 
-                    type="text" 
-                    placeholder="e.g., 0000-0002-1825-0097"
-                    value={singleId}
-                    onChange={(e) => setSingleId(e.target.value)}
-                    className="w-full pl-10 pr-4 py-2.5 rounded-xl border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all outline-none"
-                  />
+        {/* The dashboard stays mounted behind a profile page, so returning keeps its state */}
+        <div hidden={!!profileId}>
+          {/* Input Section */}
+          <section className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6 mb-8">
+            <div className="flex gap-4 mb-6 border-b border-gray-100 pb-2">
+              <button 
+                onClick={() => setInputType('single')}
+                className={`pb-2 px-4 text-sm font-medium transition-colors relative ${
+                  inputType === 'single' ? 'text-indigo-600' : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                Single Researcher
+                {inputType === 'single' && (
+                  <div className="absolute bottom-0 left-0 w-full h-0.5 bg-indigo-600 rounded-t-full"></div>
+                )}
+              </button>
+              <button 
+                onClick={() => setInputType('batch')}
+                className={`pb-2 px-4 text-sm font-medium transition-colors relative ${
+                  inputType === 'batch' ? 'text-indigo-600' : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                Batch Analysis (CSV / Excel)
+                {inputType === 'batch' && (
+                  <div className="absolute bottom-0 left-0 w-full h-0.5 bg-indigo-600 rounded-t-full"></div>
+                )}
+              </button>
+              <button 
+                onClick={() => setInputType('discover')}
+                className={`pb-2 px-4 text-sm font-medium transition-colors relative ${
+                  inputType === 'discover' ? 'text-indigo-600' : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                Discover by Affiliation
+                {inputType === 'discover' && (
+                  <div className="absolute bottom-0 left-0 w-full h-0.5 bg-indigo-600 rounded-t-full"></div>
+                )}
+              </button>
+            </div>
+
+            <div className="flex flex-col md:flex-row gap-4 items-end">
+              {inputType === 'single' ? (
+                <div className="flex-1 w-full">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">ORCID ID</label>
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+                    <input 
+                      type="text" 
+                      placeholder="e.g., 0000-0002-1825-0097"
+                      value={singleId}
+                      onChange={(e) => setSingleId(e.target.value)}
+                      className="w-full pl-10 pr-4 py-2.5 rounded-xl border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all outline-none"
+                    />
+                  </div>
                 </div>
-              </div>
-            ) : (
-              <div className="flex-1 w-full">
-                <label className="block text-sm font-medium text-gray-700 mb-2">Upload CSV File</label>
-                <div className="relative group">
-                  <div className="absolute inset-0 bg-indigo-50 rounded-xl opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none" />
-                  <input 
-                    type="file" 
-                    accept=".csv"
-                    onChange={handleFileUpload}
-                    className="block w-full text-sm text-gray-500 file:mr-4 file:py-2.5 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100 border border-gray-300 rounded-xl cursor-pointer"
-                  />
+              ) : inputType === 'discover' ? (
+                <div className="flex-1 w-full">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Search ORCID by affiliation</label>
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <select
+                      value={discoveryField}
+                      onChange={(e) => setDiscoveryField(e.target.value as DiscoveryField)}
+                      className="px-3 py-2.5 rounded-xl border border-gray-300 focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+                    >
+                      {DISCOVERY_FIELDS.map(field => <option key={field.id} value={field.id}>{field.label}</option>)}
+                    </select>
+                    <div className="relative flex-1">
+                      <Building2 className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+                      <input
+                        type="text"
+                        placeholder={DISCOVERY_FIELDS.find(field => field.id === discoveryField)?.placeholder}
+                        value={discoveryValue}
+                        onChange={(e) => setDiscoveryValue(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter' && discoveryValue.trim()) handleDiscover(); }}
+                        className="w-full pl-10 pr-4 py-2.5 rounded-xl border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all outline-none"
+                      />
+                    </div>
+                    <button
+                      onClick={handleDiscover}
+                      disabled={searching || loading || !discoveryValue.trim()}
+                      className="px-4 py-2.5 bg-indigo-50 text-indigo-700 font-medium rounded-xl hover:bg-indigo-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                    >
+                      {searching
+                        ? <div className="w-4 h-4 border-2 border-indigo-200 border-t-indigo-600 rounded-full animate-spin" />
+                        : <Search className="w-4 h-4" />}
+                      Search
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">Finds researchers whose public ORCID record lists the institution; review the matches before analyzing</p>
                 </div>
-                <p className="text-xs text-gray-500 mt-2">File must contain a column named "orcid"</p>
+              ) : (
+                <div className="flex-1 w-full">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Upload CSV, TSV or Excel File</label>
+                  <div className="relative group">
+                    <div className="absolute inset-0 bg-indigo-50 rounded-xl opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none" />
+                    <input 
+                      type="file" 
+                      accept=".csv,.tsv,.txt,.xlsx,.xls"
+                      onChange={handleFileUpload}
+                      className="block w-full text-sm text-gray-500 file:mr-4 file:py-2.5 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100 border border-gray-300 rounded-xl cursor-pointer"
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">One row per researcher; you can pick the ORCID column after upload</p>
+                </div>
+              )}
+
+              {inputType !== 'single' && (
+                <div className="w-full md:w-40">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Parallel requests</label>
+                  <select
+                    value={concurrency}
+                    onChange={(e) => setConcurrency(parseInt(e.target.value, 10))}
+                    disabled={loading}
+                    className="w-full px-3 py-2.5 rounded-xl border border-gray-300 focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+                  >
+                    {[1, 2, 4, 6, 8].map(n => <option key={n} value={n}>{n}</option>)}
+                  </select>
+                </div>
+              )}
+            
+              <button 
+                onClick={inputType === 'single' ? handleSingleAnalyze : inputType === 'batch' ? handleBatchAnalyze : handleDiscoveryAnalyze}
+                disabled={
+                  loading ||
+                  (inputType === 'single' && !singleId) ||
+                  (inputType === 'batch' && !importResult?.researchers.length) ||
+                  (inputType === 'discover' && discoverySelection.length === 0)
+                }
+                className="px-6 py-2.5 bg-indigo-600 text-white font-medium rounded-xl hover:bg-indigo-700 focus:ring-4 focus:ring-indigo-100 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+              >
+                {loading ? <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" /> : <TrendingUp className="w-5 h-5" />}
+                Analyze
+              </button>
+            </div>
+
+            {inputType === 'discover' && discovery && (
+              <DiscoveryResults result={discovery} selected={discoverySelection} onChange={setDiscoverySelection} />
+            )}
+
+            {inputType === 'batch' && importTable && columnMapping && importResult && (
+              <ImportMapper
+                table={importTable}
+                mapping={columnMapping}
+                result={importResult}
+                onChange={setColumnMapping}
+              />
+            )}
+
+            <div className="mt-4 flex flex-wrap gap-x-6 gap-y-2">
+              <label className="inline-flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={forceRefresh}
+                  onChange={(e) => setForceRefresh(e.target.checked)}
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Force refresh (ignore cached responses)
+              </label>
+              <label className="inline-flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={demoMode}
+                  onChange={(e) => setDemoMode(e.target.checked)}
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Demo mode (generate sample data instead of querying ORCID)
+              </label>
+            </div>
+
+            {error && (
+              <div className="mt-4 p-3 bg-red-50 text-red-700 text-sm rounded-lg flex items-center gap-2">
+                <AlertCircle className="w-4 h-4" />
+                {error}
               </div>
             )}
-            
-            <button 
-              onClick={inputType === 'single' ? handleSingleAnalyze : handleBatchAnalyze}
-              disabled={loading || (inputType === 'single' && !singleId) || (inputType === 'batch' && !csvFile)}
-              className="px-6 py-2.5 bg-indigo-600 text-white font-medium rounded-xl hover:bg-indigo-700 focus:ring-4 focus:ring-indigo-100 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
-            >
-              {loading ? <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" /> : <TrendingUp className="w-5 h-5" />}
-              Analyze
-            </button>
-          </div>
+          </section>
+
+          {/* Results Area */}
+          {progress.length > 0 && (
+            <BatchProgress items={progress} running={loading} onCancel={handleCancelBatch} />
+          )}
 
-          {error && (
-            <div className="mt-4 p-3 bg-red-50 text-red-700 text-sm rounded-lg flex items-center gap-2">
-              <AlertCircle className="w-4 h-4" />
-              {error}
+          {loading && progress.length === 0 && (
+            <div className="text-center py-20">
+              <div className="w-16 h-16 border-4 border-indigo-100 border-t-indigo-600 rounded-full animate-spin mx-auto mb-4"></div>
+              <h3 className="text-lg font-medium text-gray-900">Gathering Intelligence...</h3>
+              <p className="text-gray-500">Querying ORCID databases and calculating statistics</p>
             </div>
           )}
-        </section>
-
-        {/* Results Area */}
-        {loading && (
-          <div className="text-center py-20">
-            <div className="w-16 h-16 border-4 border-indigo-100 border-t-indigo-600 rounded-full animate-spin mx-auto mb-4"></div>
-            <h3 className="text-lg font-medium text-gray-900">Gathering Intelligence...</h3>
-            <p className="text-gray-500">Querying ORCID databases and calculating statistics</p>
-          </div>
-        )}
 
-        {!loading && stats && (
-          <div className="animate-fade-in-up">
-            <div className="flex items-center justify-between mb-6">
-              <h2 className="text-2xl font-bold text-gray-900">Analysis Report</h2>
-              <button className="flex items-center gap-2 text-indigo-600 hover:text-indigo-800 font-medium text-sm transition-colors">
-                <Download className="w-4 h-4" /> Export Report
+          {failures.length > 0 && (
+            <section className="bg-white rounded-xl border border-red-100 shadow-sm mb-8 overflow-hidden">
+              <div className="px-6 py-4 border-b border-red-100 bg-red-50 flex items-center gap-2">
+                <XCircle className="w-5 h-5 text-red-600" />
+                <h3 className="font-semibold text-red-800">
+                  Excluded from analysis ({failures.length} {failures.length === 1 ? 'ID' : 'IDs'})
+                </h3>
+              </div>
+              <ul className="divide-y divide-gray-100 text-sm">
+                {failures.map(failure => (
+                  <li key={failure.orcidId} className="px-6 py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1">
+                    <span className="font-mono text-gray-700">{failure.orcidId}</span>
+                    <span className="text-red-700">{failure.reason}</span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {!stats && data.length > 0 && (
+            <div className="text-center py-16 bg-white rounded-xl border border-gray-100 shadow-sm mb-8">
+              <p className="text-gray-700 font-medium">No researchers match the current filters.</p>
+              <p className="text-sm text-gray-500 mt-1">{filterSummary.join(' • ')}</p>
+              <button
+                onClick={() => setFilters(EMPTY_FILTERS)}
+                className="mt-4 px-4 py-2 text-sm font-medium text-indigo-700 bg-indigo-50 rounded-lg hover:bg-indigo-100"
+              >
+                Clear filters
               </button>
             </div>
+          )}
 
-            {/* KPI Cards */}
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-              <div className="bg-white p-6 rounded-xl border border-gray-100 shadow-sm hover:shadow-md transition-shadow">
-                <div className="flex items-center gap-4">
-                  <div className="p-3 bg-blue-50 text-blue-600 rounded-lg">
-                    <Users className="w-6 h-6" />
-                  </div>
-                  <div>
-                    <p className="text-sm text-gray-500 font-medium">Researchers</p>
-                    <p className="text-2xl font-bold text-gray-900">{stats.totalResearchers}</p>
-                  </div>
+          {stats && (
+            <div className="animate-fade-in-up" ref={reportRef}>
+              {hasDemoData(data) && (
+                <div className="mb-6 p-4 bg-amber-50 border border-amber-200 text-amber-800 text-sm rounded-xl flex items-center gap-2">
+                  <FlaskConical className="w-5 h-5 flex-shrink-0" />
+                  This report contains generated demo data. The numbers below do not describe real publication activity.
                 </div>
-              </div>
-              <div className="bg-white p-6 rounded-xl border border-gray-100 shadow-sm hover:shadow-md transition-shadow">
-                <div className="flex items-center gap-4">
-                  <div className="p-3 bg-purple-50 text-purple-600 rounded-lg">
-                    <FileText className="w-6 h-6" />
-                  </div>
-                  <div>
-                    <p className="text-sm text-gray-500 font-medium">Total Publications</p>
-                    <p className="text-2xl font-bold text-gray-900">{stats.totalPublications}</p>
-                  </div>
+              )}
+
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-2xl font-bold text-gray-900">Analysis Report</h2>
+                <div className="flex items-center gap-6">
+                  <label className="flex items-center gap-2 text-sm text-gray-600">
+                    Compare by
+                    <select
+                      value={groupingId}
+                      onChange={(e) => setGroupingId(e.target.value)}
+                      className="px-3 py-1.5 rounded-lg border border-gray-300 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                    >
+                      <option value="">No grouping</option>
+                      {groupingOptions.map(option => (
+                        <option key={option.id} value={option.id}>{option.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <button
+                    onClick={() => setShowTaxonomy(true)}
+                    className="flex items-center gap-1 text-sm text-gray-600 hover:text-indigo-600 transition-colors"
+                  >
+                    <Tags className="w-4 h-4" /> Work types
+                  </button>
+                  <ExportMenu onExport={handleExport} />
                 </div>
               </div>
-              <div className="bg-white p-6 rounded-xl border border-gray-100 shadow-sm hover:shadow-md transition-shadow">
-                <div className="flex items-center gap-4">
-                  <div className="p-3 bg-emerald-50 text-emerald-600 rounded-lg">
-                    <TrendingUp className="w-6 h-6" />
+
+              {/* Citation Enrichment */}
+              <div className="flex flex-wrap items-center gap-3 mb-6 text-sm text-gray-600">
+                <span className="font-medium">Citation metrics</span>
+                <select
+                  value={citationProviderId}
+                  onChange={(e) => setCitationProviderId(e.target.value)}
+                  disabled={enriching}
+                  className="px-3 py-1.5 rounded-lg border border-gray-300 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                >
+                  {citationProviders.map(provider => (
+                    <option key={provider.id} value={provider.id}>{provider.name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleEnrichCitations}
+                  disabled={enriching || loading}
+                  className="flex items-center gap-2 px-3 py-1.5 bg-indigo-50 text-indigo-700 font-medium rounded-lg hover:bg-indigo-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {enriching
+                    ? <div className="w-4 h-4 border-2 border-indigo-200 border-t-indigo-600 rounded-full animate-spin" />
+                    : <Quote className="w-4 h-4" />}
+                  Fetch citations
+                </button>
+                {enrichmentNote && <span className="text-gray-500">{enrichmentNote}</span>}
+              </div>
+
+              <FilterBar
+                profiles={categorizedData}
+                filters={filters}
+                matchingWorks={stats.uniquePublications}
+                onChange={setFilters}
+                onShowWorks={() => setShowWorks(true)}
+              />
+
+              {/* KPI Cards */}
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+                <div className="bg-white p-6 rounded-xl border border-gray-100 shadow-sm hover:shadow-md transition-shadow">
+                  <div className="flex items-center gap-4">
+                    <div className="p-3 bg-blue-50 text-blue-600 rounded-lg">
+                      <Users className="w-6 h-6" />
+                    </div>
+                    <div>
+                      <p className="text-sm text-gray-500 font-medium">Researchers</p>
+                      <p className="text-2xl font-bold text-gray-900">{stats.totalResearchers}</p>
+                    </div>
                   </div>
-                  <div>
-                    <p className="text-sm text-gray-500 font-medium">Avg. per Person</p>
-                    <p className="text-2xl font-bold text-gray-900">{stats.avgPublications.toFixed(1)}</p>
+                </div>
+                <div className="bg-white p-6 rounded-xl border border-gray-100 shadow-sm hover:shadow-md transition-shadow">
+                  <div className="flex items-center gap-4">
+                    <div className="p-3 bg-purple-50 text-purple-600 rounded-lg">
+                      <FileText className="w-6 h-6" />
+                    </div>
+                    <div>
+                      <p className="text-sm text-gray-500 font-medium">Unique Publications</p>
+                      <p className="text-2xl font-bold text-gray-900">{stats.uniquePublications}</p>
+                      <p className="text-xs text-gray-400">{stats.totalPublications} researcher-attributed</p>
+                    </div>
                   </div>
                 </div>
-              </div>
-              <div className="bg-white p-6 rounded-xl border border-gray-100 shadow-sm hover:shadow-md transition-shadow">
-                <div className="flex items-center gap-4">
-                  <div className="p-3 bg-amber-50 text-amber-600 rounded-lg">
-                    <CheckCircle2 className="w-6 h-6" />
+                <div className="bg-white p-6 rounded-xl border border-gray-100 shadow-sm hover:shadow-md transition-shadow">
+                  <div className="flex items-center gap-4">
+                    <div className="p-3 bg-emerald-50 text-emerald-600 rounded-lg">
+                      <TrendingUp className="w-6 h-6" />
+                    </div>
+                    <div>
+                      <p className="text-sm text-gray-500 font-medium">Avg. per Person</p>
+                      <p className="text-2xl font-bold text-gray-900">{stats.avgPublications.toFixed(1)}</p>
+                    </div>
                   </div>
-                  <div>
-                    <p className="text-sm text-gray-500 font-medium">Active Years</p>
-                    <p className="text-2xl font-bold text-gray-900">{stats.publicationsByYear.length}</p>
+                </div>
+                <div className="bg-white p-6 rounded-xl border border-gray-100 shadow-sm hover:shadow-md transition-shadow">
+                  <div className="flex items-center gap-4">
+                    <div className="p-3 bg-amber-50 text-amber-600 rounded-lg">
+                      <CheckCircle2 className="w-6 h-6" />
+                    </div>
+                    <div>
+                      <p className="text-sm text-gray-500 font-medium">Active Years</p>
+                      <p className="text-2xl font-bold text-gray-900">{stats.publicationsByYear.length}</p>
+                    </div>
                   </div>
                 </div>
+                {stats.citationsAvailable && (
+                  <>
+                    <div className="bg-white p-6 rounded-xl border border-gray-100 shadow-sm hover:shadow-md transition-shadow">
+                      <div className="flex items-center gap-4">
+                        <div className="p-3 bg-rose-50 text-rose-600 rounded-lg">
+                          <Quote className="w-6 h-6" />
+                        </div>
+                        <div>
+                          <p className="text-sm text-gray-500 font-medium">Total Citations</p>
+                          <p className="text-2xl font-bold text-gray-900">{stats.totalCitations}</p>
+                        </div>
+                      </div>
+                    </div>
+                    <div className="bg-white p-6 rounded-xl border border-gray-100 shadow-sm hover:shadow-md transition-shadow">
+                      <div className="flex items-center gap-4">
+                        <div className="p-3 bg-cyan-50 text-cyan-600 rounded-lg">
+                          <Award className="w-6 h-6" />
+                        </div>
+                        <div>
+                          <p className="text-sm text-gray-500 font-medium">Median h-index</p>
+                          <p className="text-2xl font-bold text-gray-900">{stats.medianHIndex}</p>
+                        </div>
+                      </div>
+                    </div>
+                  </>
+                )}
               </div>
-            </div>
 
-            {/* Charts */}
-            <AnalysisCharts data={stats} />
+              {/* Charts */}
+              <AnalysisCharts data={stats} onYearClick={handleYearClick} onTypeClick={handleTypeClick} />
+              {assistantCharts.length > 0 && (
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+                  {assistantCharts.map(chart => (
+                    <div key={chart.id} className="bg-white p-6 rounded-xl border border-gray-100 shadow-sm">
+                      <div className="flex items-start justify-between gap-2 mb-4">
+                        <div>
+                          <h3 className="text-lg font-semibold text-gray-800">{chart.title}</h3>
+                          <p className="text-xs text-gray-400">Added by the assistant from the data in view at the time</p>
+                        </div>
+                        <button
+                          onClick={() => setAssistantCharts(prev => prev.filter(c => c.id !== chart.id))}
+                          className="text-gray-400 hover:text-gray-600 p-1 rounded transition-colors"
+                          title="Remove chart"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                      <ChatChartView chart={chart} height={256} />
+                    </div>
+                  ))}
+                </div>
+              )}
+              <TopicPanel data={stats} />
 
-            {/* Detailed Table */}
-            <div className="bg-white rounded-xl border border-gray-100 shadow-sm overflow-hidden">
-              <div className="px-6 py-4 border-b border-gray-100 bg-gray-50">
-                <h3 className="font-semibold text-gray-800">Researcher Breakdown</h3>
-              </div>
-              <div className="overflow-x-auto">
-                <table className="w-full text-sm text-left">
-                  <thead className="bg-gray-50 text-gray-500 font-medium">
-                    <tr>
-                      <th className="px-6 py-3">ORCID ID</th>
-                      <th className="px-6 py-3">Name (Approx)</th>
-                      <th className="px-6 py-3 text-right">Publications</th>
-                      <th className="px-6 py-3 text-right">Latest Work</th>
-                    </tr>
-                  </thead>
-                  <tbody className="divide-y divide-gray-100">
-                    {stats.processedProfiles.map((profile) => (
-                      <tr key={profile.orcidId} className="hover:bg-gray-50 transition-colors">
-                        <td className="px-6 py-4 font-mono text-indigo-600">{profile.orcidId}</td>
-                        <td className="px-6 py-4 text-gray-900">{profile.fullName}</td>
-                        <td className="px-6 py-4 text-right text-gray-700">{profile.works.length}</td>
-                        <td className="px-6 py-4 text-right text-gray-500">
-                          {profile.works.length > 0 
-                            ? Math.max(...profile.works.map(w => w.year || 0)) || 'N/A'
-                            : '-'}
-                        </td>
+              <CollaborationNetworkView data={stats} />
+
+              {/* Group Comparison */}
+              {activeGrouping && groupStats.length > 0 && (
+                <>
+                  <GroupComparisonCharts groups={groupStats} />
+                  <GroupComparisonTable groups={groupStats} dimensionLabel={activeGrouping.label} />
+                </>
+              )}
+
+              <JournalQualityPanel
+                data={stats}
+                list={journalList}
+                grouping={activeGrouping}
+                onImport={updateJournalList}
+                onRemove={handleRemoveJournalList}
+                onReview={() => setShowJournalReview(true)}
+              />
+
+              <DataQualityAudit profiles={auditedProfiles} onSelectProfile={profile => openProfile(profile.orcidId)} />
+
+              <ReportGenerator data={stats} grouping={activeGrouping} filterSummary={filterSummary} />
+
+              <CoAuthorshipPanel data={stats} />
+
+              {/* Detailed Table */}
+              <div className="bg-white rounded-xl border border-gray-100 shadow-sm overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-100 bg-gray-50">
+                  <h3 className="font-semibold text-gray-800">Researcher Breakdown</h3>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm text-left">
+                    <thead className="bg-gray-50 text-gray-500 font-medium">
+                      <tr>
+                        <th className="px-6 py-3">ORCID ID</th>
+                        <th className="px-6 py-3">Name</th>
+                        <th className="px-6 py-3">Current Affiliation</th>
+                        <th className="px-6 py-3">Source</th>
+                        <th className="px-6 py-3 text-right">Publications</th>
+                        <th className="px-6 py-3 text-right">Latest Work</th>
+                        {stats.citationsAvailable && (
+                          <>
+                            <th className="px-6 py-3 text-right">Citations</th>
+                            <th className="px-6 py-3 text-right">h-index</th>
+                            <th className="px-6 py-3 text-right">i10</th>
+                            <th className="px-6 py-3 text-right" title="Mean field-weighted citation impact">FWCI</th>
+                          </>
+                        )}
                       </tr>
-                    ))}
-                  </tbody>
-                </table>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {stats.processedProfiles.map((profile, index) => (
+                        <tr
+                          key={profile.orcidId}
+                          onClick={() => openProfile(profile.orcidId)}
+                          className="hover:bg-gray-50 transition-colors cursor-pointer"
+                          title="Open researcher profile"
+                        >
+                          <td className="px-6 py-4 font-mono text-indigo-600">{profile.orcidId}</td>
+                          <td className="px-6 py-4 text-gray-900">
+                            <button className="font-medium hover:text-indigo-600 hover:underline text-left">{profile.fullName}</button>
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setFilters(prev => ({ ...prev, researchers: toggleValue(prev.researchers, profile.orcidId) }));
+                              }}
+                              className={`ml-2 align-middle ${filters.researchers.includes(profile.orcidId) ? 'text-indigo-600' : 'text-gray-300 hover:text-indigo-600'}`}
+                              title={filters.researchers.includes(profile.orcidId) ? 'Remove researcher filter' : 'Filter dashboard to this researcher'}
+                            >
+                              <Filter className="w-3.5 h-3.5 inline" />
+                            </button>
+                          </td>
+                          <td className="px-6 py-4 text-gray-500">
+                            {profile.employments.find(e => e.endYear === null)?.organization || '-'}
+                          </td>
+                          <td className="px-6 py-4">
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${SOURCE_BADGES[profile.source].className}`}>
+                              {SOURCE_BADGES[profile.source].label}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 text-right text-gray-700">{profile.works.length}</td>
+                          <td className="px-6 py-4 text-right text-gray-500">
+                            {profile.works.length > 0 
+                              ? Math.max(...profile.works.map(w => w.year || 0)) || 'N/A'
+                              : '-'}
+                          </td>
+                          {stats.citationsAvailable && (
+                            <>
+                              <td className="px-6 py-4 text-right text-gray-700">{stats.researcherMetrics[index].citations}</td>
+                              <td className="px-6 py-4 text-right text-gray-700">{stats.researcherMetrics[index].hIndex}</td>
+                              <td className="px-6 py-4 text-right text-gray-700">{stats.researcherMetrics[index].i10Index}</td>
+                              <td className="px-6 py-4 text-right text-gray-500">
+                                {stats.researcherMetrics[index].meanFwci?.toFixed(2) ?? '-'}
+                              </td>
+                            </>
+                          )}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
               </div>
+
+              <WorksExplorer profiles={stats.processedProfiles} />
             </div>
-          </div>
-        )}
+          )}
+        </div>
       </main>
       
+      {showWorks && stats && (
+        <WorksDrillDown
+          works={stats.uniqueWorks}
+          profiles={data}
+          filterSummary={filterSummary}
+          onClose={() => setShowWorks(false)}
+        />
+      )}
+
+      {showTaxonomy && (
+        <TaxonomyEditor
+          taxonomy={taxonomy}
+          profiles={data}
+          onSave={handleSaveTaxonomy}
+          onClose={() => setShowTaxonomy(false)}
+        />
+      )}
+
+      {showJournalReview && journalList && stats && (
+        <JournalReviewQueue
+          profiles={stats.processedProfiles}
+          list={journalList}
+          onDecide={handleJournalDecision}
+          onClose={() => setShowJournalReview(false)}
+        />
+      )}
+
+      {showCache && <CacheInspector onClose={() => setShowCache(false)} />}
+
+      {showSnapshots && (
+        <SnapshotBrowser
+          currentStats={fullStats}
+          currentFilters={filters}
+          analysisId={analysisId}
+          onOpen={handleOpenSavedSnapshot}
+          onClose={() => setShowSnapshots(false)}
+        />
+      )}
+
       {/* Floating Chat Bot */}
-      <ChatBot contextData={stats} />
+      <ChatBot
+        contextData={stats}
+        filterSummary={filterSummary}
+        profiles={categorizedData}
+        analysisId={analysisId}
+        onAction={handleChatAction}
+      />
     </div>
   );
 }
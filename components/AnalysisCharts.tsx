@@ -1,21 +1,28 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
   PieChart, Pie, Cell, Legend 
 } from 'recharts';
-import { AnalysisStats } from '../types';
+import { AnalysisStats, GroupStats } from '../types';
 
 interface AnalysisChartsProps {
   data: AnalysisStats;
+  // Click-to-filter handlers; charts are read-only when omitted
+  onYearClick?: (year: number) => void;
+  onTypeClick?: (type: string) => void;
 }
 
-const COLORS = ['#4f46e5', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#06b6d4'];
+interface GroupComparisonChartsProps {
+  groups: GroupStats[];
+}
+
+export const COLORS = ['#4f46e5', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#06b6d4'];
 
-export const AnalysisCharts: React.FC<AnalysisChartsProps> = ({ data }) => {
+export const AnalysisCharts: React.FC<AnalysisChartsProps> = ({ data, onYearClick, onTypeClick }) => {
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
       {/* Yearly Trend */}
-      <div className="bg-white p-6 rounded-xl border border-gray-100 shadow-sm">
+      <div className="bg-white p-6 rounded-xl border border-gray-100 shadow-sm" data-chart-title="Publications by Year">
         <h3 className="text-lg font-semibold text-gray-800 mb-4">Publications by Year</h3>
         <div className="h-72 w-full">
           <ResponsiveContainer width="100%" height="100%">
@@ -30,14 +37,21 @@ export const AnalysisCharts: React.FC<AnalysisChartsProps> = ({ data }) => {
                 cursor={{ fill: '#f3f4f6' }}
                 contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
               />
-              <Bar dataKey="count" fill="#4f46e5" radius={[4, 4, 0, 0]} maxBarSize={50} />
+              <Bar
+                dataKey="count"
+                fill="#4f46e5"
+                radius={[4, 4, 0, 0]}
+                maxBarSize={50}
+                cursor={onYearClick ? 'pointer' : undefined}
+                onClick={(entry: any) => onYearClick?.(entry.year)}
+              />
             </BarChart>
           </ResponsiveContainer>
         </div>
       </div>
 
       {/* Type Distribution */}
-      <div className="bg-white p-6 rounded-xl border border-gray-100 shadow-sm">
+      <div className="bg-white p-6 rounded-xl border border-gray-100 shadow-sm" data-chart-title="Publication Types">
         <h3 className="text-lg font-semibold text-gray-800 mb-4">Publication Types</h3>
         <div className="h-72 w-full">
           <ResponsiveContainer width="100%" height="100%">
@@ -52,6 +66,8 @@ export const AnalysisCharts: React.FC<AnalysisChartsProps> = ({ data }) => {
                 paddingAngle={5}
                 dataKey="count"
                 nameKey="type"
+                cursor={onTypeClick ? 'pointer' : undefined}
+                onClick={(entry: any) => onTypeClick?.(entry.type)}
               >
                 {data.publicationsByType.map((entry, index) => (
                   <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
@@ -70,6 +86,113 @@ export const AnalysisCharts: React.FC<AnalysisChartsProps> = ({ data }) => {
           </ResponsiveContainer>
         </div>
       </div>
+
+      {/* h-index Distribution */}
+      {data.citationsAvailable && (
+        <div className="bg-white p-6 rounded-xl border border-gray-100 shadow-sm lg:col-span-2" data-chart-title="h-index Distribution">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">h-index Distribution</h3>
+          <div className="h-60 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart
+                data={data.hIndexDistribution}
+                margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e5e7eb" />
+                <XAxis dataKey="hIndex" axisLine={false} tickLine={false} tick={{fill: '#6b7280', fontSize: 12}} dy={10} />
+                <YAxis allowDecimals={false} axisLine={false} tickLine={false} tick={{fill: '#6b7280', fontSize: 12}} />
+                <Tooltip 
+                  cursor={{ fill: '#f3f4f6' }}
+                  contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                />
+                <Bar dataKey="researchers" name="Researchers" fill="#06b6d4" radius={[4, 4, 0, 0]} maxBarSize={50} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const GroupComparisonCharts: React.FC<GroupComparisonChartsProps> = ({ groups }) => {
+  const [stacked, setStacked] = useState(true);
+
+  // One row per year with a count column per group, as Recharts expects for multi-series bars
+  const byYear = useMemo(() => {
+    const rows: Record<number, Record<string, number>> = {};
+    groups.forEach(group => {
+      group.publicationsByYear.forEach(({ year, count }) => {
+        rows[year] = rows[year] || { year };
+        rows[year][group.group] = count;
+      });
+    });
+    return Object.values(rows).sort((a, b) => a.year - b.year);
+  }, [groups]);
+
+  const perCapita = groups.map(group => ({
+    group: group.group,
+    perCapita: Number(group.perCapita.toFixed(2)),
+    perCapitaPerYear: Number(group.perCapitaPerYear.toFixed(2))
+  }));
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+      {/* Normalized output per group */}
+      <div className="bg-white p-6 rounded-xl border border-gray-100 shadow-sm" data-chart-title="Publications per Researcher">
+        <h3 className="text-lg font-semibold text-gray-800 mb-4">Publications per Researcher</h3>
+        <div className="h-72 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={perCapita} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e5e7eb" />
+              <XAxis dataKey="group" axisLine={false} tickLine={false} tick={{fill: '#6b7280', fontSize: 12}} dy={10} />
+              <YAxis axisLine={false} tickLine={false} tick={{fill: '#6b7280', fontSize: 12}} />
+              <Tooltip 
+                cursor={{ fill: '#f3f4f6' }}
+                contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+              />
+              <Legend iconType="circle" wrapperStyle={{ fontSize: '12px', paddingTop: '10px' }} />
+              <Bar dataKey="perCapita" name="Total per researcher" fill={COLORS[0]} radius={[4, 4, 0, 0]} maxBarSize={40} />
+              <Bar dataKey="perCapitaPerYear" name="Per researcher per year" fill={COLORS[1]} radius={[4, 4, 0, 0]} maxBarSize={40} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {/* Yearly output per group */}
+      <div className="bg-white p-6 rounded-xl border border-gray-100 shadow-sm" data-chart-title="Publications by Year and Group">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-800">Publications by Year and Group</h3>
+          <button
+            onClick={() => setStacked(!stacked)}
+            className="text-xs font-medium text-indigo-600 hover:text-indigo-800"
+          >
+            {stacked ? 'Side by side' : 'Stacked'}
+          </button>
+        </div>
+        <div className="h-72 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={byYear} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e5e7eb" />
+              <XAxis dataKey="year" axisLine={false} tickLine={false} tick={{fill: '#6b7280', fontSize: 12}} dy={10} />
+              <YAxis axisLine={false} tickLine={false} tick={{fill: '#6b7280', fontSize: 12}} />
+              <Tooltip 
+                cursor={{ fill: '#f3f4f6' }}
+                contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+              />
+              <Legend iconType="circle" wrapperStyle={{ fontSize: '12px', paddingTop: '10px' }} />
+              {groups.map((group, index) => (
+                <Bar
+                  key={group.group}
+                  dataKey={group.group}
+                  stackId={stacked ? 'groups' : undefined}
+                  fill={COLORS[index % COLORS.length]}
+                  maxBarSize={50}
+                />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
     </div>
   );
-};
\ No newline at end of file
+};
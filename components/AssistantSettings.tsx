@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { LlmProviderId, LlmSettings } from '../types';
+import { LLM_PROVIDERS, getProviderInfo } from '../services/llmProviders';
+
+interface AssistantSettingsProps {
+  settings: LlmSettings;
+  onSave: (settings: LlmSettings) => void;
+  onCancel: () => void;
+}
+
+const INPUT_CLASS = 'w-full px-3 py-2 rounded-lg border border-gray-300 text-sm focus:ring-2 focus:ring-indigo-500 outline-none';
+
+export const AssistantSettings: React.FC<AssistantSettingsProps> = ({ settings, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<LlmSettings>(settings);
+  const provider = getProviderInfo(draft.provider);
+
+  const handleProviderChange = (id: LlmProviderId) => {
+    const next = getProviderInfo(id);
+    // Keep what was typed for the same provider; otherwise start from the new provider's defaults
+    setDraft(id === settings.provider
+      ? settings
+      : { provider: id, model: next.defaultModel, baseUrl: next.defaultBaseUrl, apiKey: '' });
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 space-y-4 min-h-[300px] max-h-[480px] text-sm">
+      <div>
+        <label className="block font-medium text-gray-700 mb-2">Provider</label>
+        <select
+          value={draft.provider}
+          onChange={(e) => handleProviderChange(e.target.value as LlmProviderId)}
+          className={INPUT_CLASS}
+        >
+          {LLM_PROVIDERS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+        </select>
+        <p className="text-xs text-gray-500 mt-1">{provider.description}</p>
+      </div>
+
+      {provider.id !== 'stub' && (
+        <div>
+          <label className="block font-medium text-gray-700 mb-2">Model</label>
+          <input
+            value={draft.model}
+            onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+            placeholder={provider.defaultModel}
+            className={INPUT_CLASS}
+          />
+          {provider.id === 'proxy' && (
+            <p className="text-xs text-gray-500 mt-1">The server uses its own model unless this one is on its allowed list.</p>
+          )}
+        </div>
+      )}
+
+      {provider.usesBaseUrl && (
+        <div>
+          <label className="block font-medium text-gray-700 mb-2">Endpoint URL</label>
+          <input
+            value={draft.baseUrl}
+            onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })}
+            placeholder={provider.defaultBaseUrl}
+            className={INPUT_CLASS}
+          />
+        </div>
+      )}
+
+      {provider.usesApiKey && (
+        <div>
+          <label className="block font-medium text-gray-700 mb-2">
+            {provider.id === 'proxy' ? 'Access token' : 'API key'}
+            {provider.id !== 'gemini' && <span className="font-normal text-gray-400"> (optional)</span>}
+          </label>
+          <input
+            type="password"
+            value={draft.apiKey}
+            onChange={(e) => setDraft({ ...draft, apiKey: e.target.value })}
+            autoComplete="off"
+            className={INPUT_CLASS}
+          />
+          {provider.id === 'proxy' ? (
+            <p className="text-xs text-gray-500 mt-1">Only needed when the server sets LLM_PROXY_TOKEN. Stored in this browser.</p>
+          ) : (
+            <p className="text-xs text-amber-700 mt-1">Stored in this browser. Prefer the server proxy on shared computers.</p>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button onClick={() => onSave(draft)} className="px-4 py-2 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-700">
+          Save
+        </button>
+        <button onClick={onCancel} className="px-4 py-2 font-medium text-gray-600 hover:text-gray-800">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, StopCircle } from 'lucide-react';
+import { FetchProgress, FetchStatus } from '../types';
+
+interface BatchProgressProps {
+  items: FetchProgress[];
+  running: boolean;
+  onCancel: () => void;
+}
+
+const STATUS_STYLES: Record<FetchStatus, string> = {
+  pending: 'bg-gray-100 text-gray-500',
+  running: 'bg-indigo-50 text-indigo-700',
+  retrying: 'bg-amber-50 text-amber-700',
+  ok: 'bg-emerald-50 text-emerald-700',
+  failed: 'bg-red-50 text-red-700',
+  cancelled: 'bg-gray-100 text-gray-400 line-through'
+};
+
+const DONE_STATUSES: FetchStatus[] = ['ok', 'failed', 'cancelled'];
+
+export const BatchProgress: React.FC<BatchProgressProps> = ({ items, running, onCancel }) => {
+  const [showDetails, setShowDetails] = useState(false);
+
+  const done = items.filter(item => DONE_STATUSES.includes(item.status)).length;
+  const okCount = items.filter(item => item.status === 'ok').length;
+  const failedCount = items.filter(item => item.status === 'failed').length;
+  const retryingCount = items.filter(item => item.status === 'retrying').length;
+  const percent = items.length > 0 ? Math.round((done / items.length) * 100) : 0;
+
+  return (
+    <section className="bg-white rounded-xl border border-gray-100 shadow-sm p-6 mb-8">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="font-semibold text-gray-800">
+            {running ? 'Fetching ORCID records...' : 'Batch finished'}
+          </h3>
+          <p className="text-sm text-gray-500">
+            {done} of {items.length} processed • {okCount} ok • {failedCount} failed
+            {retryingCount > 0 && ` • ${retryingCount} retrying`}
+          </p>
+        </div>
+        {running && (
+          <button
+            onClick={onCancel}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-red-600 border border-red-200 rounded-xl hover:bg-red-50 transition-colors"
+          >
+            <StopCircle className="w-4 h-4" /> Cancel
+          </button>
+        )}
+      </div>
+
+      <div className="w-full h-2 bg-gray-100 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-indigo-600 transition-all duration-300"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+
+      <button
+        onClick={() => setShowDetails(!showDetails)}
+        className="mt-3 flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700"
+      >
+        {showDetails ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        Per-ID status
+      </button>
+
+      {showDetails && (
+        <div className="mt-3 grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-2 max-h-64 overflow-y-auto">
+          {items.map(item => (
+            <div
+              key={item.orcidId}
+              title={item.message}
+              className={`px-2 py-1 rounded-lg text-xs font-mono flex justify-between gap-2 ${STATUS_STYLES[item.status]}`}
+            >
+              <span>{item.orcidId}</span>
+              <span className="font-sans">
+                {item.status}{item.status === 'retrying' && item.attempt ? ` #${item.attempt}` : ''}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Database, Trash2, X } from 'lucide-react';
+import { CacheEntry } from '../types';
+import { DEFAULT_CACHE_TTL_MS, clearCache, deleteProfileFromCache, listCacheEntries } from '../services/orcidCache';
+
+interface CacheInspectorProps {
+  onClose: () => void;
+}
+
+interface CachedProfileSummary {
+  orcidId: string;
+  endpoints: number;
+  size: number;
+  oldestFetch: number;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatAge = (timestamp: number) => {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours} h`;
+  return `${Math.floor(hours / 24)} d`;
+};
+
+export const CacheInspector: React.FC<CacheInspectorProps> = ({ onClose }) => {
+  const [entries, setEntries] = useState<CacheEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = async () => {
+    setLoading(true);
+    setEntries(await listCacheEntries());
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const profiles: CachedProfileSummary[] = useMemo(() => {
+    const byId: Record<string, CachedProfileSummary> = {};
+    entries.forEach(entry => {
+      const summary = byId[entry.orcidId] || (byId[entry.orcidId] = {
+        orcidId: entry.orcidId, endpoints: 0, size: 0, oldestFetch: entry.fetchedAt
+      });
+      summary.endpoints += 1;
+      summary.size += entry.size;
+      summary.oldestFetch = Math.min(summary.oldestFetch, entry.fetchedAt);
+    });
+    return Object.values(byId).sort((a, b) => a.oldestFetch - b.oldestFetch);
+  }, [entries]);
+
+  const totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+  const handleDelete = async (orcidId: string) => {
+    await deleteProfileFromCache(orcidId);
+    await refresh();
+  };
+
+  const handleClear = async () => {
+    await clearCache();
+    await refresh();
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/30 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl border border-gray-200 w-full max-w-2xl max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Database className="w-5 h-5 text-indigo-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Local ORCID Cache</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-1 rounded transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-3 bg-gray-50 text-sm text-gray-600 flex items-center justify-between">
+          <span>
+            {profiles.length} profiles • {formatBytes(totalSize)} • entries refresh after {DEFAULT_CACHE_TTL_MS / 3600000} h
+          </span>
+          <button
+            onClick={handleClear}
+            disabled={entries.length === 0}
+            className="flex items-center gap-1 text-red-600 hover:text-red-800 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Trash2 className="w-4 h-4" /> Clear all
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1">
+          {loading ? (
+            <p className="p-6 text-sm text-gray-500">Loading cache contents...</p>
+          ) : profiles.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">The cache is empty.</p>
+          ) : (
+            <table className="w-full text-sm text-left">
+              <thead className="bg-gray-50 text-gray-500 font-medium">
+                <tr>
+                  <th className="px-6 py-3">ORCID ID</th>
+                  <th className="px-6 py-3 text-right">Endpoints</th>
+                  <th className="px-6 py-3 text-right">Size</th>
+                  <th className="px-6 py-3 text-right">Age</th>
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {profiles.map(profile => (
+                  <tr key={profile.orcidId} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-6 py-3 font-mono text-indigo-600">{profile.orcidId}</td>
+                    <td className="px-6 py-3 text-right text-gray-700">{profile.endpoints}</td>
+                    <td className="px-6 py-3 text-right text-gray-700">{formatBytes(profile.size)}</td>
+                    <td className="px-6 py-3 text-right text-gray-500">{formatAge(profile.oldestFetch)}</td>
+                    <td className="px-6 py-3 text-right">
+                      <button
+                        onClick={() => handleDelete(profile.orcidId)}
+                        className="text-gray-400 hover:text-red-600 transition-colors"
+                        title="Remove from cache"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
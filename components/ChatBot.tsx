@@ -1,28 +1,68 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { GoogleGenAI, Chat, GenerateContentResponse } from "@google/genai";
-import { MessageCircle, X, Send, Bot, User, Loader2, Sparkles } from 'lucide-react';
-import { AnalysisStats, ChatMessage } from '../types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import {
+  MessageCircle, X, Send, Bot, User, Loader2, Sparkles, Wrench, Plus, Pencil, Download, Trash2, Settings
+} from 'lucide-react';
+import { AnalysisStats, ChatAction, ChatMessage, ChatThread, ChatToolCall, LlmSettings, OrcidProfileData } from '../types';
+import { CHAT_TOOLS, executeChatTool, formatToolCall } from '../services/chatTools';
+import { historyFromMessages, runChatTurn } from '../services/chatModel';
+import { createChatAdapter, loadLlmSettings, saveLlmSettings } from '../services/llmProviders';
+import {
+  DEFAULT_THREAD_NAME, createThread, deleteChatThread, exportThreadMarkdown, listChatThreads, nameFromMessage, saveChatThread
+} from '../services/chatHistoryService';
+import { MarkdownMessage } from './MarkdownMessage';
+import { ChatChartView } from './ChatChartView';
+import { AssistantSettings } from './AssistantSettings';
 
 interface ChatBotProps {
   contextData: AnalysisStats | null;
+  filterSummary?: string[]; // dashboard filters the context data was reduced by
+  profiles?: OrcidProfileData[]; // unfiltered data, for resolving filter values and researchers
+  analysisId?: string | null; // conversations are kept per analysis
+  onAction?: (action: ChatAction) => void;
 }
 
-const ChatBot: React.FC<ChatBotProps> = ({ contextData }) => {
+const WELCOME_MESSAGE: ChatMessage = {
+  id: 'welcome',
+  role: 'model',
+  text: "Hello! I'm your Research Assistant. I can query the publication data loaded on the dashboard. Ask me anything!",
+  timestamp: new Date()
+};
+
+const ToolCallList: React.FC<{ calls: ChatToolCall[] }> = ({ calls }) => (
+  <div className="space-y-1 mb-2">
+    {calls.map((call, index) => (
+      <details key={index} className="text-xs">
+        <summary className={`cursor-pointer flex items-center gap-1 ${call.error ? 'text-red-600' : 'text-gray-500'}`}>
+          <Wrench className="w-3 h-3 flex-shrink-0" />
+          <span className="font-mono truncate">{formatToolCall(call)}</span>
+        </summary>
+        <pre className="mt-1 p-2 bg-gray-50 rounded text-[10px] text-gray-600 max-h-40 overflow-auto whitespace-pre-wrap">
+          {call.error || JSON.stringify(call.result, null, 2)}
+        </pre>
+      </details>
+    ))}
+  </div>
+);
+
+const ChatBot: React.FC<ChatBotProps> = ({ contextData, filterSummary = [], profiles, analysisId = null, onAction }) => {
   const [isOpen, setIsOpen] = useState(false);
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    {
-      id: 'welcome',
-      role: 'model',
-      text: "Hello! I'm your Research Assistant. I can help you analyze the publication data displayed on the dashboard. Ask me anything!",
-      timestamp: new Date()
-    }
-  ]);
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [threadsLoaded, setThreadsLoaded] = useState(false);
+  const [activeThread, setActiveThread] = useState<ChatThread>(() => createThread(analysisId));
+  const [renaming, setRenaming] = useState<string | null>(null);
   const [inputValue, setInputValue] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(loadLlmSettings);
+  const [showSettings, setShowSettings] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  
-  // Initialize chat session ref
-  const chatSessionRef = useRef<Chat | null>(null);
+  // Latest thread, for updates made while a reply is still arriving
+  const threadRef = useRef<ChatThread>(activeThread);
+  const selectedForAnalysisRef = useRef<string | null | undefined>(undefined);
+
+  const adapter = useMemo(() => createChatAdapter(llmSettings), [llmSettings]);
+
+  const messages = [WELCOME_MESSAGE, ...activeThread.messages];
+  const isSaved = threads.some(thread => thread.id === activeThread.id);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -30,105 +70,154 @@ const ChatBot: React.FC<ChatBotProps> = ({ contextData }) => {
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages, isOpen]);
+  }, [activeThread, isOpen]);
 
-  // Update system instruction when context data changes
   useEffect(() => {
-    if (process.env.API_KEY) {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
-      let systemInstruction = "You are a helpful research assistant bot analyzing academic publication data.";
-      
-      if (contextData) {
-        // aggregate and sort titles to give the AI context about the research topics
-        const allWorks = contextData.processedProfiles.flatMap(p => p.works);
-        // Sort by year descending to show most recent work first
-        allWorks.sort((a, b) => (b.year || 0) - (a.year || 0));
-        
-        // Take top 100 titles to provide sufficient context for topic analysis without overloading
-        const workTitles = allWorks
-          .slice(0, 100)
-          .map(w => `- ${w.title} (${w.year || 'n.d.'})${w.journal ? ` [Journal: ${w.journal}]` : ''}`)
-          .join('\n');
-
-        systemInstruction += `
-        \n\nCURRENT DATA CONTEXT:
-        - Total Researchers Analyzed: ${contextData.totalResearchers}
-        - Total Publications: ${contextData.totalPublications}
-        - Average Publications per Researcher: ${contextData.avgPublications.toFixed(1)}
-        - Top Years: ${contextData.publicationsByYear.slice(0, 3).map(y => `${y.year} (${y.count})`).join(', ')}
-        - Top Types: ${contextData.publicationsByType.slice(0, 3).map(t => `${t.type} (${t.count})`).join(', ')}
-        
-        SAMPLE PUBLICATION TITLES AND JOURNALS (use these to identify research topics, keywords, and scientific direction):
-        ${workTitles}
-        
-        INSTRUCTIONS:
-        - Use the provided titles and journal names to infer the scientific interests and research topics of the researcher(s).
-        - If the user asks about "scientific direction" or "topics", synthesize an answer based on the keywords found in the titles and the journals they publish in.
-        - Be concise and professional.
-        `;
-      }
+    listChatThreads().then(saved => {
+      setThreads(saved);
+      setThreadsLoaded(true);
+    });
+  }, []);
 
-      chatSessionRef.current = ai.chats.create({
-        model: 'gemini-3-pro-preview', // Using the requested model
-        config: {
-          systemInstruction,
-        },
-      });
+  const selectThread = (thread: ChatThread) => {
+    threadRef.current = thread;
+    setActiveThread(thread);
+    setRenaming(null);
+  };
+
+  // A new analysis resumes its latest conversation, or starts a fresh one
+  useEffect(() => {
+    if (!threadsLoaded || selectedForAnalysisRef.current === analysisId) return;
+    selectedForAnalysisRef.current = analysisId;
+    const latest = analysisId !== null ? threads.find(thread => thread.analysisId === analysisId) : undefined;
+    selectThread(latest || createThread(analysisId));
+  }, [threadsLoaded, analysisId, threads]);
+
+  const commitThread = (thread: ChatThread, persist: boolean) => {
+    threadRef.current = thread;
+    setActiveThread(thread);
+    if (!persist) return;
+    setThreads(prev => [thread, ...prev.filter(t => t.id !== thread.id)]);
+    saveChatThread(thread).catch(error => console.warn(`Could not save the conversation: ${error}`));
+  };
+
+  const updateMessage = (id: string, patch: Partial<ChatMessage>, persist: boolean) => {
+    const current = threadRef.current;
+    commitThread({
+      ...current,
+      updatedAt: Date.now(),
+      messages: current.messages.map(msg => msg.id === id ? { ...msg, ...patch } : msg)
+    }, persist);
+  };
+
+  // The model reads the data itself through tools; the instruction only describes what is loaded
+  const systemInstruction = useMemo(() => {
+    let systemInstruction = "You are a helpful research assistant bot analyzing academic publication data.";
+
+    if (contextData) {
+      systemInstruction += `
+      \n\nCURRENT DATA CONTEXT:
+      - Active Dashboard Filters: ${filterSummary.length > 0 ? filterSummary.join('; ') : 'none (full dataset)'}
+      - Total Researchers Analyzed: ${contextData.totalResearchers}
+      - Unique Publications (co-authored works counted once): ${contextData.uniquePublications}
+      - Researcher-Attributed Publications: ${contextData.totalPublications}
+
+      INSTRUCTIONS:
+      - Answer questions about counts, works, researchers and groups ONLY from tool results; never guess numbers.
+      - The tools see the same filtered data as the dashboard. Mention the active filters when they affect the answer.
+      - The data may have changed since earlier messages in the conversation; query again rather than reusing old numbers.
+      - For questions about research topics or scientific direction, start from get_topics and use list_works for detail.
+      - If a researcher name is ambiguous, ask which one is meant.
+      - When the user asks to see, filter or open something, use apply_filters, open_researcher or add_chart instead of describing how to do it.
+      - Format answers in Markdown; use a table for comparisons of several items.
+      - Be concise and professional.
+      `;
     }
-  }, [contextData]);
+
+    return systemInstruction;
+  }, [contextData, filterSummary.join('|')]);
 
   const handleSend = async () => {
-    if (!inputValue.trim() || !chatSessionRef.current) return;
+    if (!inputValue.trim() || isProcessing) return;
 
+    const text = inputValue;
     const userMsg: ChatMessage = {
       id: Date.now().toString(),
       role: 'user',
-      text: inputValue,
+      text,
       timestamp: new Date()
     };
+    const modelMsgId = (Date.now() + 1).toString();
+    const base = threadRef.current;
+
+    // Each question gets a session seeded from the finished conversation and the data as it is now.
+    // Tools such as apply_filters change the data mid-turn; the next question picks that up together
+    // with this turn's answer, so the model's history always matches the thread.
+    const session = adapter.startSession(systemInstruction, contextData ? CHAT_TOOLS : [], historyFromMessages(base.messages));
 
-    setMessages(prev => [...prev, userMsg]);
+    // Add the question and a placeholder for the reply
+    commitThread({
+      ...base,
+      name: base.name === DEFAULT_THREAD_NAME ? nameFromMessage(text) : base.name,
+      updatedAt: Date.now(),
+      messages: [...base.messages, userMsg, { id: modelMsgId, role: 'model', text: '', timestamp: new Date(), isThinking: true }]
+    }, true);
     setInputValue('');
     setIsProcessing(true);
 
     try {
-      const result = await chatSessionRef.current.sendMessageStream({ message: inputValue });
-      
-      let fullResponse = "";
-      const modelMsgId = (Date.now() + 1).toString();
-      
-      // Add placeholder message
-      setMessages(prev => [...prev, {
-        id: modelMsgId,
-        role: 'model',
-        text: '',
-        timestamp: new Date(),
-        isThinking: true
-      }]);
-
-      for await (const chunk of result) {
-        const c = chunk as GenerateContentResponse;
-        if (c.text) {
-          fullResponse += c.text;
-          setMessages(prev => prev.map(msg => 
-            msg.id === modelMsgId ? { ...msg, text: fullResponse, isThinking: false } : msg
-          ));
-        }
-      }
-    } catch (error) {
+      const reply = await runChatTurn(
+        session,
+        text,
+        (name, args) => {
+          if (!contextData) return { name, args, error: 'No data is loaded yet.' };
+          const call = executeChatTool(name, args, { stats: contextData, profiles: profiles || contextData.processedProfiles });
+          if (call.action) onAction?.(call.action);
+          return call;
+        },
+        toolCalls => updateMessage(modelMsgId, { toolCalls }, false)
+      );
+      updateMessage(modelMsgId, { text: reply.text, toolCalls: reply.toolCalls, isThinking: false }, true);
+    } catch (error: any) {
       console.error("Chat error:", error);
-      setMessages(prev => [...prev, {
-        id: Date.now().toString(),
-        role: 'model',
-        text: "I'm sorry, I encountered an error connecting to Gemini. Please try again.",
-        timestamp: new Date()
-      }]);
+      updateMessage(modelMsgId, {
+        text: `I'm sorry, I encountered an error connecting to ${adapter.label}: ${error.message || error}`,
+        isThinking: false
+      }, true);
     } finally {
       setIsProcessing(false);
     }
   };
 
+  const handleSaveSettings = (settings: LlmSettings) => {
+    setLlmSettings(saveLlmSettings(settings));
+    setShowSettings(false);
+  };
+
+  const handleRename = (name: string) => {
+    setRenaming(null);
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === activeThread.name) return;
+    commitThread({ ...threadRef.current, name: trimmed }, isSaved);
+  };
+
+  const handleDelete = async () => {
+    if (isSaved) {
+      try {
+        await deleteChatThread(activeThread.id);
+      } catch (error) {
+        console.warn(`Could not delete the conversation: ${error}`);
+        return;
+      }
+    }
+    const remaining = threads.filter(thread => thread.id !== activeThread.id);
+    setThreads(remaining);
+    selectThread(remaining.find(thread => analysisId !== null && thread.analysisId === analysisId) || createThread(analysisId));
+  };
+
+  const currentThreads = threads.filter(thread => analysisId !== null && thread.analysisId === analysisId);
+  const otherThreads = threads.filter(thread => !currentThreads.includes(thread));
+
   return (
     <div className="fixed bottom-6 right-6 z-50 flex flex-col items-end pointer-events-none">
       {/* Chat Window */}
@@ -143,8 +232,93 @@ const ChatBot: React.FC<ChatBotProps> = ({ contextData }) => {
             <Sparkles className="w-5 h-5 text-yellow-300" />
             <h3 className="font-semibold">AI Assistant</h3>
           </div>
-          <button onClick={() => setIsOpen(false)} className="hover:bg-indigo-700 p-1 rounded transition-colors">
-            <X className="w-5 h-5" />
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setShowSettings(!showSettings)}
+              disabled={isProcessing}
+              className={`p-1 rounded transition-colors ${showSettings ? 'bg-indigo-700' : 'hover:bg-indigo-700'}`}
+              title="Assistant settings"
+            >
+              <Settings className="w-5 h-5" />
+            </button>
+            <button onClick={() => setIsOpen(false)} className="hover:bg-indigo-700 p-1 rounded transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {showSettings ? (
+          <AssistantSettings settings={llmSettings} onSave={handleSaveSettings} onCancel={() => setShowSettings(false)} />
+        ) : (
+        <>
+        {/* Threads */}
+        <div className="px-3 py-2 border-b border-gray-100 flex items-center gap-1">
+          {renaming !== null ? (
+            <input
+              autoFocus
+              value={renaming}
+              onChange={(e) => setRenaming(e.target.value)}
+              onBlur={() => handleRename(renaming)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleRename(renaming);
+                if (e.key === 'Escape') setRenaming(null);
+              }}
+              className="flex-1 min-w-0 px-2 py-1 rounded border border-gray-300 text-xs focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+          ) : (
+            <select
+              value={activeThread.id}
+              onChange={(e) => {
+                const thread = threads.find(t => t.id === e.target.value);
+                if (thread) selectThread(thread);
+              }}
+              disabled={isProcessing}
+              className="flex-1 min-w-0 px-2 py-1 rounded border border-gray-200 text-xs text-gray-700 bg-white outline-none"
+            >
+              {!isSaved && <option value={activeThread.id}>{activeThread.name}</option>}
+              {currentThreads.length > 0 && (
+                <optgroup label="This analysis">
+                  {currentThreads.map(thread => <option key={thread.id} value={thread.id}>{thread.name}</option>)}
+                </optgroup>
+              )}
+              {otherThreads.length > 0 && (
+                <optgroup label="Other analyses">
+                  {otherThreads.map(thread => <option key={thread.id} value={thread.id}>{thread.name}</option>)}
+                </optgroup>
+              )}
+            </select>
+          )}
+          <button
+            onClick={() => selectThread(createThread(analysisId))}
+            disabled={isProcessing || (!isSaved && activeThread.messages.length === 0)}
+            className="p-1 text-gray-400 hover:text-indigo-600 disabled:text-gray-200 rounded"
+            title="New conversation"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setRenaming(activeThread.name)}
+            disabled={isProcessing}
+            className="p-1 text-gray-400 hover:text-indigo-600 disabled:text-gray-200 rounded"
+            title="Rename conversation"
+          >
+            <Pencil className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => exportThreadMarkdown(activeThread)}
+            disabled={activeThread.messages.length === 0}
+            className="p-1 text-gray-400 hover:text-indigo-600 disabled:text-gray-200 rounded"
+            title="Export conversation as Markdown"
+          >
+            <Download className="w-4 h-4" />
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={isProcessing || (!isSaved && activeThread.messages.length === 0)}
+            className="p-1 text-gray-400 hover:text-red-600 disabled:text-gray-200 rounded"
+            title="Delete conversation"
+          >
+            <Trash2 className="w-4 h-4" />
           </button>
         </div>
 
@@ -162,7 +336,18 @@ const ChatBot: React.FC<ChatBotProps> = ({ contextData }) => {
                     : 'bg-white text-gray-800 border border-gray-100 rounded-bl-none'
                 }`}
               >
-                {msg.text || (msg.isThinking && <Loader2 className="w-4 h-4 animate-spin" />)}
+                <div className="min-w-0 w-full">
+                  {msg.toolCalls && msg.toolCalls.length > 0 && <ToolCallList calls={msg.toolCalls} />}
+                  {msg.toolCalls?.map(call => call.action?.type === 'add-chart' && (
+                    <div key={call.action.chart.id} className="mb-2">
+                      <p className="text-xs font-medium text-gray-700 mb-1">{call.action.chart.title}</p>
+                      <ChatChartView chart={call.action.chart} height={160} />
+                    </div>
+                  ))}
+                  {msg.role === 'model' && msg.text
+                    ? <MarkdownMessage text={msg.text} />
+                    : msg.text || (msg.isThinking && <Loader2 className="w-4 h-4 animate-spin" />)}
+                </div>
               </div>
             </div>
           ))}
@@ -194,9 +379,11 @@ const ChatBot: React.FC<ChatBotProps> = ({ contextData }) => {
             </button>
           </div>
           <p className="text-xs text-center text-gray-400 mt-2">
-            Powered by Gemini 3.0 Pro
+            Powered by {adapter.label}
           </p>
         </div>
+        </>
+        )}
       </div>
 
       {/* Floating Action Button */}
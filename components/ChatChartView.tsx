@@ -0,0 +1,47 @@
+import React from 'react';
+import {
+  BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer
+} from 'recharts';
+import { ChatChart } from '../types';
+import { COLORS } from './AnalysisCharts';
+
+interface ChatChartViewProps {
+  chart: ChatChart;
+  height: number;
+}
+
+const TOOLTIP_STYLE = { borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' };
+
+export const ChatChartView: React.FC<ChatChartViewProps> = ({ chart, height }) => {
+  const axes = (
+    <>
+      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e5e7eb" />
+      <XAxis dataKey="x" axisLine={false} tickLine={false} tick={{ fill: '#6b7280', fontSize: 10 }} />
+      <YAxis allowDecimals={false} axisLine={false} tickLine={false} tick={{ fill: '#6b7280', fontSize: 10 }} width={30} />
+      <Tooltip contentStyle={TOOLTIP_STYLE} />
+      {chart.series.length > 1 && <Legend iconType="circle" wrapperStyle={{ fontSize: '10px' }} />}
+    </>
+  );
+
+  return (
+    <div className="w-full" style={{ height }} data-chart-title={chart.title}>
+      <ResponsiveContainer width="100%" height="100%">
+        {chart.kind === 'line' ? (
+          <LineChart data={chart.data} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+            {axes}
+            {chart.series.map((series, index) => (
+              <Line key={series} type="monotone" dataKey={series} stroke={COLORS[index % COLORS.length]} strokeWidth={2} dot={false} />
+            ))}
+          </LineChart>
+        ) : (
+          <BarChart data={chart.data} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+            {axes}
+            {chart.series.map((series, index) => (
+              <Bar key={series} dataKey={series} fill={COLORS[index % COLORS.length]} radius={[2, 2, 0, 0]} maxBarSize={40} />
+            ))}
+          </BarChart>
+        )}
+      </ResponsiveContainer>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { Link2 } from 'lucide-react';
+import { AnalysisStats } from '../types';
+
+interface CoAuthorshipPanelProps {
+  data: AnalysisStats;
+}
+
+const INITIAL_VISIBLE = 10;
+
+export const CoAuthorshipPanel: React.FC<CoAuthorshipPanelProps> = ({ data }) => {
+  const [showAll, setShowAll] = useState(false);
+
+  const names = new Map(data.processedProfiles.map(profile => [profile.orcidId, profile.fullName]));
+  const visibleLinks = showAll ? data.coAuthorshipLinks : data.coAuthorshipLinks.slice(0, INITIAL_VISIBLE);
+  const sharedWorks = data.uniqueWorks.filter(unique => unique.authors.length > 1).length;
+
+  if (data.coAuthorshipLinks.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 shadow-sm overflow-hidden mb-8">
+      <div className="px-6 py-4 border-b border-gray-100 bg-gray-50 flex items-center justify-between">
+        <h3 className="font-semibold text-gray-800 flex items-center gap-2">
+          <Link2 className="w-4 h-4 text-indigo-600" /> Internal Co-authorship
+        </h3>
+        <span className="text-sm text-gray-500">
+          {sharedWorks} shared works • {data.coAuthorshipLinks.length} researcher pairs
+        </span>
+      </div>
+      <ul className="divide-y divide-gray-100">
+        {visibleLinks.map(link => (
+          <li key={`${link.source}|${link.target}`} className="px-6 py-3">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium text-gray-900">
+                {names.get(link.source)} <span className="text-gray-400">&amp;</span> {names.get(link.target)}
+              </span>
+              <span className="text-gray-500">{link.works.length} shared</span>
+            </div>
+            <ul className="mt-1 space-y-0.5">
+              {link.works.slice(0, 3).map(unique => (
+                <li key={unique.key} className="text-xs text-gray-500 truncate">
+                  {unique.work.title} ({unique.work.year || 'n.d.'})
+                  <span className="ml-2 text-gray-400">matched by {unique.matchedBy === 'doi' ? 'DOI' : 'title'}</span>
+                </li>
+              ))}
+              {link.works.length > 3 && (
+                <li className="text-xs text-gray-400">+{link.works.length - 3} more</li>
+              )}
+            </ul>
+          </li>
+        ))}
+      </ul>
+      {data.coAuthorshipLinks.length > INITIAL_VISIBLE && (
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="w-full py-2 text-sm text-indigo-600 hover:bg-gray-50 font-medium"
+        >
+          {showAll ? 'Show fewer' : `Show all ${data.coAuthorshipLinks.length} pairs`}
+        </button>
+      )}
+    </div>
+  );
+};
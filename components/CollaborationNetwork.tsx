@@ -0,0 +1,165 @@
+import React, { useMemo, useState } from 'react';
+import { Download, Share2 } from 'lucide-react';
+import { AnalysisStats } from '../types';
+import { buildCollaborationNetwork, layoutNetwork, networkToGraphML, networkToJson } from '../services/networkService';
+import { downloadFile } from '../services/downloadService';
+import { COLORS } from './AnalysisCharts';
+
+interface CollaborationNetworkProps {
+  data: AnalysisStats;
+}
+
+const WIDTH = 640;
+const HEIGHT = 420;
+
+export const CollaborationNetworkView: React.FC<CollaborationNetworkProps> = ({ data }) => {
+  const years = data.publicationsByYear.map(entry => entry.year);
+  const [fromYear, setFromYear] = useState<number | null>(null);
+  const [toYear, setToYear] = useState<number | null>(null);
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  const network = useMemo(
+    () => buildCollaborationNetwork(data.processedProfiles, data.uniqueWorks, { from: fromYear, to: toYear }),
+    [data, fromYear, toYear]
+  );
+  const positions = useMemo(() => layoutNetwork(network, WIDTH, HEIGHT), [network]);
+
+  const maxWeight = Math.max(1, ...network.edges.map(edge => edge.weight));
+  const maxDegree = Math.max(1, ...network.nodes.map(node => node.weightedDegree));
+  const rankedNodes = [...network.nodes].sort((a, b) => b.weightedDegree - a.weightedDegree || b.betweenness - a.betweenness);
+  const clusterCount = new Set(network.nodes.filter(node => node.degree > 0).map(node => node.cluster)).size;
+
+  const isHighlighted = (id: string) =>
+    !hovered || id === hovered || network.edges.some(edge =>
+      (edge.source === hovered && edge.target === id) || (edge.target === hovered && edge.source === id)
+    );
+
+  if (data.coAuthorshipLinks.length === 0) return null;
+
+  const yearSelect = (value: number | null, onChange: (year: number | null) => void, placeholder: string) => (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value ? parseInt(e.target.value, 10) : null)}
+      className="px-2 py-1 rounded-lg border border-gray-300 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+    >
+      <option value="">{placeholder}</option>
+      {years.map(year => <option key={year} value={year}>{year}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 shadow-sm overflow-hidden mb-8">
+      <div className="px-6 py-4 border-b border-gray-100 bg-gray-50 flex flex-wrap items-center justify-between gap-4">
+        <h3 className="font-semibold text-gray-800 flex items-center gap-2">
+          <Share2 className="w-4 h-4 text-indigo-600" /> Collaboration Network
+        </h3>
+        <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+          <span>Years</span>
+          {yearSelect(fromYear, setFromYear, 'From')}
+          <span>–</span>
+          {yearSelect(toYear, setToYear, 'To')}
+          <button
+            onClick={() => downloadFile(networkToGraphML(network), 'collaboration-network.graphml', 'application/xml')}
+            className="flex items-center gap-1 text-indigo-600 hover:text-indigo-800 font-medium"
+          >
+            <Download className="w-4 h-4" /> GraphML
+          </button>
+          <button
+            onClick={() => downloadFile(networkToJson(network), 'collaboration-network.json', 'application/json')}
+            className="flex items-center gap-1 text-indigo-600 hover:text-indigo-800 font-medium"
+          >
+            <Download className="w-4 h-4" /> JSON
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-5">
+        <div className="lg:col-span-3 p-4 border-b lg:border-b-0 lg:border-r border-gray-100">
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+            {network.edges.map(edge => {
+              const a = positions.get(edge.source)!;
+              const b = positions.get(edge.target)!;
+              const active = !hovered || edge.source === hovered || edge.target === hovered;
+              return (
+                <line
+                  key={`${edge.source}|${edge.target}`}
+                  x1={a.x} y1={a.y} x2={b.x} y2={b.y}
+                  stroke="#94a3b8"
+                  strokeOpacity={active ? 0.7 : 0.1}
+                  strokeWidth={1 + (edge.weight / maxWeight) * 5}
+                >
+                  <title>{edge.weight} shared works</title>
+                </line>
+              );
+            })}
+            {network.nodes.map(node => {
+              const position = positions.get(node.id)!;
+              const radius = 5 + (node.weightedDegree / maxDegree) * 12;
+              return (
+                <g
+                  key={node.id}
+                  onMouseEnter={() => setHovered(node.id)}
+                  onMouseLeave={() => setHovered(null)}
+                  opacity={isHighlighted(node.id) ? 1 : 0.25}
+                  className="cursor-pointer"
+                >
+                  <circle
+                    cx={position.x}
+                    cy={position.y}
+                    r={radius}
+                    fill={node.degree > 0 ? COLORS[node.cluster % COLORS.length] : '#cbd5e1'}
+                    stroke="#fff"
+                    strokeWidth={2}
+                  />
+                  {(hovered === node.id || node.weightedDegree === maxDegree) && (
+                    <text x={position.x} y={position.y - radius - 4} textAnchor="middle" fontSize={11} fill="#374151">
+                      {node.label}
+                    </text>
+                  )}
+                  <title>{`${node.label}\n${node.degree} co-authors, ${node.weightedDegree} shared works`}</title>
+                </g>
+              );
+            })}
+          </svg>
+          <p className="text-xs text-gray-400 mt-2">
+            {network.edges.length} links • {clusterCount} collaboration clusters • grey nodes have no internal co-authors in this period
+          </p>
+        </div>
+
+        <div className="lg:col-span-2 overflow-y-auto max-h-[480px]">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-gray-50 text-gray-500 font-medium sticky top-0">
+              <tr>
+                <th className="px-4 py-2">Researcher</th>
+                <th className="px-4 py-2 text-right" title="Distinct co-authors in the group">Deg.</th>
+                <th className="px-4 py-2 text-right" title="Shared works">Shared</th>
+                <th className="px-4 py-2 text-right" title="Betweenness centrality">Betw.</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rankedNodes.map(node => (
+                <tr
+                  key={node.id}
+                  onMouseEnter={() => setHovered(node.id)}
+                  onMouseLeave={() => setHovered(null)}
+                  className={`transition-colors ${hovered === node.id ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}
+                >
+                  <td className="px-4 py-2 text-gray-900 flex items-center gap-2">
+                    <span
+                      className="w-2.5 h-2.5 rounded-full flex-shrink-0"
+                      style={{ backgroundColor: node.degree > 0 ? COLORS[node.cluster % COLORS.length] : '#cbd5e1' }}
+                    />
+                    <span className="truncate">{node.label}</span>
+                  </td>
+                  <td className="px-4 py-2 text-right text-gray-700">{node.degree}</td>
+                  <td className="px-4 py-2 text-right text-gray-700">{node.weightedDegree}</td>
+                  <td className="px-4 py-2 text-right text-gray-500">{node.betweenness.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
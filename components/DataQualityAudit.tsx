@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, ClipboardCheck, Download, ExternalLink } from 'lucide-react';
+import { OrcidProfileData } from '../types';
+import { AuditSeverity, auditProfiles, exportRemediationList } from '../services/auditService';
+
+interface DataQualityAuditProps {
+  profiles: OrcidProfileData[];
+  onSelectProfile: (profile: OrcidProfileData) => void;
+}
+
+const INITIAL_VISIBLE = 10;
+
+export const SEVERITY_STYLES: Record<AuditSeverity, string> = {
+  high: 'bg-red-50 text-red-700',
+  medium: 'bg-amber-50 text-amber-700',
+  low: 'bg-gray-100 text-gray-600'
+};
+
+export const scoreColor = (score: number) =>
+  score >= 80 ? 'text-green-600' : score >= 50 ? 'text-amber-600' : 'text-red-600';
+
+export const DataQualityAudit: React.FC<DataQualityAuditProps> = ({ profiles, onSelectProfile }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
+
+  const audits = useMemo(() => auditProfiles(profiles), [profiles]);
+  const byId = useMemo(() => new Map(profiles.map(profile => [profile.orcidId, profile])), [profiles]);
+
+  if (audits.length === 0) return null;
+
+  const averageScore = Math.round(audits.reduce((sum, audit) => sum + audit.score, 0) / audits.length);
+  const needingAttention = audits.filter(audit => audit.issues.some(issue => issue.severity !== 'low')).length;
+  const visible = showAll ? audits : audits.slice(0, INITIAL_VISIBLE);
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 shadow-sm overflow-hidden mb-8">
+      <div className="px-6 py-4 border-b border-gray-100 bg-gray-50 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <ClipboardCheck className="w-5 h-5 text-indigo-600" />
+          <h3 className="font-semibold text-gray-800">ORCID Record Audit</h3>
+          <span className="text-xs text-gray-500">
+            Average score {averageScore} • {needingAttention} of {audits.length} records need attention
+          </span>
+        </div>
+        <button
+          onClick={() => exportRemediationList(audits)}
+          className="flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-800 font-medium"
+        >
+          <Download className="w-4 h-4" /> Remediation list (CSV)
+        </button>
+      </div>
+
+      <ul className="divide-y divide-gray-100">
+        {visible.map(audit => {
+          const isOpen = expanded === audit.orcidId;
+          return (
+            <li key={audit.orcidId}>
+              <button
+                onClick={() => setExpanded(isOpen ? null : audit.orcidId)}
+                className="w-full px-6 py-3 flex items-center gap-3 text-sm text-left hover:bg-gray-50 transition-colors"
+              >
+                {isOpen ? <ChevronDown className="w-4 h-4 text-gray-400" /> : <ChevronRight className="w-4 h-4 text-gray-400" />}
+                <span className={`w-10 font-bold ${scoreColor(audit.score)}`}>{audit.score}</span>
+                <span className="flex-1 font-medium text-gray-900 truncate">{audit.fullName}</span>
+                <span className="text-gray-500">
+                  {audit.issues.length === 0 ? 'No issues' : `${audit.issues.length} ${audit.issues.length === 1 ? 'issue' : 'issues'}`}
+                </span>
+              </button>
+
+              {isOpen && (
+                <div className="px-6 pb-4 pl-16 space-y-3">
+                  <div className="flex items-center gap-4 text-xs">
+                    <button
+                      onClick={() => { const profile = byId.get(audit.orcidId); if (profile) onSelectProfile(profile); }}
+                      className="text-indigo-600 hover:text-indigo-800 font-medium"
+                    >
+                      View profile
+                    </button>
+                    <a
+                      href={`https://orcid.org/${audit.orcidId}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 text-indigo-600 hover:text-indigo-800 font-medium"
+                    >
+                      ORCID record <ExternalLink className="w-3 h-3" />
+                    </a>
+                    <span className="text-gray-500">
+                      {audit.works} works • latest {audit.latestYear ?? 'n.d.'}
+                    </span>
+                  </div>
+                  {audit.issues.length === 0 ? (
+                    <p className="text-sm text-gray-500">This record passes every check.</p>
+                  ) : (
+                    <ol className="space-y-2">
+                      {audit.issues.map(issue => (
+                        <li key={issue.check} className="text-sm">
+                          <div className="flex items-center gap-2">
+                            <span className={`px-2 py-0.5 rounded text-xs font-medium ${SEVERITY_STYLES[issue.severity]}`}>
+                              {issue.severity}
+                            </span>
+                            <span className="font-medium text-gray-900">{issue.label}</span>
+                            {issue.examples.length > 0 && <span className="text-gray-500">({issue.affected})</span>}
+                          </div>
+                          <p className="text-xs text-gray-600 mt-0.5">{issue.action}</p>
+                          {issue.examples.length > 0 && (
+                            <ul className="mt-0.5">
+                              {issue.examples.map((title, index) => (
+                                <li key={index} className="text-xs text-gray-400 truncate">{title}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {audits.length > INITIAL_VISIBLE && (
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="w-full py-2 text-sm text-indigo-600 hover:bg-gray-50 font-medium"
+        >
+          {showAll ? 'Show fewer' : `Show all ${audits.length} researchers`}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { DiscoveryResult } from '../types';
+
+interface DiscoveryResultsProps {
+  result: DiscoveryResult;
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+export const DiscoveryResults: React.FC<DiscoveryResultsProps> = ({ result, selected, onChange }) => {
+  const [nameFilter, setNameFilter] = useState('');
+
+  const selectedSet = new Set(selected);
+  const needle = nameFilter.trim().toLowerCase();
+  const visible = needle
+    ? result.researchers.filter(researcher =>
+        [researcher.fullName, ...researcher.otherNames, ...researcher.institutions].some(text => text.toLowerCase().includes(needle)))
+    : result.researchers;
+
+  const toggle = (orcidId: string) => {
+    onChange(selectedSet.has(orcidId) ? selected.filter(id => id !== orcidId) : [...selected, orcidId]);
+  };
+
+  // Bulk selection applies to the researchers currently listed, so a name filter narrows it
+  const setVisible = (include: boolean) => {
+    const ids = new Set(visible.map(researcher => researcher.orcidId));
+    const kept = selected.filter(id => !ids.has(id));
+    onChange(include ? [...kept, ...Array.from(ids)] : kept);
+  };
+
+  return (
+    <div className="mt-6 border border-gray-100 rounded-xl p-4 bg-gray-50 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-gray-700">
+          <span className="font-medium">{result.total}</span> {result.total === 1 ? 'researcher matches' : 'researchers match'}
+          {' '}<code className="text-xs bg-white border border-gray-200 rounded px-1.5 py-0.5">{result.query}</code>
+          {' '}• {selected.length} selected
+        </p>
+        <div className="flex items-center gap-3 text-sm">
+          <input
+            type="text"
+            placeholder="Filter by name or affiliation"
+            value={nameFilter}
+            onChange={(e) => setNameFilter(e.target.value)}
+            className="px-3 py-1.5 rounded-lg border border-gray-300 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+          <button onClick={() => setVisible(true)} className="text-indigo-600 hover:text-indigo-800 font-medium">Select all</button>
+          <button onClick={() => setVisible(false)} className="text-indigo-600 hover:text-indigo-800 font-medium">Select none</button>
+        </div>
+      </div>
+
+      {result.researchers.length < result.total && (
+        <div className="flex items-center gap-2 text-sm text-amber-700">
+          <AlertTriangle className="w-4 h-4" />
+          Only the first {result.researchers.length} matches are listed. Narrow the search, e.g. by ROR ID, to see the rest.
+        </div>
+      )}
+
+      {result.researchers.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No public ORCID records match. Affiliations and emails are only searchable when researchers make them public.
+        </p>
+      ) : (
+        <div className="overflow-auto max-h-96">
+          <table className="w-full text-xs text-left bg-white rounded-lg">
+            <thead className="text-gray-500 sticky top-0 bg-white">
+              <tr>
+                <th className="px-3 py-2 w-8" />
+                <th className="px-3 py-2 font-medium">Name</th>
+                <th className="px-3 py-2 font-medium">ORCID iD</th>
+                <th className="px-3 py-2 font-medium">Affiliations</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {visible.map(researcher => (
+                <tr key={researcher.orcidId} onClick={() => toggle(researcher.orcidId)} className="hover:bg-gray-50 cursor-pointer">
+                  <td className="px-3 py-2">
+                    <input
+                      type="checkbox"
+                      checked={selectedSet.has(researcher.orcidId)}
+                      onChange={() => toggle(researcher.orcidId)}
+                      onClick={(e) => e.stopPropagation()}
+                      className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                  </td>
+                  <td className="px-3 py-2 text-gray-900">
+                    {researcher.fullName}
+                    {researcher.otherNames.length > 0 && (
+                      <span className="block text-gray-400">{researcher.otherNames.join(', ')}</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 font-mono text-indigo-600">{researcher.orcidId}</td>
+                  <td className="px-3 py-2 text-gray-500">{researcher.institutions.join('; ') || '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
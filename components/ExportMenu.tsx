@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { Download, FileJson, FileSpreadsheet, FileText, Printer } from 'lucide-react';
+
+export type ExportFormat = 'pdf' | 'html' | 'xlsx' | 'csv' | 'json';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+}
+
+const OPTIONS: { format: ExportFormat; label: string; description: string; icon: React.ReactNode }[] = [
+  { format: 'pdf', label: 'PDF (print)', description: 'KPIs, charts and breakdown table', icon: <Printer className="w-4 h-4" /> },
+  { format: 'html', label: 'HTML report', description: 'Same report as a standalone file', icon: <FileText className="w-4 h-4" /> },
+  { format: 'xlsx', label: 'Excel workbook', description: 'Profiles, works, year and type sheets', icon: <FileSpreadsheet className="w-4 h-4" /> },
+  { format: 'csv', label: 'Works CSV', description: 'One row per work and researcher', icon: <FileText className="w-4 h-4" /> },
+  { format: 'json', label: 'JSON snapshot', description: 'Full data, can be opened again later', icon: <FileJson className="w-4 h-4" /> }
+];
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 text-indigo-600 hover:text-indigo-800 font-medium text-sm transition-colors"
+      >
+        <Download className="w-4 h-4" /> Export Report
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 mt-2 w-72 bg-white rounded-xl shadow-lg border border-gray-100 py-2 z-20">
+            {OPTIONS.map(option => (
+              <button
+                key={option.format}
+                onClick={() => {
+                  setIsOpen(false);
+                  onExport(option.format);
+                }}
+                className="w-full px-4 py-2 flex items-start gap-3 text-left hover:bg-gray-50 transition-colors"
+              >
+                <span className="mt-0.5 text-indigo-600">{option.icon}</span>
+                <span>
+                  <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                  <span className="block text-xs text-gray-500">{option.description}</span>
+                </span>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
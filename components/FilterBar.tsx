@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { Filter, Link as LinkIcon, List, X } from 'lucide-react';
+import { AnalysisFilters, OrcidProfileData } from '../types';
+import { EMPTY_FILTERS, getFilterOptions, isFilterActive, toggleValue } from '../services/filterService';
+
+interface FilterBarProps {
+  profiles: OrcidProfileData[]; // unfiltered, so options don't disappear as filters narrow
+  filters: AnalysisFilters;
+  matchingWorks: number;
+  onChange: (filters: AnalysisFilters) => void;
+  onShowWorks: () => void;
+}
+
+const SELECT_CLASS = 'px-3 py-1.5 rounded-lg border border-gray-300 text-sm focus:ring-2 focus:ring-indigo-500 outline-none bg-white';
+
+const Chip: React.FC<{ label: string; onRemove: () => void }> = ({ label, onRemove }) => (
+  <span className="inline-flex items-center gap-1 px-2.5 py-1 bg-indigo-50 text-indigo-700 rounded-full text-xs font-medium">
+    {label}
+    <button onClick={onRemove} className="hover:text-indigo-900" title="Remove filter">
+      <X className="w-3 h-3" />
+    </button>
+  </span>
+);
+
+export const FilterBar: React.FC<FilterBarProps> = ({ profiles, filters, matchingWorks, onChange, onShowWorks }) => {
+  const [copied, setCopied] = useState(false);
+  const options = getFilterOptions(profiles);
+  const names = new Map(options.researchers.map(r => [r.orcidId, r.fullName]));
+  const active = isFilterActive(filters);
+
+  const update = (patch: Partial<AnalysisFilters>) => onChange({ ...filters, ...patch });
+
+  const parseYear = (value: string) => value ? parseInt(value, 10) : null;
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard access can be denied; the URL bar still holds the link
+    }
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm mb-6">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+        <span className="flex items-center gap-1 font-medium"><Filter className="w-4 h-4" /> Filters</span>
+
+        <select value={filters.yearFrom ?? ''} onChange={(e) => update({ yearFrom: parseYear(e.target.value) })} className={SELECT_CLASS}>
+          <option value="">From year</option>
+          {options.years.map(year => <option key={year} value={year}>{year}</option>)}
+        </select>
+        <select value={filters.yearTo ?? ''} onChange={(e) => update({ yearTo: parseYear(e.target.value) })} className={SELECT_CLASS}>
+          <option value="">To year</option>
+          {options.years.map(year => <option key={year} value={year}>{year}</option>)}
+        </select>
+
+        <select
+          value=""
+          onChange={(e) => e.target.value && update({ types: toggleValue(filters.types, e.target.value) })}
+          className={SELECT_CLASS}
+        >
+          <option value="">Work type…</option>
+          {options.types.filter(type => !filters.types.includes(type)).map(type => <option key={type} value={type}>{type}</option>)}
+        </select>
+
+        <select
+          value=""
+          onChange={(e) => e.target.value && update({ journals: toggleValue(filters.journals, e.target.value) })}
+          className={`${SELECT_CLASS} max-w-xs`}
+        >
+          <option value="">Journal…</option>
+          {options.journals.filter(journal => !filters.journals.includes(journal)).map(journal => (
+            <option key={journal} value={journal}>{journal}</option>
+          ))}
+        </select>
+
+        {options.researchers.length > 1 && (
+          <select
+            value=""
+            onChange={(e) => e.target.value && update({ researchers: toggleValue(filters.researchers, e.target.value) })}
+            className={SELECT_CLASS}
+          >
+            <option value="">Researcher…</option>
+            {options.researchers.filter(r => !filters.researchers.includes(r.orcidId)).map(r => (
+              <option key={r.orcidId} value={r.orcidId}>{r.fullName}</option>
+            ))}
+          </select>
+        )}
+
+        <select
+          value={filters.hasDoi === null ? '' : filters.hasDoi ? 'yes' : 'no'}
+          onChange={(e) => update({ hasDoi: e.target.value === '' ? null : e.target.value === 'yes' })}
+          className={SELECT_CLASS}
+        >
+          <option value="">Any DOI status</option>
+          <option value="yes">With DOI</option>
+          <option value="no">Without DOI</option>
+        </select>
+
+        <div className="ml-auto flex items-center gap-4">
+          <button onClick={onShowWorks} className="flex items-center gap-1 text-indigo-600 hover:text-indigo-800 font-medium">
+            <List className="w-4 h-4" /> View works ({matchingWorks})
+          </button>
+          {active && (
+            <button onClick={handleCopyLink} className="flex items-center gap-1 text-gray-500 hover:text-indigo-600">
+              <LinkIcon className="w-4 h-4" /> {copied ? 'Copied' : 'Copy link'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {active && (
+        <div className="flex flex-wrap items-center gap-2 mt-3">
+          {(filters.yearFrom !== null || filters.yearTo !== null) && (
+            <Chip
+              label={filters.yearFrom === filters.yearTo ? `${filters.yearFrom}` : `${filters.yearFrom ?? '…'}–${filters.yearTo ?? '…'}`}
+              onRemove={() => update({ yearFrom: null, yearTo: null })}
+            />
+          )}
+          {filters.types.map(type => (
+            <Chip key={`type-${type}`} label={type} onRemove={() => update({ types: toggleValue(filters.types, type) })} />
+          ))}
+          {filters.journals.map(journal => (
+            <Chip key={`journal-${journal}`} label={journal} onRemove={() => update({ journals: toggleValue(filters.journals, journal) })} />
+          ))}
+          {filters.researchers.map(orcidId => (
+            <Chip
+              key={`researcher-${orcidId}`}
+              label={names.get(orcidId) || orcidId}
+              onRemove={() => update({ researchers: toggleValue(filters.researchers, orcidId) })}
+            />
+          ))}
+          {filters.hasDoi !== null && (
+            <Chip label={filters.hasDoi ? 'With DOI' : 'Without DOI'} onRemove={() => update({ hasDoi: null })} />
+          )}
+          <button onClick={() => onChange(EMPTY_FILTERS)} className="text-xs text-gray-500 hover:text-red-600 ml-1">
+            Clear all
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { GroupStats } from '../types';
+
+interface GroupComparisonTableProps {
+  groups: GroupStats[];
+  dimensionLabel: string;
+}
+
+export const GroupComparisonTable: React.FC<GroupComparisonTableProps> = ({ groups, dimensionLabel }) => {
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 shadow-sm overflow-hidden mb-8">
+      <div className="px-6 py-4 border-b border-gray-100 bg-gray-50">
+        <h3 className="font-semibold text-gray-800">Comparison by {dimensionLabel}</h3>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="bg-gray-50 text-gray-500 font-medium">
+            <tr>
+              <th className="px-6 py-3">{dimensionLabel}</th>
+              <th className="px-6 py-3 text-right">Researchers</th>
+              <th className="px-6 py-3 text-right">Unique Publications</th>
+              <th className="px-6 py-3 text-right">Attributed</th>
+              <th className="px-6 py-3 text-right">Per Researcher</th>
+              <th className="px-6 py-3 text-right">Per Year</th>
+              <th className="px-6 py-3 text-right">Per Researcher / Year</th>
+              <th className="px-6 py-3 text-right">Citations</th>
+              <th className="px-6 py-3 text-right">Median h-index</th>
+              <th className="px-6 py-3">Main Type</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {groups.map(group => (
+              <tr key={group.group} className="hover:bg-gray-50 transition-colors">
+                <td className="px-6 py-4 font-medium text-gray-900">{group.group}</td>
+                <td className="px-6 py-4 text-right text-gray-700">{group.researchers}</td>
+                <td className="px-6 py-4 text-right text-gray-700">{group.publications}</td>
+                <td className="px-6 py-4 text-right text-gray-500">{group.attributedPublications}</td>
+                <td className="px-6 py-4 text-right text-gray-700">{group.perCapita.toFixed(1)}</td>
+                <td className="px-6 py-4 text-right text-gray-700">{group.perYear.toFixed(1)}</td>
+                <td className="px-6 py-4 text-right text-gray-700">{group.perCapitaPerYear.toFixed(2)}</td>
+                <td className="px-6 py-4 text-right text-gray-700">{group.citations}</td>
+                <td className="px-6 py-4 text-right text-gray-700">{group.medianHIndex}</td>
+                <td className="px-6 py-4 text-gray-500">{group.publicationsByType[0]?.type || '-'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
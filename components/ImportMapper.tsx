@@ -0,0 +1,131 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle2, Copy } from 'lucide-react';
+import { ColumnMapping, ImportedTable, ImportResult } from '../types';
+
+interface ImportMapperProps {
+  table: ImportedTable;
+  mapping: ColumnMapping;
+  result: ImportResult;
+  onChange: (mapping: ColumnMapping) => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+export const ImportMapper: React.FC<ImportMapperProps> = ({ table, mapping, result, onChange }) => {
+  const updateAttribute = (column: number, patch: Partial<{ label: string; include: boolean }>) => {
+    onChange({
+      ...mapping,
+      attributeColumns: mapping.attributeColumns.map(attribute =>
+        attribute.column === column ? { ...attribute, ...patch } : attribute
+      )
+    });
+  };
+
+  return (
+    <div className="mt-6 border border-gray-100 rounded-xl p-4 bg-gray-50 space-y-4">
+      <div className="flex flex-col md:flex-row md:items-end gap-4">
+        <div className="md:w-64">
+          <label className="block text-sm font-medium text-gray-700 mb-2">ORCID iD column</label>
+          <select
+            value={mapping.orcidColumn}
+            onChange={(e) => onChange({ ...mapping, orcidColumn: parseInt(e.target.value, 10) })}
+            className="w-full px-3 py-2 rounded-lg border border-gray-300 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+          >
+            <option value={-1}>Select a column...</option>
+            {table.columns.map((column, index) => (
+              <option key={index} value={index}>{column}</option>
+            ))}
+          </select>
+        </div>
+        <p className="text-sm text-gray-500">
+          {table.fileName} • {table.rows.length} rows. Bare iDs and orcid.org URLs are both accepted.
+        </p>
+      </div>
+
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-2">Extra columns to keep for grouping</p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+          {mapping.attributeColumns
+            .filter(attribute => attribute.column !== mapping.orcidColumn)
+            .map(attribute => (
+              <div key={attribute.column} className="flex items-center gap-2 bg-white border border-gray-200 rounded-lg px-3 py-2">
+                <input
+                  type="checkbox"
+                  checked={attribute.include}
+                  onChange={(e) => updateAttribute(attribute.column, { include: e.target.checked })}
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                <span className="text-xs text-gray-400 truncate w-24" title={table.columns[attribute.column]}>
+                  {table.columns[attribute.column]}
+                </span>
+                <input
+                  type="text"
+                  value={attribute.label}
+                  disabled={!attribute.include}
+                  onChange={(e) => updateAttribute(attribute.column, { label: e.target.value })}
+                  className="flex-1 min-w-0 text-sm px-2 py-1 border border-gray-200 rounded disabled:bg-gray-50 disabled:text-gray-400"
+                />
+              </div>
+            ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs text-left bg-white rounded-lg">
+          <thead className="text-gray-500">
+            <tr>
+              {table.columns.map((column, index) => (
+                <th
+                  key={index}
+                  className={`px-3 py-2 font-medium ${index === mapping.orcidColumn ? 'bg-indigo-50 text-indigo-700' : ''}`}
+                >
+                  {column}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {table.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+              <tr key={rowIndex}>
+                {table.columns.map((_, index) => (
+                  <td key={index} className="px-3 py-1.5 text-gray-700 whitespace-nowrap">{row[index]}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-sm">
+        <span className="flex items-center gap-1 text-emerald-700">
+          <CheckCircle2 className="w-4 h-4" /> {result.researchers.length} valid iDs
+        </span>
+        {result.invalid.length > 0 && (
+          <span className="flex items-center gap-1 text-red-700">
+            <AlertTriangle className="w-4 h-4" /> {result.invalid.length} invalid
+          </span>
+        )}
+        {result.duplicates.length > 0 && (
+          <span className="flex items-center gap-1 text-amber-700">
+            <Copy className="w-4 h-4" /> {result.duplicates.length} duplicated
+          </span>
+        )}
+      </div>
+
+      {(result.invalid.length > 0 || result.duplicates.length > 0) && (
+        <ul className="text-xs space-y-1 max-h-40 overflow-y-auto">
+          {result.invalid.map(item => (
+            <li key={`invalid-${item.row}`} className="text-red-700">
+              Row {item.row}: <span className="font-mono">{item.value}</span> — {item.reason}
+            </li>
+          ))}
+          {result.duplicates.map(item => (
+            <li key={`duplicate-${item.orcidId}`} className="text-amber-700">
+              <span className="font-mono">{item.orcidId}</span> appears in rows {item.rows.join(', ')}; only the first is used
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,232 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Award, ListChecks, Trash2, Upload } from 'lucide-react';
+import { AnalysisStats, GroupingDimension, ImportedTable, JournalColumnMapping, JournalList } from '../types';
+import { readTableFile } from '../services/importService';
+import {
+  NOT_LISTED, countByJournalClass, findUnmatchedJournals, guessJournalColumns, parseJournalList, sortClassifications
+} from '../services/journalService';
+import { getGroupKey } from '../services/statsService';
+import { COLORS } from './AnalysisCharts';
+
+interface JournalQualityPanelProps {
+  data: AnalysisStats;
+  list: JournalList | null;
+  grouping: { label: string; dimension: GroupingDimension } | null;
+  onImport: (list: JournalList) => void;
+  onRemove: () => void;
+  onReview: () => void;
+}
+
+const SELECT_CLASS = 'w-full px-3 py-2 rounded-lg border border-gray-300 text-sm focus:ring-2 focus:ring-indigo-500 outline-none';
+
+const DistributionTable: React.FC<{ title: string; rows: { label: string; counts: Record<string, number> }[]; classes: string[] }> = ({ title, rows, classes }) => (
+  <div className="overflow-x-auto">
+    <table className="w-full text-sm text-left">
+      <thead className="bg-gray-50 text-gray-500 font-medium">
+        <tr>
+          <th className="px-4 py-2">{title}</th>
+          {classes.map(cls => <th key={cls} className="px-4 py-2 text-right">{cls}</th>)}
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {rows.map(row => (
+          <tr key={row.label} className="hover:bg-gray-50 transition-colors">
+            <td className="px-4 py-2 text-gray-900">{row.label}</td>
+            {classes.map(cls => (
+              <td key={cls} className={`px-4 py-2 text-right ${row.counts[cls] ? 'text-gray-700' : 'text-gray-300'}`}>
+                {row.counts[cls] || 0}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export const JournalQualityPanel: React.FC<JournalQualityPanelProps> = ({ data, list, grouping, onImport, onRemove, onReview }) => {
+  const [pendingTable, setPendingTable] = useState<ImportedTable | null>(null);
+  const [columns, setColumns] = useState<JournalColumnMapping | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const overall = useMemo(() => countByJournalClass(data.uniqueWorks.map(u => u.work)), [data]);
+  const classes = sortClassifications(Object.keys(overall));
+  const unmatched = useMemo(() => list ? findUnmatchedJournals(data.processedProfiles, list) : [], [data, list]);
+
+  const researcherRows = data.processedProfiles.map(profile => ({
+    label: profile.fullName,
+    counts: countByJournalClass(profile.works)
+  }));
+
+  const groupRows = useMemo(() => {
+    if (!grouping) return [];
+    // Each unique work counts once per group, even if several group members list it
+    const byGroup: Record<string, Record<string, number>> = {};
+    const groupOf = new Map<string, string>(
+      data.processedProfiles.map(profile => [profile.orcidId, getGroupKey(profile, grouping.dimension)])
+    );
+    data.uniqueWorks.forEach(unique => {
+      if (!unique.work.journalClass) return;
+      new Set<string>(unique.authors.map(orcidId => groupOf.get(orcidId)!)).forEach(group => {
+        const counts = byGroup[group] = byGroup[group] || {};
+        counts[unique.work.journalClass!] = (counts[unique.work.journalClass!] || 0) + 1;
+      });
+    });
+    return Object.entries(byGroup).map(([label, counts]) => ({ label, counts })).sort((a, b) => a.label.localeCompare(b.label));
+  }, [data, grouping?.dimension]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const table = await readTableFile(file);
+      setPendingTable(table);
+      setColumns(guessJournalColumns(table));
+    } catch (err: any) {
+      setError(err.message || 'Failed to read the journal list');
+    }
+  };
+
+  const handleConfirmImport = () => {
+    if (!pendingTable || !columns) return;
+    try {
+      onImport(parseJournalList(pendingTable, columns));
+      setPendingTable(null);
+      setColumns(null);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to import the journal list');
+    }
+  };
+
+  const fileInput = (label: string) => (
+    <label className="flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-800 font-medium cursor-pointer">
+      <Upload className="w-4 h-4" /> {label}
+      <input type="file" accept=".csv,.tsv,.txt,.xlsx,.xls" onChange={handleFile} className="hidden" />
+    </label>
+  );
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 shadow-sm overflow-hidden mb-8">
+      <div className="px-6 py-4 border-b border-gray-100 bg-gray-50 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Award className="w-5 h-5 text-indigo-600" />
+          <h3 className="font-semibold text-gray-800">Journal Quality</h3>
+          {list && <span className="text-xs text-gray-500">{list.fileName} • {list.entries.length} journals</span>}
+        </div>
+        <div className="flex items-center gap-4">
+          {list && (
+            <button
+              onClick={onReview}
+              disabled={unmatched.length === 0}
+              className="flex items-center gap-1 text-sm text-amber-700 hover:text-amber-900 font-medium disabled:text-gray-400"
+            >
+              <ListChecks className="w-4 h-4" /> Unmatched journals ({unmatched.length})
+            </button>
+          )}
+          {fileInput(list ? 'Replace list' : 'Import journal list')}
+          {list && (
+            <button onClick={onRemove} className="text-gray-400 hover:text-red-600" title="Remove journal list">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {pendingTable && columns && (
+          <div className="border border-gray-100 rounded-xl p-4 bg-gray-50 space-y-4">
+            <p className="text-sm text-gray-500">{pendingTable.fileName} • {pendingTable.rows.length} rows</p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Journal title column</label>
+                <select value={columns.title} onChange={(e) => setColumns({ ...columns, title: parseInt(e.target.value, 10) })} className={SELECT_CLASS}>
+                  <option value={-1}>None</option>
+                  {pendingTable.columns.map((column, index) => <option key={index} value={index}>{column}</option>)}
+                </select>
+              </div>
+              <div>
+                <p className="block text-sm font-medium text-gray-700 mb-2">ISSN columns</p>
+                <div className="flex flex-wrap gap-x-4 gap-y-1">
+                  {pendingTable.columns.map((column, index) => (
+                    <label key={index} className="inline-flex items-center gap-1 text-sm text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={columns.issns.includes(index)}
+                        onChange={(e) => setColumns({
+                          ...columns,
+                          issns: e.target.checked ? [...columns.issns, index] : columns.issns.filter(i => i !== index)
+                        })}
+                        className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      {column}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Quartile / category column</label>
+                <select value={columns.classification} onChange={(e) => setColumns({ ...columns, classification: parseInt(e.target.value, 10) })} className={SELECT_CLASS}>
+                  <option value={-1}>Select a column...</option>
+                  {pendingTable.columns.map((column, index) => <option key={index} value={index}>{column}</option>)}
+                </select>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <button onClick={handleConfirmImport} className="px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700">
+                Import list
+              </button>
+              <button onClick={() => setPendingTable(null)} className="px-4 py-2 text-sm font-medium text-gray-600 hover:text-gray-800">
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {!list && !pendingTable && (
+          <p className="text-sm text-gray-500">
+            Import a CSV or Excel journal list with a title and/or ISSN column and a quartile or category column
+            (e.g. Scopus quartiles or the national category B list). Works are matched by ISSN from their ORCID
+            record first, then by journal title.
+          </p>
+        )}
+
+        {list && classes.length === 0 && (
+          <p className="text-sm text-gray-500">None of the works in view have a journal title or ISSN.</p>
+        )}
+
+        {list && classes.length > 0 && (
+          <>
+            <div className="h-60 w-full" data-chart-title="Publications by Journal Class">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={classes.map(cls => ({ cls, count: overall[cls] }))} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e5e7eb" />
+                  <XAxis dataKey="cls" axisLine={false} tickLine={false} tick={{fill: '#6b7280', fontSize: 12}} dy={10} />
+                  <YAxis allowDecimals={false} axisLine={false} tickLine={false} tick={{fill: '#6b7280', fontSize: 12}} />
+                  <Tooltip
+                    cursor={{ fill: '#f3f4f6' }}
+                    contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                  />
+                  <Bar dataKey="count" name="Unique publications" fill={COLORS[4]} radius={[4, 4, 0, 0]} maxBarSize={50} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <p className="text-xs text-gray-400">
+              "{NOT_LISTED}" counts works whose journal was not found in the list. Works without a journal are left out.
+            </p>
+
+            {grouping && groupRows.length > 0 && (
+              <DistributionTable title={grouping.label} rows={groupRows} classes={classes} />
+            )}
+            <DistributionTable title="Researcher" rows={researcherRows} classes={classes} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React, { useMemo } from 'react';
+import { ListChecks, X } from 'lucide-react';
+import { JournalList, OrcidProfileData } from '../types';
+import { createJournalMatcher, findUnmatchedJournals } from '../services/journalService';
+
+interface JournalReviewQueueProps {
+  profiles: OrcidProfileData[];
+  list: JournalList;
+  onDecide: (key: string, entryIndex: number | null) => void;
+  onClose: () => void;
+}
+
+// Suggestions scan the whole list, so only the most frequent journals are reviewed at a time
+const QUEUE_PAGE = 30;
+const SUGGESTIONS = 3;
+
+export const JournalReviewQueue: React.FC<JournalReviewQueueProps> = ({ profiles, list, onDecide, onClose }) => {
+  const unmatched = useMemo(() => findUnmatchedJournals(profiles, list), [profiles, list]);
+  const matcher = useMemo(() => createJournalMatcher(list), [list]);
+  const page = useMemo(
+    () => unmatched.slice(0, QUEUE_PAGE).map(item => ({ ...item, suggestions: matcher.suggest(item.title, SUGGESTIONS) })),
+    [unmatched, matcher]
+  );
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/30 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl border border-gray-200 w-full max-w-3xl max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <ListChecks className="w-5 h-5 text-indigo-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Unmatched Journals ({unmatched.length})</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-1 rounded transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1">
+          {page.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">All journals have been matched or reviewed.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {page.map(item => (
+                <li key={item.key} className="px-6 py-4 text-sm">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <p className="font-medium text-gray-900">{item.title}</p>
+                      <p className="text-xs text-gray-500">{item.works} {item.works === 1 ? 'work' : 'works'}</p>
+                    </div>
+                    <button
+                      onClick={() => onDecide(item.key, null)}
+                      className="flex-shrink-0 px-3 py-1 text-xs font-medium text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200"
+                    >
+                      Not in list
+                    </button>
+                  </div>
+                  {item.suggestions.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {item.suggestions.map(suggestion => (
+                        <button
+                          key={suggestion.index}
+                          onClick={() => onDecide(item.key, suggestion.index)}
+                          className="px-3 py-1 text-xs bg-indigo-50 text-indigo-700 rounded-lg hover:bg-indigo-100 text-left"
+                          title={`Similarity ${Math.round(suggestion.score * 100)}%`}
+                        >
+                          {suggestion.entry.title || suggestion.entry.issns.join(', ')}
+                          <span className="ml-1 font-semibold">{suggestion.entry.classification}</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {unmatched.length > QUEUE_PAGE && (
+          <p className="px-6 py-3 border-t border-gray-100 text-xs text-gray-500">
+            Showing the {QUEUE_PAGE} most frequent of {unmatched.length} unmatched journals.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
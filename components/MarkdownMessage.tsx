@@ -0,0 +1,143 @@
+import React from 'react';
+
+// Renders the small Markdown subset the assistant uses: headings, lists, tables, code, bold, italics, links
+
+const INLINE_PATTERN = /(`[^`]+`|\*\*[^*]+\*\*|\*[^*\s][^*]*\*|\[[^\]]+\]\((https?:\/\/[^)\s]+)\))/g;
+
+const renderInline = (text: string): React.ReactNode[] => {
+  const nodes: React.ReactNode[] = [];
+  let last = 0;
+  text.replace(INLINE_PATTERN, (match, _token, url: string | undefined, offset: number) => {
+    if (offset > last) nodes.push(text.slice(last, offset));
+    const key = `${offset}`;
+    if (match.startsWith('`')) {
+      nodes.push(<code key={key} className="px-1 bg-gray-100 rounded text-xs font-mono">{match.slice(1, -1)}</code>);
+    } else if (match.startsWith('**')) {
+      nodes.push(<strong key={key}>{renderInline(match.slice(2, -2))}</strong>);
+    } else if (match.startsWith('*')) {
+      nodes.push(<em key={key}>{renderInline(match.slice(1, -1))}</em>);
+    } else {
+      nodes.push(
+        <a key={key} href={url} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:underline">
+          {match.slice(1, match.indexOf(']('))}
+        </a>
+      );
+    }
+    last = offset + match.length;
+    return match;
+  });
+  if (last < text.length) nodes.push(text.slice(last));
+  return nodes;
+};
+
+const splitRow = (line: string) => line.trim().replace(/^\||\|$/g, '').split('|').map(cell => cell.trim());
+const isTableDivider = (line: string) => /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(line);
+
+type Block =
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'list'; ordered: boolean; items: string[] }
+  | { kind: 'table'; header: string[]; rows: string[][] }
+  | { kind: 'code'; text: string }
+  | { kind: 'paragraph'; lines: string[] };
+
+const parseBlocks = (markdown: string): Block[] => {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) { i++; continue; }
+
+    if (line.trim().startsWith('```')) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith('```')) code.push(lines[i++]);
+      i++;
+      blocks.push({ kind: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,4})\s+(.*)$/);
+    if (heading) {
+      blocks.push({ kind: 'heading', level: heading[1].length, text: heading[2] });
+      i++;
+      continue;
+    }
+
+    if (line.trim().startsWith('|') && i + 1 < lines.length && isTableDivider(lines[i + 1])) {
+      const header = splitRow(line);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim().startsWith('|')) rows.push(splitRow(lines[i++]));
+      blocks.push({ kind: 'table', header, rows });
+      continue;
+    }
+
+    const listItem = /^\s*([-*+]|\d+[.)])\s+/;
+    if (listItem.test(line)) {
+      const ordered = /^\s*\d/.test(line);
+      const items: string[] = [];
+      while (i < lines.length && listItem.test(lines[i])) items.push(lines[i++].replace(listItem, ''));
+      blocks.push({ kind: 'list', ordered, items });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !listItem.test(lines[i]) && !lines[i].trim().startsWith('|')
+      && !/^#{1,4}\s/.test(lines[i]) && !lines[i].trim().startsWith('```')) {
+      paragraph.push(lines[i++]);
+    }
+    if (paragraph.length === 0) paragraph.push(lines[i++]); // a stray "|" line that is not a table
+    blocks.push({ kind: 'paragraph', lines: paragraph });
+  }
+  return blocks;
+};
+
+export const MarkdownMessage: React.FC<{ text: string }> = ({ text }) => (
+  <div className="space-y-2 break-words">
+    {parseBlocks(text).map((block, index) => {
+      switch (block.kind) {
+        case 'heading':
+          return <p key={index} className={`font-semibold text-gray-900 ${block.level <= 2 ? 'text-base' : ''}`}>{renderInline(block.text)}</p>;
+        case 'list': {
+          const ListTag = block.ordered ? 'ol' : 'ul';
+          return (
+            <ListTag key={index} className={`pl-5 space-y-0.5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+              {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>)}
+            </ListTag>
+          );
+        }
+        case 'table':
+          return (
+            <div key={index} className="overflow-x-auto">
+              <table className="w-full text-xs text-left border border-gray-100">
+                <thead className="bg-gray-50 text-gray-500 font-medium">
+                  <tr>{block.header.map((cell, cellIndex) => <th key={cellIndex} className="px-2 py-1">{renderInline(cell)}</th>)}</tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {block.rows.map((row, rowIndex) => (
+                    <tr key={rowIndex}>
+                      {row.map((cell, cellIndex) => <td key={cellIndex} className="px-2 py-1">{renderInline(cell)}</td>)}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          );
+        case 'code':
+          return <pre key={index} className="p-2 bg-gray-50 rounded text-xs font-mono overflow-x-auto">{block.text}</pre>;
+        default:
+          return (
+            <p key={index}>
+              {block.lines.map((line, lineIndex) => (
+                <React.Fragment key={lineIndex}>
+                  {lineIndex > 0 && <br />}
+                  {renderInline(line)}
+                </React.Fragment>
+              ))}
+            </p>
+          );
+      }
+    })}
+  </div>
+);
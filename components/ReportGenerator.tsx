@@ -0,0 +1,193 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle2, Download, FileText, Loader2, RefreshCw } from 'lucide-react';
+import { AnalysisStats, GroupingDimension, NarrativeReport, ReportScope } from '../types';
+import { UNASSIGNED_GROUP, getGroupKey } from '../services/statsService';
+import { loadLlmSettings } from '../services/llmProviders';
+import {
+  buildReportFacts, checkReportNumbers, exportReportMarkdown, generateReport, resolveReportScope, saveReport
+} from '../services/reportService';
+
+interface ReportGeneratorProps {
+  data: AnalysisStats;
+  grouping: { id: string; label: string; dimension: GroupingDimension } | null;
+  filterSummary: string[];
+}
+
+const scopeValue = (scope: ReportScope) => {
+  switch (scope.kind) {
+    case 'all': return 'all';
+    case 'group': return `group:${scope.group}`;
+    case 'researcher': return `researcher:${scope.orcidId}`;
+  }
+};
+
+export const ReportGenerator: React.FC<ReportGeneratorProps> = ({ data, grouping, filterSummary }) => {
+  const [scope, setScope] = useState<ReportScope>({ kind: 'all' });
+  const [report, setReport] = useState<NarrativeReport | null>(null);
+  const [fromCache, setFromCache] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A report describes the data it was written from; a new view starts without one
+  useEffect(() => {
+    setReport(null);
+    setError(null);
+  }, [data]);
+
+  const groups = useMemo(() => {
+    if (!grouping) return [];
+    const keys = new Set(data.processedProfiles.map(profile => getGroupKey(profile, grouping.dimension)));
+    return Array.from(keys).filter(key => key !== UNASSIGNED_GROUP).sort();
+  }, [data, grouping?.id]);
+
+  const resolved = useMemo(() => resolveReportScope(data, scope, grouping), [data, scope, grouping?.id]);
+
+  const checks = useMemo(
+    () => report ? report.sections.map(section => checkReportNumbers(section.text, report.facts, section.id)) : [],
+    [report]
+  );
+  const checkedTotal = checks.reduce((sum, check) => sum + check.checked, 0);
+  const unverifiedTotal = checks.reduce((sum, check) => sum + check.unverified.length, 0);
+
+  const handleScopeChange = (value: string) => {
+    if (value.startsWith('group:') && grouping) {
+      setScope({ kind: 'group', dimensionId: grouping.id, group: value.slice('group:'.length) });
+    } else if (value.startsWith('researcher:')) {
+      setScope({ kind: 'researcher', orcidId: value.slice('researcher:'.length) });
+    } else {
+      setScope({ kind: 'all' });
+    }
+    setReport(null);
+    setError(null);
+  };
+
+  const handleGenerate = async (force: boolean) => {
+    if (!resolved) return;
+    setGenerating(true);
+    setError(null);
+    try {
+      const facts = buildReportFacts(resolved.stats, resolved.subject, filterSummary);
+      const result = await generateReport(facts, scope, loadLlmSettings(), force);
+      setReport(result.report);
+      setFromCache(result.cached);
+    } catch (err: any) {
+      setError(err.message || 'Failed to generate the report.');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleEdit = (index: number, text: string) => {
+    if (!report) return;
+    setReport({
+      ...report,
+      edited: true,
+      updatedAt: Date.now(),
+      sections: report.sections.map((section, i) => i === index ? { ...section, text } : section)
+    });
+  };
+
+  // Edits are kept with the cached report, so reopening the same report restores them
+  const persistEdits = () => {
+    if (report?.edited) saveReport(report).catch(err => console.warn(`Could not save the report: ${err}`));
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 shadow-sm overflow-hidden mb-8">
+      <div className="px-6 py-4 border-b border-gray-100 bg-gray-50 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <FileText className="w-5 h-5 text-indigo-600" />
+          <h3 className="font-semibold text-gray-800">Narrative Reports</h3>
+          <span className="text-xs text-gray-500">Written by the assistant's model from the figures in view</span>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={scopeValue(scope)}
+            onChange={(e) => handleScopeChange(e.target.value)}
+            disabled={generating}
+            className="px-3 py-1.5 rounded-lg border border-gray-300 text-sm bg-white outline-none max-w-xs"
+          >
+            <option value="all">All researchers in view</option>
+            {grouping && groups.length > 0 && (
+              <optgroup label={grouping.label}>
+                {groups.map(group => <option key={group} value={`group:${group}`}>{group}</option>)}
+              </optgroup>
+            )}
+            <optgroup label="Researchers">
+              {data.processedProfiles.map(profile => (
+                <option key={profile.orcidId} value={`researcher:${profile.orcidId}`}>{profile.fullName}</option>
+              ))}
+            </optgroup>
+          </select>
+          <button
+            onClick={() => handleGenerate(false)}
+            disabled={generating || !resolved}
+            className="flex items-center gap-1 px-3 py-1.5 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700 disabled:bg-gray-300"
+          >
+            {generating ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
+            Generate
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="px-6 py-3 text-sm text-red-600 border-b border-gray-100">{error}</div>}
+      {!resolved && (
+        <div className="px-6 py-3 text-sm text-gray-500">The selected subject is no longer in view. Pick another one.</div>
+      )}
+
+      {report && (
+        <div className="p-6 space-y-5">
+          <div className="flex flex-wrap items-center justify-between gap-3 text-xs text-gray-500">
+            <span>
+              {fromCache ? 'From cache' : 'Generated'} by {report.generatedBy} on {new Date(report.createdAt).toLocaleString()}
+              {report.edited && ' • edited'}
+            </span>
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => handleGenerate(true)}
+                disabled={generating}
+                className="flex items-center gap-1 text-indigo-600 hover:text-indigo-800 font-medium disabled:text-gray-300"
+                title={report.edited ? 'Writes a new report and discards your edits' : 'Writes a new report'}
+              >
+                <RefreshCw className="w-3.5 h-3.5" /> Regenerate
+              </button>
+              <button
+                onClick={() => exportReportMarkdown(report)}
+                className="flex items-center gap-1 text-indigo-600 hover:text-indigo-800 font-medium"
+              >
+                <Download className="w-3.5 h-3.5" /> Markdown
+              </button>
+            </div>
+          </div>
+
+          <div className={`flex items-center gap-2 text-sm rounded-lg px-3 py-2 ${
+            unverifiedTotal > 0 ? 'bg-amber-50 text-amber-800' : 'bg-green-50 text-green-700'
+          }`}>
+            {unverifiedTotal > 0 ? <AlertTriangle className="w-4 h-4" /> : <CheckCircle2 className="w-4 h-4" />}
+            {unverifiedTotal > 0
+              ? `${unverifiedTotal} of ${checkedTotal} figures do not match the computed statistics. Check them before exporting.`
+              : `All ${checkedTotal} figures match the computed statistics.`}
+          </div>
+
+          {report.sections.map((section, index) => (
+            <div key={section.id}>
+              <label className="block text-sm font-semibold text-gray-800 mb-1">{section.title}</label>
+              <textarea
+                value={section.text}
+                onChange={(e) => handleEdit(index, e.target.value)}
+                onBlur={persistEdits}
+                rows={Math.min(10, Math.max(3, section.text.split('\n').length + 1))}
+                className="w-full px-3 py-2 rounded-lg border border-gray-200 text-sm text-gray-700 focus:ring-2 focus:ring-indigo-500 outline-none"
+              />
+              {checks[index]?.unverified.length > 0 && (
+                <p className="text-xs text-amber-700 mt-1">
+                  Not found in the computed statistics: {checks[index].unverified.join(', ')}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
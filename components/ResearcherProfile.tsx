@@ -0,0 +1,371 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import {
+  ArrowLeft, Briefcase, ClipboardCheck, GraduationCap, Link as LinkIcon, MapPin, Tag, TrendingDown, TrendingUp, Minus, Users
+} from 'lucide-react';
+import { OrcidAffiliation, OrcidProfileData } from '../types';
+import { deduplicateWorks } from '../services/dedupService';
+import { computeResearcherMetrics } from '../services/citationService';
+import { primaryEmployment } from '../services/statsService';
+import { auditProfile } from '../services/auditService';
+import {
+  buildCareerTimeline, computeProductivityTrend, findGroupCoAuthors, summarizeOutput
+} from '../services/researcherProfileService';
+import { SEVERITY_STYLES, scoreColor } from './DataQualityAudit';
+
+interface ResearcherProfileProps {
+  profile: OrcidProfileData;
+  profiles: OrcidProfileData[]; // the loaded batch, for co-authors within the group
+  onBack: () => void;
+  onSelectProfile: (orcidId: string) => void;
+}
+
+const TOOLTIP_STYLE = { borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' };
+
+const TREND_LABELS = {
+  rising: { label: 'Rising', icon: <TrendingUp className="w-4 h-4" />, className: 'text-green-600' },
+  stable: { label: 'Stable', icon: <Minus className="w-4 h-4" />, className: 'text-gray-600' },
+  declining: { label: 'Declining', icon: <TrendingDown className="w-4 h-4" />, className: 'text-amber-600' }
+};
+
+const formatPeriod = (affiliation: OrcidAffiliation) => {
+  const start = affiliation.startYear ?? '?';
+  const end = affiliation.endYear ?? 'present';
+  return `${start} – ${end}`;
+};
+
+const AffiliationList: React.FC<{ title: string; icon: React.ReactNode; items: OrcidAffiliation[] }> = ({ title, icon, items }) => (
+  <div>
+    <h4 className="flex items-center gap-2 text-sm font-semibold text-gray-700 mb-2">
+      {icon} {title}
+    </h4>
+    {items.length === 0 ? (
+      <p className="text-sm text-gray-400">No public records</p>
+    ) : (
+      <ul className="space-y-2">
+        {items.map((item, index) => (
+          <li key={`${item.organization}-${index}`} className="text-sm">
+            <p className="font-medium text-gray-900">{item.organization}</p>
+            <p className="text-gray-500">
+              {[item.role, item.department].filter(Boolean).join(', ')}
+              {(item.role || item.department) && ' • '}
+              {formatPeriod(item)}
+            </p>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+const Card: React.FC<{ title: string; icon?: React.ReactNode; children: React.ReactNode }> = ({ title, icon, children }) => (
+  <div className="bg-white rounded-xl border border-gray-100 shadow-sm overflow-hidden">
+    <div className="px-6 py-4 border-b border-gray-100 bg-gray-50 flex items-center gap-2">
+      {icon}
+      <h3 className="font-semibold text-gray-800">{title}</h3>
+    </div>
+    <div className="p-6">{children}</div>
+  </div>
+);
+
+const BarList: React.FC<{ items: { label: string; count: number }[] }> = ({ items }) => {
+  const max = Math.max(1, ...items.map(item => item.count));
+  return items.length === 0 ? <p className="text-sm text-gray-400">None recorded</p> : (
+    <ul className="space-y-2">
+      {items.map(item => (
+        <li key={item.label} className="text-sm">
+          <div className="flex justify-between gap-3">
+            <span className="text-gray-700 truncate" title={item.label}>{item.label}</span>
+            <span className="text-gray-500">{item.count}</span>
+          </div>
+          <div className="h-1.5 bg-gray-100 rounded-full mt-1">
+            <div className="h-1.5 bg-indigo-500 rounded-full" style={{ width: `${item.count / max * 100}%` }} />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export const ResearcherProfile: React.FC<ResearcherProfileProps> = ({ profile, profiles, onBack, onSelectProfile }) => {
+  const [copied, setCopied] = useState(false);
+
+  const timeline = useMemo(() => buildCareerTimeline(profile), [profile]);
+  const trend = useMemo(() => computeProductivityTrend(profile), [profile]);
+  const output = useMemo(() => summarizeOutput(profile), [profile]);
+  const audit = useMemo(() => auditProfile(profile), [profile]);
+  const metrics = useMemo(() => computeResearcherMetrics(profile), [profile]);
+  const coAuthors = useMemo(
+    () => profiles.length > 1 ? findGroupCoAuthors(profile.orcidId, deduplicateWorks(profiles), profiles) : [],
+    [profile, profiles]
+  );
+
+  const employment = primaryEmployment(profile);
+  const years = profile.works.map(work => work.year).filter((year): year is number => year !== null);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard access can be denied; the URL bar still holds the link
+    }
+  };
+
+  const span = timeline ? timeline.toYear - timeline.fromYear + 1 : 0;
+  const gridStyle = { gridTemplateColumns: `repeat(${span}, minmax(0, 1fr))` };
+  const maxCount = timeline ? Math.max(1, ...timeline.works.map(entry => entry.count)) : 1;
+
+  return (
+    <div className="space-y-6 animate-fade-in-up">
+      <div className="flex items-center justify-between">
+        <button onClick={onBack} className="flex items-center gap-1 text-sm text-gray-500 hover:text-indigo-600 font-medium">
+          <ArrowLeft className="w-4 h-4" /> Back to dashboard
+        </button>
+        <button onClick={handleCopyLink} className="flex items-center gap-1 text-sm text-gray-500 hover:text-indigo-600">
+          <LinkIcon className="w-4 h-4" /> {copied ? 'Copied' : 'Copy link'}
+        </button>
+      </div>
+
+      {/* Header */}
+      <div className="bg-white rounded-xl border border-gray-100 shadow-sm p-6">
+        <div className="flex flex-wrap items-start justify-between gap-6">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">{profile.fullName}</h2>
+            <a
+              href={`https://orcid.org/${profile.orcidId}`}
+              target="_blank"
+              rel="noreferrer"
+              className="font-mono text-sm text-indigo-600 hover:underline"
+            >
+              {profile.orcidId}
+            </a>
+            {employment && (
+              <p className="text-sm text-gray-600 mt-1">
+                {[employment.role, employment.department, employment.organization].filter(Boolean).join(', ')}
+              </p>
+            )}
+            {profile.otherNames.length > 0 && (
+              <p className="text-xs text-gray-500 mt-1">Also known as: {profile.otherNames.join(', ')}</p>
+            )}
+          </div>
+          <dl className="flex flex-wrap gap-8 text-sm">
+            <div>
+              <dt className="text-gray-500">Works</dt>
+              <dd className="text-2xl font-bold text-gray-900">{profile.works.length}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Active</dt>
+              <dd className="text-2xl font-bold text-gray-900">
+                {years.length > 0 ? `${Math.min(...years)}–${Math.max(...years)}` : '-'}
+              </dd>
+            </div>
+            {metrics.worksWithCitations > 0 && (
+              <div>
+                <dt className="text-gray-500">Citations / h-index</dt>
+                <dd className="text-2xl font-bold text-gray-900">{metrics.citations} / {metrics.hIndex}</dd>
+              </div>
+            )}
+            <div>
+              <dt className="text-gray-500">Record score</dt>
+              <dd className={`text-2xl font-bold ${scoreColor(audit.score)}`}>{audit.score}</dd>
+            </div>
+          </dl>
+        </div>
+      </div>
+
+      {/* Career timeline */}
+      <Card title="Career Timeline">
+        {!timeline ? (
+          <p className="text-sm text-gray-400">No dated works or affiliations.</p>
+        ) : (
+          <>
+            <div className="flex items-center gap-4 text-xs text-gray-500 mb-4">
+              <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-indigo-500" /> Works</span>
+              <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-indigo-100" /> Employment</span>
+              <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-emerald-100" /> Education</span>
+            </div>
+            <div className="overflow-x-auto">
+              <div style={{ minWidth: `${span * 24}px` }}>
+                <div className="grid items-end h-32 gap-px" style={gridStyle}>
+                  {timeline.works.map(entry => (
+                    <div key={entry.year} className="h-full flex flex-col justify-end" title={`${entry.year}: ${entry.count} works`}>
+                      {entry.count > 0 && (
+                        <div className="bg-indigo-500 rounded-t" style={{ height: `${entry.count / maxCount * 100}%` }} />
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <div className="grid gap-px border-t border-gray-200 pt-1" style={gridStyle}>
+                  {timeline.works.map(entry => (
+                    <span key={entry.year} className="text-[10px] text-gray-400 text-center">
+                      {span <= 15 || entry.year % 5 === 0 ? entry.year : ''}
+                    </span>
+                  ))}
+                </div>
+                <div className="mt-3 space-y-1">
+                  {timeline.periods.map((period, index) => (
+                    <div key={index} className="grid gap-px" style={gridStyle}>
+                      <div
+                        className={`h-6 rounded px-2 text-[11px] leading-6 truncate ${
+                          period.kind === 'employment' ? 'bg-indigo-100 text-indigo-800' : 'bg-emerald-100 text-emerald-800'
+                        }`}
+                        style={{ gridColumn: `${period.startYear - timeline.fromYear + 1} / ${period.endYear - timeline.fromYear + 2}` }}
+                        title={`${period.organization}${period.detail ? ` (${period.detail})` : ''}: ${period.startYear}–${period.ongoing ? 'present' : period.endYear}`}
+                      >
+                        {period.organization}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card title="Output by Type">
+          <BarList items={output.byType.map(entry => ({ label: entry.type, count: entry.count }))} />
+        </Card>
+        <Card title="Top Venues">
+          <BarList items={output.topVenues.map(entry => ({ label: entry.journal, count: entry.count }))} />
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card title="Productivity Trend">
+          {!trend ? (
+            <p className="text-sm text-gray-400">No dated works.</p>
+          ) : (
+            <>
+              <p className={`flex items-center gap-1 text-sm font-medium mb-1 ${TREND_LABELS[trend.direction].className}`}>
+                {TREND_LABELS[trend.direction].icon} {TREND_LABELS[trend.direction].label}
+              </p>
+              <p className="text-xs text-gray-500 mb-4">
+                {trend.recentAverage.toFixed(1)} works a year in {trend.recentFrom}–{trend.years[trend.years.length - 1].year},
+                {' '}against {trend.previousAverage.toFixed(1)} in the three years before
+              </p>
+              <div className="h-48">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={trend.years} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e5e7eb" />
+                    <XAxis dataKey="year" axisLine={false} tickLine={false} tick={{ fill: '#6b7280', fontSize: 10 }} />
+                    <YAxis allowDecimals={false} axisLine={false} tickLine={false} tick={{ fill: '#6b7280', fontSize: 10 }} width={30} />
+                    <Tooltip contentStyle={TOOLTIP_STYLE} />
+                    <Line type="monotone" dataKey="count" name="Works" stroke="#4f46e5" strokeWidth={2} />
+                    <Line type="linear" dataKey="trend" name="Trend" stroke="#9ca3af" strokeDasharray="4 4" dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </>
+          )}
+        </Card>
+
+        <Card title="Co-authors in the Group" icon={<Users className="w-5 h-5 text-indigo-600" />}>
+          {coAuthors.length === 0 ? (
+            <p className="text-sm text-gray-400">No shared works with other researchers in the loaded data.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 text-sm">
+              {coAuthors.map(coAuthor => (
+                <li key={coAuthor.orcidId} className="py-2 flex items-center justify-between gap-3">
+                  <button
+                    onClick={() => onSelectProfile(coAuthor.orcidId)}
+                    className="font-medium text-gray-900 hover:text-indigo-600 hover:underline text-left truncate"
+                  >
+                    {coAuthor.fullName}
+                  </button>
+                  <span className="text-gray-500 whitespace-nowrap">
+                    {coAuthor.sharedWorks} shared {coAuthor.sharedWorks === 1 ? 'work' : 'works'}
+                    {coAuthor.latestYear && `, latest ${coAuthor.latestYear}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+      </div>
+
+      <Card title="Data Quality" icon={<ClipboardCheck className="w-5 h-5 text-indigo-600" />}>
+        {audit.issues.length === 0 ? (
+          <p className="text-sm text-green-600">No issues found in this ORCID record.</p>
+        ) : (
+          <ul className="space-y-3">
+            {audit.issues.map(issue => (
+              <li key={issue.check} className="text-sm">
+                <div className="flex items-center gap-2">
+                  <span className={`px-2 py-0.5 rounded text-xs font-medium ${SEVERITY_STYLES[issue.severity]}`}>
+                    {issue.severity}
+                  </span>
+                  <span className="font-medium text-gray-900">{issue.label}</span>
+                  {issue.affected > 0 && <span className="text-gray-500">({issue.affected})</span>}
+                </div>
+                <p className="text-gray-600 mt-1">{issue.action}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Card>
+
+      {/* About */}
+      <Card title="About">
+        <div className="space-y-6">
+          {profile.country && (
+            <p className="flex items-center gap-2 text-sm text-gray-600">
+              <MapPin className="w-4 h-4" /> {profile.country}
+            </p>
+          )}
+
+          {Object.keys(profile.attributes).length > 0 && (
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm max-w-xl">
+              {Object.entries(profile.attributes).map(([label, value]) => (
+                <React.Fragment key={label}>
+                  <dt className="text-gray-500">{label}</dt>
+                  <dd className="text-gray-900">{value}</dd>
+                </React.Fragment>
+              ))}
+            </dl>
+          )}
+
+          {profile.biography && (
+            <p className="text-sm text-gray-700 whitespace-pre-line">{profile.biography}</p>
+          )}
+
+          {profile.keywords.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <Tag className="w-4 h-4 text-gray-400" />
+              {profile.keywords.map(keyword => (
+                <span key={keyword} className="px-2 py-0.5 bg-indigo-50 text-indigo-700 text-xs rounded-full">
+                  {keyword}
+                </span>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <AffiliationList title="Employment" icon={<Briefcase className="w-4 h-4" />} items={profile.employments} />
+            <AffiliationList title="Education" icon={<GraduationCap className="w-4 h-4" />} items={profile.educations} />
+          </div>
+
+          {profile.researcherUrls.length > 0 && (
+            <div>
+              <h4 className="flex items-center gap-2 text-sm font-semibold text-gray-700 mb-2">
+                <LinkIcon className="w-4 h-4" /> Links
+              </h4>
+              <ul className="space-y-1">
+                {profile.researcherUrls.map(link => (
+                  <li key={link.url}>
+                    <a href={link.url} target="_blank" rel="noreferrer" className="text-sm text-indigo-600 hover:underline">
+                      {link.name}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+};
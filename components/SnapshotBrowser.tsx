@@ -0,0 +1,258 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowRight, GitCompare, History, Save, Trash2, X } from 'lucide-react';
+import { AnalysisFilters, AnalysisSnapshot, AnalysisStats, SnapshotDiff, SnapshotInfo } from '../types';
+import { deleteSnapshot, diffSnapshots, listSnapshots, loadSnapshot, saveSnapshot } from '../services/snapshotService';
+
+interface SnapshotBrowserProps {
+  currentStats: AnalysisStats | null; // unfiltered, so a snapshot keeps every researcher
+  currentFilters: AnalysisFilters;
+  analysisId?: string | null;
+  onOpen: (snapshot: AnalysisSnapshot) => void;
+  onClose: () => void;
+}
+
+const formatDelta = (value: number) => {
+  const rounded = Number.isInteger(value) ? value : Number(value.toFixed(2));
+  return rounded > 0 ? `+${rounded}` : String(rounded);
+};
+
+const deltaColor = (value: number) =>
+  value > 0 ? 'text-emerald-600' : value < 0 ? 'text-red-600' : 'text-gray-400';
+
+const SnapshotDiffView: React.FC<{ diff: SnapshotDiff }> = ({ diff }) => (
+  <div className="space-y-6">
+    <p className="text-sm text-gray-600 flex items-center gap-2">
+      <span className="font-medium">{diff.from.name} v{diff.from.version}</span>
+      <ArrowRight className="w-4 h-4" />
+      <span className="font-medium">{diff.to.name} v{diff.to.version}</span>
+    </p>
+
+    <table className="w-full text-sm text-left">
+      <thead className="bg-gray-50 text-gray-500 font-medium">
+        <tr>
+          <th className="px-4 py-2">Metric</th>
+          <th className="px-4 py-2 text-right">Before</th>
+          <th className="px-4 py-2 text-right">After</th>
+          <th className="px-4 py-2 text-right">Change</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {diff.metrics.map(metric => (
+          <tr key={metric.metric}>
+            <td className="px-4 py-2 text-gray-900">{metric.metric}</td>
+            <td className="px-4 py-2 text-right text-gray-700">{metric.before}</td>
+            <td className="px-4 py-2 text-right text-gray-700">{metric.after}</td>
+            <td className={`px-4 py-2 text-right font-medium ${deltaColor(metric.delta)}`}>{formatDelta(metric.delta)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+      <div>
+        <h4 className="font-semibold text-gray-700 mb-1">Researchers added ({diff.researchersAdded.length})</h4>
+        <ul className="text-gray-600 space-y-0.5">
+          {diff.researchersAdded.map(r => <li key={r.orcidId}>{r.fullName} <span className="font-mono text-xs text-gray-400">{r.orcidId}</span></li>)}
+        </ul>
+      </div>
+      <div>
+        <h4 className="font-semibold text-gray-700 mb-1">Researchers removed ({diff.researchersRemoved.length})</h4>
+        <ul className="text-gray-600 space-y-0.5">
+          {diff.researchersRemoved.map(r => <li key={r.orcidId}>{r.fullName} <span className="font-mono text-xs text-gray-400">{r.orcidId}</span></li>)}
+        </ul>
+      </div>
+    </div>
+
+    {diff.researcherChanges.length > 0 && (
+      <div className="text-sm">
+        <h4 className="font-semibold text-gray-700 mb-1">Publication count changes</h4>
+        <ul className="text-gray-600 space-y-0.5">
+          {diff.researcherChanges.map(change => (
+            <li key={change.orcidId}>
+              {change.fullName}: {change.before} → {change.after}
+              <span className={`ml-2 font-medium ${deltaColor(change.after - change.before)}`}>
+                {formatDelta(change.after - change.before)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    )}
+
+    <div className="text-sm">
+      <h4 className="font-semibold text-gray-700 mb-1">New works ({diff.newWorks.length})</h4>
+      <ul className="text-gray-600 space-y-0.5 max-h-48 overflow-y-auto">
+        {diff.newWorks.map(unique => (
+          <li key={unique.key} className="truncate">{unique.work.title} ({unique.work.year || 'n.d.'})</li>
+        ))}
+      </ul>
+      {diff.removedWorks.length > 0 && (
+        <p className="text-xs text-gray-400 mt-1">{diff.removedWorks.length} works from the earlier snapshot are no longer present.</p>
+      )}
+    </div>
+  </div>
+);
+
+export const SnapshotBrowser: React.FC<SnapshotBrowserProps> = ({ currentStats, currentFilters, analysisId, onOpen, onClose }) => {
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+  const [name, setName] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setSnapshots(await listSnapshots());
+    } catch (err: any) {
+      setError(err.message || 'Failed to read saved snapshots');
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleSave = async () => {
+    if (!currentStats) return;
+    setError(null);
+    try {
+      await saveSnapshot(name, currentStats, analysisId || undefined, currentFilters);
+      setName('');
+      await refresh();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save snapshot');
+    }
+  };
+
+  const handleOpen = async (id: string) => {
+    try {
+      onOpen(await loadSnapshot(id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to open snapshot');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteSnapshot(id);
+    setSelected(prev => prev.filter(s => s !== id));
+    await refresh();
+  };
+
+  const toggleSelected = (id: string) => {
+    setDiff(null);
+    // Keep at most two: the oldest selection drops out
+    setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id].slice(-2));
+  };
+
+  const handleCompare = async () => {
+    if (selected.length !== 2) return;
+    try {
+      const [first, second] = await Promise.all(selected.map(loadSnapshot));
+      // Always diff from the older snapshot to the newer one
+      const [from, to] = first.createdAt <= second.createdAt ? [first, second] : [second, first];
+      setDiff(diffSnapshots(from, to));
+    } catch (err: any) {
+      setError(err.message || 'Failed to compare snapshots');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/30 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl border border-gray-200 w-full max-w-3xl max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <History className="w-5 h-5 text-indigo-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Saved Snapshots</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-1 rounded transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 p-6 space-y-6">
+          {currentStats && (
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                placeholder="Snapshot name, e.g. Faculty of Physics"
+                className="flex-1 px-3 py-2 rounded-lg border border-gray-300 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+              />
+              <button
+                onClick={handleSave}
+                disabled={!name.trim()}
+                className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Save className="w-4 h-4" /> Save current analysis
+              </button>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {snapshots.length === 0 ? (
+            <p className="text-sm text-gray-500">No snapshots saved yet.</p>
+          ) : (
+            <>
+              <table className="w-full text-sm text-left">
+                <thead className="bg-gray-50 text-gray-500 font-medium">
+                  <tr>
+                    <th className="px-4 py-2 w-8"></th>
+                    <th className="px-4 py-2">Name</th>
+                    <th className="px-4 py-2">Saved</th>
+                    <th className="px-4 py-2 text-right">Researchers</th>
+                    <th className="px-4 py-2 text-right">Publications</th>
+                    <th className="px-4 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {snapshots.map(snapshot => (
+                    <tr key={snapshot.id} className="hover:bg-gray-50 transition-colors">
+                      <td className="px-4 py-2">
+                        <input
+                          type="checkbox"
+                          checked={selected.includes(snapshot.id)}
+                          onChange={() => toggleSelected(snapshot.id)}
+                          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                      </td>
+                      <td className="px-4 py-2 text-gray-900">
+                        {snapshot.name} <span className="text-xs text-gray-400">v{snapshot.version}</span>
+                      </td>
+                      <td className="px-4 py-2 text-gray-500">{new Date(snapshot.createdAt).toLocaleString()}</td>
+                      <td className="px-4 py-2 text-right text-gray-700">{snapshot.researchers}</td>
+                      <td className="px-4 py-2 text-right text-gray-700">{snapshot.uniquePublications}</td>
+                      <td className="px-4 py-2 text-right whitespace-nowrap">
+                        <button onClick={() => handleOpen(snapshot.id)} className="text-indigo-600 hover:text-indigo-800 font-medium mr-3">
+                          Open
+                        </button>
+                        <button onClick={() => handleDelete(snapshot.id)} className="text-gray-400 hover:text-red-600" title="Delete snapshot">
+                          <Trash2 className="w-4 h-4 inline" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <button
+                onClick={handleCompare}
+                disabled={selected.length !== 2}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-indigo-700 bg-indigo-50 rounded-lg hover:bg-indigo-100 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <GitCompare className="w-4 h-4" /> Compare selected ({selected.length}/2)
+              </button>
+            </>
+          )}
+
+          {diff && <SnapshotDiffView diff={diff} />}
+        </div>
+      </div>
+    </div>
+  );
+};
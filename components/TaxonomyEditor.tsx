@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { Plus, RotateCcw, Tags, Trash2, X } from 'lucide-react';
+import { OrcidProfileData, WorkTypeTaxonomy } from '../types';
+import {
+  DEFAULT_TAXONOMY, ORCID_WORK_TYPES, formatOrcidType, normalizeOrcidType, removeCategory, renameCategory
+} from '../services/taxonomyService';
+
+interface TaxonomyEditorProps {
+  taxonomy: WorkTypeTaxonomy;
+  profiles: OrcidProfileData[];
+  onSave: (taxonomy: WorkTypeTaxonomy) => void;
+  onClose: () => void;
+}
+
+const CategoryNameInput: React.FC<{ name: string; onRename: (name: string) => void }> = ({ name, onRename }) => {
+  const [value, setValue] = useState(name);
+  const commit = () => {
+    const trimmed = value.trim();
+    if (trimmed && trimmed !== name) onRename(trimmed);
+    else setValue(name);
+  };
+  return (
+    <input
+      type="text"
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && commit()}
+      className="flex-1 px-2 py-1 rounded border border-transparent hover:border-gray-300 focus:border-indigo-500 text-sm outline-none"
+    />
+  );
+};
+
+export const TaxonomyEditor: React.FC<TaxonomyEditorProps> = ({ taxonomy, profiles, onSave, onClose }) => {
+  const [draft, setDraft] = useState<WorkTypeTaxonomy>(taxonomy);
+  const [newCategory, setNewCategory] = useState('');
+  const [showAllTypes, setShowAllTypes] = useState(false);
+
+  // Types found in the loaded data come first, with how many records use them
+  const typeCounts: Record<string, number> = {};
+  profiles.forEach(profile => profile.works.forEach(work => {
+    const type = normalizeOrcidType(work.type);
+    typeCounts[type] = (typeCounts[type] || 0) + 1;
+  }));
+  const presentTypes = Object.keys(typeCounts).sort((a, b) => typeCounts[b] - typeCounts[a]);
+  const types = showAllTypes
+    ? [...presentTypes, ...ORCID_WORK_TYPES.filter(type => !typeCounts[type])]
+    : presentTypes;
+
+  const handleRename = (from: string, to: string) => {
+    if (draft.categories.includes(to)) return;
+    setDraft(renameCategory(draft, from, to));
+  };
+
+  const handleAddCategory = () => {
+    const name = newCategory.trim();
+    if (!name || draft.categories.includes(name)) return;
+    setDraft({ ...draft, categories: [...draft.categories, name] });
+    setNewCategory('');
+  };
+
+  const handleMap = (type: string, category: string) => {
+    const mapping = { ...draft.mapping };
+    if (category) mapping[type] = category;
+    else delete mapping[type];
+    setDraft({ ...draft, mapping });
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/30 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl border border-gray-200 w-full max-w-3xl max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Tags className="w-5 h-5 text-indigo-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Work Type Mapping</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-1 rounded transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 p-6 grid grid-cols-1 md:grid-cols-[16rem_1fr] gap-8">
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">Reporting categories</h4>
+            <ul className="space-y-1 mb-3">
+              {draft.categories.map(category => (
+                <li key={category} className="flex items-center gap-1">
+                  <CategoryNameInput name={category} onRename={(name) => handleRename(category, name)} />
+                  <button
+                    onClick={() => setDraft(removeCategory(draft, category))}
+                    disabled={draft.categories.length === 1}
+                    className="text-gray-300 hover:text-red-600 disabled:opacity-30 p-1"
+                    title="Remove category"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div className="flex gap-1 mb-6">
+              <input
+                type="text"
+                value={newCategory}
+                onChange={(e) => setNewCategory(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddCategory()}
+                placeholder="New category"
+                className="flex-1 px-2 py-1 rounded border border-gray-300 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+              />
+              <button onClick={handleAddCategory} className="p-1.5 text-indigo-600 hover:bg-indigo-50 rounded">
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+
+            <label className="block text-sm font-semibold text-gray-700 mb-1">Unmapped types go to</label>
+            <select
+              value={draft.fallback}
+              onChange={(e) => setDraft({ ...draft, fallback: e.target.value })}
+              className="w-full px-3 py-1.5 rounded-lg border border-gray-300 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+            >
+              {draft.categories.map(category => <option key={category} value={category}>{category}</option>)}
+            </select>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-sm font-semibold text-gray-700">ORCID work types</h4>
+              <label className="inline-flex items-center gap-2 text-xs text-gray-500 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={showAllTypes}
+                  onChange={(e) => setShowAllTypes(e.target.checked)}
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Show types not in the data
+              </label>
+            </div>
+            <table className="w-full text-sm text-left">
+              <tbody className="divide-y divide-gray-100">
+                {types.map(type => (
+                  <tr key={type}>
+                    <td className="py-1.5 pr-4 text-gray-700">
+                      {formatOrcidType(type)}
+                      {typeCounts[type] && <span className="ml-2 text-xs text-gray-400">{typeCounts[type]}</span>}
+                    </td>
+                    <td className="py-1.5 w-56">
+                      <select
+                        value={draft.mapping[type] || ''}
+                        onChange={(e) => handleMap(type, e.target.value)}
+                        className={`w-full px-2 py-1 rounded border text-sm outline-none focus:ring-2 focus:ring-indigo-500 ${
+                          draft.mapping[type] ? 'border-gray-300' : 'border-amber-300 bg-amber-50'
+                        }`}
+                      >
+                        <option value="">{draft.fallback} (unmapped)</option>
+                        {draft.categories.map(category => <option key={category} value={category}>{category}</option>)}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-100 flex items-center justify-between">
+          <button
+            onClick={() => setDraft(DEFAULT_TAXONOMY)}
+            className="flex items-center gap-1 text-sm text-gray-500 hover:text-indigo-600"
+          >
+            <RotateCcw className="w-4 h-4" /> Reset to defaults
+          </button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-600 hover:text-gray-800">
+              Cancel
+            </button>
+            <button
+              onClick={() => onSave(draft)}
+              className="px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700"
+            >
+              Apply mapping
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,205 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Loader2, Sparkles, Tags } from 'lucide-react';
+import { AnalysisStats } from '../types';
+import { MAX_TOPICS, autoTopicCount, extractTopics, suggestTopicLabels } from '../services/topicService';
+import { loadLlmSettings } from '../services/llmProviders';
+import { COLORS } from './AnalysisCharts';
+
+interface TopicPanelProps {
+  data: AnalysisStats;
+}
+
+const INITIAL_VISIBLE = 10;
+const VISIBLE_KEYPHRASES = 20;
+
+// COLORS has too few entries to tell MAX_TOPICS topics apart
+const TOPIC_COLORS = [...COLORS, '#84cc16', '#f97316', '#14b8a6', '#a855f7', '#64748b'];
+
+const topicColor = (index: number) => TOPIC_COLORS[index % TOPIC_COLORS.length];
+
+export const TopicPanel: React.FC<TopicPanelProps> = ({ data }) => {
+  const [topicCount, setTopicCount] = useState<number | null>(null); // null: automatic
+  const [labels, setLabels] = useState<string[] | null>(null);
+  const [labeling, setLabeling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
+
+  const analysis = useMemo(
+    () => extractTopics(data.uniqueWorks, data.processedProfiles, topicCount || undefined),
+    [data, topicCount]
+  );
+
+  // Suggested names belong to the topics they were suggested for
+  useEffect(() => {
+    setLabels(null);
+    setError(null);
+  }, [analysis]);
+
+  if (data.uniqueWorks.length === 0) return null;
+
+  const { topics } = analysis;
+  const labelOf = (index: number) => labels?.[index] || topics[index].label;
+  const maxCell = Math.max(1, ...analysis.byYear.flatMap(entry => entry.counts));
+  const researchers = [...analysis.researchers].filter(r => r.works > 0).sort((a, b) => b.works - a.works);
+  const visibleResearchers = showAll ? researchers : researchers.slice(0, INITIAL_VISIBLE);
+
+  const handleSuggestLabels = async () => {
+    setLabeling(true);
+    setError(null);
+    try {
+      setLabels(await suggestTopicLabels(analysis, data.uniqueWorks, loadLlmSettings()));
+    } catch (err: any) {
+      setError(err.message || 'Failed to name the topics.');
+    } finally {
+      setLabeling(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 shadow-sm overflow-hidden mb-8">
+      <div className="px-6 py-4 border-b border-gray-100 bg-gray-50 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Tags className="w-5 h-5 text-indigo-600" />
+          <h3 className="font-semibold text-gray-800">Research Topics</h3>
+          <span className="text-xs text-gray-500">
+            {topics.length} topics from titles, keywords and journals
+            {analysis.unassigned > 0 && ` • ${analysis.unassigned} works unassigned`}
+          </span>
+        </div>
+        <div className="flex items-center gap-3 text-sm">
+          <select
+            value={topicCount ?? ''}
+            onChange={(e) => setTopicCount(e.target.value ? parseInt(e.target.value) : null)}
+            className="px-3 py-1.5 rounded-lg border border-gray-300 bg-white outline-none"
+          >
+            <option value="">Auto ({autoTopicCount(data.uniqueWorks.length - analysis.unassigned)})</option>
+            {Array.from({ length: MAX_TOPICS - 1 }, (_, i) => i + 2).map(count => (
+              <option key={count} value={count}>{count} topics</option>
+            ))}
+          </select>
+          <button
+            onClick={handleSuggestLabels}
+            disabled={labeling || topics.length === 0}
+            className="flex items-center gap-1 text-indigo-600 hover:text-indigo-800 font-medium disabled:text-gray-300"
+            title="Ask the assistant's model to name the topics"
+          >
+            {labeling ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+            Name with model
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="px-6 py-3 text-sm text-red-600 border-b border-gray-100">{error}</div>}
+
+      {topics.length === 0 ? (
+        <p className="px-6 py-4 text-sm text-gray-500">Too few works share terms to find topics.</p>
+      ) : (
+        <div className="p-6 space-y-8">
+          {/* Topics */}
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
+            {topics.map((topic, index) => (
+              <div key={topic.id} className="border border-gray-100 rounded-lg p-3">
+                <div className="flex items-start gap-2">
+                  <span className="w-3 h-3 rounded-full mt-1 flex-shrink-0" style={{ backgroundColor: topicColor(index) }} />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900">{labelOf(index)}</p>
+                    <p className="text-xs text-gray-500">
+                      {topic.workKeys.length} works • {topic.terms.slice(0, 5).map(entry => entry.term).join(', ')}
+                    </p>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Topic by year heatmap */}
+          {analysis.byYear.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-800 mb-2">Topics by year</h4>
+              <div className="overflow-x-auto">
+                <table className="text-xs border-separate border-spacing-0.5">
+                  <thead>
+                    <tr>
+                      <th />
+                      {analysis.byYear.map(entry => (
+                        <th key={entry.year} className="px-1 font-normal text-gray-500">{entry.year}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {topics.map((topic, index) => (
+                      <tr key={topic.id}>
+                        <td className="pr-3 text-gray-700 whitespace-nowrap max-w-[16rem] truncate" title={labelOf(index)}>
+                          <span className="inline-block w-2 h-2 rounded-full mr-1.5" style={{ backgroundColor: topicColor(index) }} />
+                          {labelOf(index)}
+                        </td>
+                        {analysis.byYear.map(entry => {
+                          const count = entry.counts[index];
+                          const intensity = count / maxCell;
+                          return (
+                            <td
+                              key={entry.year}
+                              className={`w-8 h-7 text-center rounded ${intensity > 0.5 ? 'text-white' : 'text-gray-700'}`}
+                              style={{ backgroundColor: count > 0 ? `rgba(79, 70, 229, ${0.1 + intensity * 0.8})` : '#f9fafb' }}
+                              title={`${labelOf(index)}, ${entry.year}: ${count} works`}
+                            >
+                              {count || ''}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {/* Per-researcher topic profiles */}
+          <div>
+            <h4 className="text-sm font-semibold text-gray-800 mb-2">Researcher topic profiles</h4>
+            <ul className="space-y-2">
+              {visibleResearchers.map(researcher => {
+                const assigned = researcher.counts.reduce((sum, count) => sum + count, 0);
+                return (
+                  <li key={researcher.orcidId} className="grid grid-cols-12 gap-3 items-center text-sm">
+                    <span className="col-span-3 font-medium text-gray-900 truncate" title={researcher.fullName}>{researcher.fullName}</span>
+                    <div className="col-span-4 flex h-3 rounded-full overflow-hidden bg-gray-100">
+                      {researcher.counts.map((count, index) => count > 0 && (
+                        <div
+                          key={index}
+                          style={{ width: `${count / Math.max(assigned, 1) * 100}%`, backgroundColor: topicColor(index) }}
+                          title={`${labelOf(index)}: ${count} works`}
+                        />
+                      ))}
+                    </div>
+                    <span className="col-span-5 text-xs text-gray-500 truncate" title={researcher.topTerms.join(', ')}>
+                      {researcher.topTerms.join(', ') || '-'}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+            {researchers.length > INITIAL_VISIBLE && (
+              <button onClick={() => setShowAll(!showAll)} className="mt-2 text-sm text-indigo-600 hover:text-indigo-800 font-medium">
+                {showAll ? 'Show fewer' : `Show all ${researchers.length} researchers`}
+              </button>
+            )}
+          </div>
+
+          {/* Keyphrases */}
+          <div>
+            <h4 className="text-sm font-semibold text-gray-800 mb-2">Top keyphrases (TF-IDF)</h4>
+            <div className="flex flex-wrap gap-2">
+              {analysis.keyphrases.slice(0, VISIBLE_KEYPHRASES).map(phrase => (
+                <span key={phrase.term} className="px-2 py-1 bg-indigo-50 text-indigo-700 rounded text-xs">
+                  {phrase.term} <span className="text-indigo-400">{phrase.works}</span>
+                </span>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React from 'react';
+import { ExternalLink, X } from 'lucide-react';
+import { OrcidProfileData, UniqueWork } from '../types';
+import { getWorkCategory } from '../services/taxonomyService';
+
+interface WorksDrillDownProps {
+  works: UniqueWork[];
+  profiles: OrcidProfileData[];
+  filterSummary: string[];
+  onClose: () => void;
+}
+
+// Rendering thousands of rows in a side panel is slow; the full list is available via export
+const MAX_ROWS = 500;
+
+export const WorksDrillDown: React.FC<WorksDrillDownProps> = ({ works, profiles, filterSummary, onClose }) => {
+  const names = new Map(profiles.map(profile => [profile.orcidId, profile.fullName]));
+  const sorted = [...works].sort((a, b) => (b.work.year || 0) - (a.work.year || 0));
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/30 flex justify-end" onClick={onClose}>
+      <div
+        className="bg-white shadow-2xl border-l border-gray-200 w-full max-w-xl h-full flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-gray-100 flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Works ({works.length})</h3>
+            <p className="text-xs text-gray-500 mt-1">
+              {filterSummary.length > 0 ? filterSummary.join(' • ') : 'All works, co-authored works listed once'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-1 rounded transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <ul className="overflow-y-auto flex-1 divide-y divide-gray-100">
+          {sorted.slice(0, MAX_ROWS).map(unique => (
+            <li key={unique.key} className="px-6 py-3 text-sm">
+              <p className="font-medium text-gray-900">{unique.work.title}</p>
+              <p className="text-gray-500 mt-0.5">
+                {[unique.work.year || 'n.d.', getWorkCategory(unique.work), unique.work.journal].filter(Boolean).join(' • ')}
+              </p>
+              <p className="text-xs text-gray-400 mt-0.5">{unique.authors.map(orcidId => names.get(orcidId) || orcidId).join(', ')}</p>
+              {unique.work.doi && (
+                <a
+                  href={`https://doi.org/${unique.work.doi}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 text-xs text-indigo-600 hover:underline mt-1"
+                >
+                  {unique.work.doi} <ExternalLink className="w-3 h-3" />
+                </a>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {works.length > MAX_ROWS && (
+          <p className="px-6 py-3 border-t border-gray-100 text-xs text-gray-500">
+            Showing the {MAX_ROWS} most recent of {works.length} works. Narrow the filters or export to see the rest.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,306 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, ArrowDown, ArrowUp, ExternalLink, Search, X } from 'lucide-react';
+import { OrcidProfileData, OrcidWork, OrcidWorkDetail } from '../types';
+import { fetchWorkDetail, orcidWorkApiUrl } from '../services/orcidService';
+import { formatOrcidType, getWorkCategory } from '../services/taxonomyService';
+import { QUALITY_FLAG_LABELS } from '../services/workMergeService';
+
+interface WorksExplorerProps {
+  profiles: OrcidProfileData[];
+}
+
+interface WorkRow {
+  profile: OrcidProfileData;
+  work: OrcidWork;
+}
+
+type SortKey = 'title' | 'year' | 'type' | 'journal' | 'researcher';
+
+// Rows have a fixed height so only the visible window needs to be rendered
+const ROW_HEIGHT = 44;
+const VIEWPORT_HEIGHT = 480;
+const OVERSCAN = 8;
+
+const GRID_COLUMNS = 'grid grid-cols-[minmax(0,3fr)_4rem_minmax(0,1fr)_minmax(0,1.5fr)_minmax(0,1.5fr)_minmax(0,1fr)] gap-4 items-center';
+
+const SORT_VALUES: Record<SortKey, (row: WorkRow) => string | number> = {
+  title: row => row.work.title.toLowerCase(),
+  year: row => row.work.year ?? 0,
+  type: row => getWorkCategory(row.work),
+  journal: row => (row.work.journal || '').toLowerCase(),
+  researcher: row => row.profile.fullName.toLowerCase()
+};
+
+const WorkDetailPanel: React.FC<{ row: WorkRow; onClose: () => void }> = ({ row, onClose }) => {
+  const [detail, setDetail] = useState<OrcidWorkDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setDetail(null);
+    setError(null);
+    fetchWorkDetail(row.profile.orcidId, row.work, { demoMode: row.profile.source === 'demo', signal: controller.signal })
+      .then(setDetail)
+      .catch((err: any) => {
+        if (err.name !== 'AbortError') setError(err.message || 'Failed to load the work record');
+      });
+    return () => controller.abort();
+  }, [row.profile.orcidId, row.work.putCode]);
+
+  const externalIds = detail?.externalIds.length ? detail.externalIds : row.work.externalIds || [];
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/30 flex justify-end" onClick={onClose}>
+      <div
+        className="bg-white shadow-2xl border-l border-gray-200 w-full max-w-lg h-full flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-gray-100 flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">{row.work.title}</h3>
+            <p className="text-sm text-gray-500 mt-1">
+              {[row.work.year || 'n.d.', formatOrcidType(row.work.type), row.work.journal].filter(Boolean).join(' • ')}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-1 rounded transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 p-6 space-y-6 text-sm">
+          <div>
+            <h4 className="font-semibold text-gray-700 mb-2">Contributors</h4>
+            {error && <p className="text-red-600">{error}</p>}
+            {!detail && !error && <p className="text-gray-400">Loading the full record…</p>}
+            {detail && detail.contributors.length === 0 && <p className="text-gray-400">The record lists no contributors.</p>}
+            {detail && detail.contributors.length > 0 && (
+              <ol className="space-y-1 list-decimal list-inside text-gray-700">
+                {detail.contributors.map((contributor, index) => (
+                  <li key={`${contributor.name}-${index}`}>
+                    {contributor.name}
+                    {contributor.role && <span className="text-gray-400"> ({contributor.role.replace(/_/g, ' ').toLowerCase()})</span>}
+                    {contributor.orcidId && (
+                      <a
+                        href={`https://orcid.org/${contributor.orcidId}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="ml-2 font-mono text-xs text-indigo-600 hover:underline"
+                      >
+                        {contributor.orcidId}
+                      </a>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+
+          <div>
+            <h4 className="font-semibold text-gray-700 mb-2">External identifiers</h4>
+            {externalIds.length === 0 ? (
+              <p className="text-gray-400">None recorded</p>
+            ) : (
+              <table className="w-full text-left">
+                <tbody className="divide-y divide-gray-100">
+                  {externalIds.map(id => (
+                    <tr key={`${id.type}-${id.value}`}>
+                      <td className="py-1.5 pr-4 text-gray-500 uppercase text-xs">{id.type}</td>
+                      <td className="py-1.5 text-gray-700 break-all">
+                        {id.url ? (
+                          <a href={id.url} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:underline">{id.value}</a>
+                        ) : id.value}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {Boolean(row.work.sources?.length || row.work.qualityFlags?.length) && (
+            <div>
+              <h4 className="font-semibold text-gray-700 mb-2">Sources and data quality</h4>
+              {row.work.provenance && Object.keys(row.work.provenance).length > 0 && (
+                <table className="w-full text-left mb-3">
+                  <tbody className="divide-y divide-gray-100">
+                    {Object.entries(row.work.provenance).map(([field, source]) => (
+                      <tr key={field}>
+                        <td className="py-1.5 pr-4 text-gray-500 capitalize w-24">{field}</td>
+                        <td className="py-1.5 text-gray-700">{source}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {row.work.sources && row.work.sources.length > 1 && (
+                <p className="text-xs text-gray-500 mb-2">Merged from {row.work.sources.length} sources: {row.work.sources.join(', ')}</p>
+              )}
+              {row.work.qualityFlags && row.work.qualityFlags.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {row.work.qualityFlags.map(flag => (
+                    <span
+                      key={flag}
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                        flag.startsWith('conflicting') ? 'bg-amber-100 text-amber-800' : 'bg-gray-100 text-gray-600'
+                      }`}
+                    >
+                      {QUALITY_FLAG_LABELS[flag]}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {detail?.shortDescription && (
+            <div>
+              <h4 className="font-semibold text-gray-700 mb-2">Description</h4>
+              <p className="text-gray-600">{detail.shortDescription}</p>
+            </div>
+          )}
+
+          <div className="text-gray-500 space-y-1">
+            <p>
+              Listed by <a href={`https://orcid.org/${row.profile.orcidId}`} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:underline">{row.profile.fullName}</a>
+            </p>
+            <p>
+              Put-code{' '}
+              {row.profile.source === 'demo' ? (
+                <span className="font-mono">{row.work.putCode}</span>
+              ) : (
+                <a href={orcidWorkApiUrl(row.profile.orcidId, row.work.putCode)} target="_blank" rel="noopener noreferrer" className="font-mono text-indigo-600 hover:underline">
+                  {row.work.putCode}
+                </a>
+              )}
+            </p>
+            {detail?.url && (
+              <a href={detail.url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-indigo-600 hover:underline">
+                Publisher page <ExternalLink className="w-3 h-3" />
+              </a>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const WorksExplorer: React.FC<WorksExplorerProps> = ({ profiles }) => {
+  const [query, setQuery] = useState('');
+  const [sortKey, setSortKey] = useState<SortKey>('year');
+  const [sortAscending, setSortAscending] = useState(false);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [selected, setSelected] = useState<WorkRow | null>(null);
+
+  const rows = useMemo(() => {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const all: WorkRow[] = profiles.flatMap(profile => profile.works.map(work => ({ profile, work })));
+    const matching = terms.length === 0
+      ? all
+      : all.filter(row => terms.every(term => row.work.title.toLowerCase().includes(term)));
+    const value = SORT_VALUES[sortKey];
+    const direction = sortAscending ? 1 : -1;
+    return [...matching].sort((a, b) => {
+      const left = value(a);
+      const right = value(b);
+      return (left < right ? -1 : left > right ? 1 : 0) * direction;
+    });
+  }, [profiles, query, sortKey, sortAscending]);
+
+  const firstVisible = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastVisible = Math.min(rows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortKey(key);
+      // Years read best newest-first, text columns alphabetically
+      setSortAscending(key !== 'year');
+    }
+  };
+
+  const renderSortHeader = (column: SortKey, label: string) => (
+    <button onClick={() => handleSort(column)} className="flex items-center gap-1 hover:text-gray-700">
+      {label}
+      {sortKey === column && (sortAscending ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+    </button>
+  );
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 shadow-sm overflow-hidden mt-8">
+      <div className="px-6 py-4 border-b border-gray-100 bg-gray-50 flex flex-wrap items-center justify-between gap-3">
+        <h3 className="font-semibold text-gray-800">Works Explorer</h3>
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-gray-500">{rows.length} of {profiles.reduce((sum, p) => sum + p.works.length, 0)} records</span>
+          <div className="relative">
+            <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search titles"
+              className="pl-8 pr-3 py-1.5 rounded-lg border border-gray-300 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className={`${GRID_COLUMNS} px-6 py-3 bg-gray-50 text-sm text-gray-500 font-medium border-b border-gray-100`}>
+        {renderSortHeader('title', 'Title')}
+        {renderSortHeader('year', 'Year')}
+        {renderSortHeader('type', 'Type')}
+        {renderSortHeader('journal', 'Journal')}
+        {renderSortHeader('researcher', 'Researcher')}
+        <span>DOI</span>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="px-6 py-8 text-sm text-gray-500 text-center">No works match the search.</p>
+      ) : (
+        <div
+          className="overflow-y-auto"
+          style={{ height: Math.min(VIEWPORT_HEIGHT, rows.length * ROW_HEIGHT) }}
+          onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        >
+          <div style={{ height: rows.length * ROW_HEIGHT, position: 'relative' }}>
+            {rows.slice(firstVisible, lastVisible).map((row, offset) => (
+              <div
+                key={`${row.profile.orcidId}-${row.work.putCode}`}
+                onClick={() => setSelected(row)}
+                className={`${GRID_COLUMNS} px-6 text-sm border-b border-gray-100 hover:bg-gray-50 cursor-pointer absolute left-0 right-0`}
+                style={{ top: (firstVisible + offset) * ROW_HEIGHT, height: ROW_HEIGHT }}
+              >
+                <span className="truncate text-gray-900 flex items-center gap-1" title={row.work.title}>
+                  {row.work.qualityFlags?.some(flag => flag.startsWith('conflicting')) && (
+                    <AlertTriangle className="w-3.5 h-3.5 text-amber-500 flex-shrink-0" />
+                  )}
+                  <span className="truncate">{row.work.title}</span>
+                </span>
+                <span className="text-gray-700">{row.work.year || '-'}</span>
+                <span className="truncate text-gray-500" title={formatOrcidType(row.work.type)}>{getWorkCategory(row.work)}</span>
+                <span className="truncate text-gray-500" title={row.work.journal}>{row.work.journal || '-'}</span>
+                <span className="truncate text-gray-700">{row.profile.fullName}</span>
+                <span className="truncate">
+                  {row.work.doi ? (
+                    <a
+                      href={`https://doi.org/${row.work.doi}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      onClick={(e) => e.stopPropagation()}
+                      className="text-indigo-600 hover:underline"
+                    >
+                      {row.work.doi}
+                    </a>
+                  ) : <span className="text-gray-300">-</span>}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {selected && <WorkDetailPanel row={selected} onClose={() => setSelected(null)} />}
+    </div>
+  );
+};
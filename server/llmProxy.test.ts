@@ -0,0 +1,69 @@
+import { Readable } from 'stream';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Connect, ViteDevServer } from 'vite';
+import { llmProxyPlugin } from './llmProxy';
+
+const COMPLETION = { model: 'other-model', stream: true, messages: [{ role: 'user', content: 'Hi' }] };
+
+const proxyHandler = (env: Record<string, string>): Connect.NextHandleFunction => {
+  let handler: Connect.NextHandleFunction | undefined;
+  const server = { middlewares: { use: (_path: string, fn: Connect.NextHandleFunction) => { handler = fn; } } };
+  const plugin = llmProxyPlugin({ GEMINI_API_KEY: 'server-key', ...env });
+  (plugin.configureServer as (server: ViteDevServer) => void)(server as unknown as ViteDevServer);
+  return handler!;
+};
+
+const send = async (
+  handler: Connect.NextHandleFunction,
+  { remoteAddress = '127.0.0.1', headers = {} }: { remoteAddress?: string; headers?: Record<string, string> } = {}
+) => {
+  const req = Object.assign(Readable.from([Buffer.from(JSON.stringify(COMPLETION))]), {
+    url: '/v1/chat/completions',
+    method: 'POST',
+    headers,
+    socket: { remoteAddress }
+  }) as unknown as Connect.IncomingMessage;
+  const response = { status: 0, body: '' };
+  const res = {
+    set statusCode(status: number) { response.status = status; },
+    setHeader: () => undefined,
+    end: (body: string) => { response.body = body; }
+  };
+  await handler(req, res as never, () => undefined);
+  return response;
+};
+
+describe('llmProxyPlugin', () => {
+  afterEach(() => { vi.unstubAllGlobals(); });
+
+  const stubUpstream = () => {
+    const upstream = vi.fn(async () => new Response('{"choices":[]}', { status: 200, headers: { 'content-type': 'application/json' } }));
+    vi.stubGlobal('fetch', upstream);
+    return upstream;
+  };
+
+  it('refuses requests from the network when no token is configured', async () => {
+    const upstream = stubUpstream();
+    const handler = proxyHandler({});
+    expect((await send(handler, { remoteAddress: '203.0.113.7' })).status).toBe(403);
+    expect((await send(handler, { headers: { 'x-forwarded-for': '203.0.113.7' } })).status).toBe(403);
+    expect(upstream).not.toHaveBeenCalled();
+  });
+
+  it('serves this machine without a token, with the configured model and whitelisted fields', async () => {
+    const upstream = stubUpstream();
+    const response = await send(proxyHandler({ LLM_PROXY_MODEL: 'configured-model' }), { remoteAddress: '::ffff:127.0.0.1' });
+    expect(response.status).toBe(200);
+    const [url, init] = upstream.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://generativelanguage.googleapis.com/v1beta/openai/chat/completions');
+    expect(JSON.parse(init.body as string)).toEqual({ model: 'configured-model', messages: COMPLETION.messages });
+  });
+
+  it('requires the token from every client once one is configured', async () => {
+    stubUpstream();
+    const handler = proxyHandler({ LLM_PROXY_TOKEN: 'secret-token' });
+    expect((await send(handler)).status).toBe(401);
+    expect((await send(handler, { remoteAddress: '203.0.113.7', headers: { authorization: 'Bearer wrong-token!' } })).status).toBe(401);
+    expect((await send(handler, { remoteAddress: '203.0.113.7', headers: { authorization: 'Bearer secret-token' } })).status).toBe(200);
+  });
+});
@@ -0,0 +1,165 @@
+import { timingSafeEqual } from 'crypto';
+import type { Connect, Plugin } from 'vite';
+
+// Must match LLM_PROXY_BASE_URL in services/llmProviders.ts (without the /v1 suffix)
+const PROXY_PATH = '/api/llm';
+
+// Gemini's OpenAI-compatible endpoint; any other chat completions server works too
+const DEFAULT_UPSTREAM = 'https://generativelanguage.googleapis.com/v1beta/openai';
+
+// Must match GEMINI_CHAT_MODEL in services/llmProviders.ts
+const DEFAULT_MODEL = 'gemini-3-pro-preview';
+
+// Conversations with tool results stay well below these
+const MAX_BODY_BYTES = 2 * 1024 * 1024;
+const MAX_MESSAGES = 200;
+const MAX_TOOLS = 64;
+const MESSAGE_ROLES = ['system', 'user', 'assistant', 'tool'];
+
+const DEFAULT_RATE_LIMIT = 20; // requests per client IP and window
+const RATE_WINDOW_MS = 60 * 1000;
+
+const readBody = (req: Connect.IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large.'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+const sendError = (res: import('http').ServerResponse, status: number, message: string) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify({ error: { message } }));
+};
+
+const tokenMatches = (header: string | undefined, token: string) => {
+  const given = Buffer.from(header?.replace(/^Bearer\s+/i, '') || '');
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+// Fixed-window counter per client; expired windows are dropped as new clients arrive
+const createRateLimiter = (limit: number) => {
+  const windows = new Map<string, { start: number; count: number }>();
+  return (client: string, now: number = Date.now()): boolean => {
+    const current = windows.get(client);
+    if (!current || now - current.start >= RATE_WINDOW_MS) {
+      windows.forEach((window, key) => { if (now - window.start >= RATE_WINDOW_MS) windows.delete(key); });
+      windows.set(client, { start: now, count: 1 });
+      return true;
+    }
+    current.count++;
+    return current.count <= limit;
+  };
+};
+
+const LOOPBACK_ADDRESS = /^(127\.\d+\.\d+\.\d+|::1|::ffff:127\.\d+\.\d+\.\d+)$/;
+
+// Without a token the proxy only serves this machine: a loopback socket that no proxy forwarded.
+// The servers listen on 0.0.0.0, so anything else may come from the network.
+const isLocalRequest = (req: Connect.IncomingMessage) =>
+  LOOPBACK_ADDRESS.test(req.socket.remoteAddress || '') && !req.headers['x-forwarded-for'] && !req.headers.forwarded;
+
+// Behind a reverse proxy (e.g. Hugging Face Spaces) the socket address is the proxy's; the
+// last X-Forwarded-For entry is the one that proxy added, so only that one is trusted
+const clientAddress = (req: Connect.IncomingMessage, trustProxy: boolean) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const entries = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded || '').split(',').map(entry => entry.trim()).filter(Boolean);
+  return (trustProxy && entries[entries.length - 1]) || req.socket.remoteAddress || 'unknown';
+};
+
+/**
+ * Keeps only the fields a chat completion needs, so clients cannot switch on streaming,
+ * raise token limits or pass other upstream options. Returns an error message when the
+ * body is not a chat completion request.
+ */
+const sanitizeBody = (body: any): { model?: unknown; messages: unknown[]; tools?: unknown[] } | string => {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return 'Expected a JSON object.';
+  const { model, messages, tools } = body;
+  if (!Array.isArray(messages) || messages.length === 0) return '"messages" must be a non-empty array.';
+  if (messages.length > MAX_MESSAGES) return `At most ${MAX_MESSAGES} messages are accepted.`;
+  if (messages.some((message: any) => !message || typeof message !== 'object' || !MESSAGE_ROLES.includes(message.role))) {
+    return 'Every message needs a role of system, user, assistant or tool.';
+  }
+  if (tools !== undefined && (!Array.isArray(tools) || tools.length > MAX_TOOLS)) return `"tools" must be an array of at most ${MAX_TOOLS} tools.`;
+  return { model, messages, ...(tools ? { tools } : {}) };
+};
+
+/**
+ * Forwards OpenAI-style chat completion requests to the upstream model and adds the API
+ * key on the server, so the browser bundle never contains it. Configured from the env:
+ * - LLM_PROXY_UPSTREAM (base URL) and LLM_PROXY_API_KEY (falls back to GEMINI_API_KEY / API_KEY)
+ * - LLM_PROXY_MODEL, the model every request uses; LLM_PROXY_ALLOWED_MODELS (comma-separated)
+ *   lists other models clients may ask for
+ * - LLM_PROXY_TOKEN, a shared token clients must send as a bearer token. Without it the
+ *   proxy refuses every request that does not come from this machine
+ * - LLM_PROXY_RATE_LIMIT, requests per client IP and minute, and LLM_PROXY_TRUST_PROXY=1
+ *   to take the client IP from X-Forwarded-For behind a reverse proxy
+ */
+export const llmProxyPlugin = (env: Record<string, string>): Plugin => {
+  const upstream = (env.LLM_PROXY_UPSTREAM || DEFAULT_UPSTREAM).replace(/\/+$/, '');
+  const apiKey = env.LLM_PROXY_API_KEY || env.GEMINI_API_KEY || env.API_KEY;
+  const model = env.LLM_PROXY_MODEL || DEFAULT_MODEL;
+  const allowedModels = new Set([model, ...(env.LLM_PROXY_ALLOWED_MODELS || '').split(',').map(entry => entry.trim()).filter(Boolean)]);
+  const token = env.LLM_PROXY_TOKEN;
+  const trustProxy = env.LLM_PROXY_TRUST_PROXY === '1';
+  const allowRequest = createRateLimiter(Number(env.LLM_PROXY_RATE_LIMIT) || DEFAULT_RATE_LIMIT);
+
+  const handler: Connect.NextHandleFunction = async (req, res, next) => {
+    // Mounted under PROXY_PATH, so req.url is the rest of the path plus any query string
+    if ((req.url || '').split('?')[0] !== '/v1/chat/completions') return next();
+    if (req.method !== 'POST') return sendError(res, 405, 'Use POST.');
+    // Counted before the token check, so the limit also slows down token guessing
+    if (!allowRequest(clientAddress(req, trustProxy))) {
+      res.setHeader('Retry-After', String(RATE_WINDOW_MS / 1000));
+      return sendError(res, 429, 'Too many assistant requests. Wait a minute and try again.');
+    }
+    if (token && !tokenMatches(req.headers.authorization, token)) {
+      return sendError(res, 401, 'The assistant proxy needs an access token. Enter it in the assistant settings.');
+    }
+    if (!token && !isLocalRequest(req)) {
+      return sendError(res, 403, 'The assistant proxy only answers requests from this machine until LLM_PROXY_TOKEN is set on the server.');
+    }
+    if (!apiKey && upstream === DEFAULT_UPSTREAM) {
+      return sendError(res, 503, 'The assistant proxy has no API key. Set GEMINI_API_KEY (or LLM_PROXY_API_KEY) on the server.');
+    }
+
+    let request: ReturnType<typeof sanitizeBody>;
+    try {
+      request = sanitizeBody(JSON.parse(await readBody(req)));
+    } catch (error: any) {
+      return sendError(res, 400, error instanceof SyntaxError ? 'The request body is not valid JSON.' : error.message);
+    }
+    if (typeof request === 'string') return sendError(res, 400, request);
+    const body = { ...request, model: typeof request.model === 'string' && allowedModels.has(request.model) ? request.model : model };
+
+    try {
+      const response = await fetch(`${upstream}/chat/completions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+        body: JSON.stringify(body)
+      });
+      res.statusCode = response.status;
+      res.setHeader('Content-Type', response.headers.get('content-type') || 'application/json');
+      res.end(await response.text());
+    } catch (error: any) {
+      sendError(res, 502, `The assistant proxy could not reach the model: ${error.message || error}`);
+    }
+  };
+
+  return {
+    name: 'llm-proxy',
+    configureServer: server => { server.middlewares.use(PROXY_PATH, handler); },
+    configurePreviewServer: server => { server.middlewares.use(PROXY_PATH, handler); }
+  };
+};
@@ -0,0 +1,184 @@
+import { OrcidProfileData, OrcidWork } from '../types';
+import { deduplicateWorks } from './dedupService';
+import { downloadFile } from './downloadService';
+import { toCsv } from './exportService';
+
+export type AuditSeverity = 'high' | 'medium' | 'low';
+
+export type AuditCheck =
+  | 'empty-record'
+  | 'private-name'
+  | 'no-employment'
+  | 'no-recent-activity'
+  | 'untitled'
+  | 'missing-year'
+  | 'missing-doi'
+  | 'missing-journal'
+  | 'duplicates'
+  | 'conflicting-metadata';
+
+export interface AuditIssue {
+  check: AuditCheck;
+  label: string;
+  severity: AuditSeverity;
+  affected: number; // works affected, or 1 for record-level checks
+  action: string; // what the researcher should do
+  examples: string[]; // a few affected work titles
+}
+
+export interface ProfileAudit {
+  orcidId: string;
+  fullName: string;
+  score: number; // 0-100, 100 = nothing to fix
+  works: number;
+  latestYear: number | null;
+  issues: AuditIssue[];
+}
+
+// A record with no works dated in the last three years counts as inactive
+const RECENT_YEARS = 3;
+const MAX_EXAMPLES = 3;
+
+const SEVERITY_WEIGHT: Record<AuditSeverity, number> = { high: 30, medium: 15, low: 5 };
+const SEVERITY_ORDER: Record<AuditSeverity, number> = { high: 0, medium: 1, low: 2 };
+
+interface WorkCheck {
+  check: AuditCheck;
+  label: string;
+  severity: AuditSeverity;
+  action: string;
+  test: (work: OrcidWork) => boolean;
+}
+
+const WORK_CHECKS: WorkCheck[] = [
+  {
+    check: 'untitled',
+    label: 'Works without a title',
+    severity: 'medium',
+    action: 'Add the title to these works or delete the placeholder entries.',
+    test: work => work.title === 'Untitled' || !work.title.trim()
+  },
+  {
+    check: 'missing-year',
+    label: 'Works without a publication year',
+    severity: 'medium',
+    action: 'Add the publication date; undated works are left out of yearly reports.',
+    test: work => !work.year
+  },
+  {
+    check: 'missing-doi',
+    label: 'Works without a DOI',
+    severity: 'low',
+    action: 'Add the DOI where one exists; ORCID can import it from Crossref via "Search & link".',
+    test: work => !work.doi
+  },
+  {
+    check: 'missing-journal',
+    label: 'Works without a journal or venue',
+    severity: 'low',
+    action: 'Fill in the journal or conference title so the work can be classified.',
+    test: work => !work.journal
+  },
+  {
+    check: 'conflicting-metadata',
+    label: 'Works whose sources disagree',
+    severity: 'low',
+    action: 'Check the year, DOI and type across the sources and set the preferred version in ORCID.',
+    test: work => Boolean(work.qualityFlags?.some(flag => flag.startsWith('conflicting')))
+  }
+];
+
+const RECORD_CHECKS: AuditCheck[] = ['empty-record', 'private-name', 'no-employment', 'no-recent-activity'];
+
+const recordIssue = (check: AuditCheck, label: string, severity: AuditSeverity, action: string): AuditIssue =>
+  ({ check, label, severity, affected: 1, action, examples: [] });
+
+export const auditProfile = (profile: OrcidProfileData, currentYear: number = new Date().getFullYear()): ProfileAudit => {
+  const issues: AuditIssue[] = [];
+  const years = profile.works.map(work => work.year).filter((year): year is number => year !== null);
+  const latestYear = years.length > 0 ? Math.max(...years) : null;
+
+  if (profile.works.length === 0) {
+    issues.push(recordIssue('empty-record', 'No public works', 'high',
+      'Add works to the ORCID record or change their visibility to public.'));
+  }
+  // The name is private when ORCID returns no name parts; demo profiles have none either
+  if (profile.source !== 'demo' && !profile.givenNames && !profile.familyName) {
+    issues.push(recordIssue('private-name', 'Name is private or missing', 'high',
+      'Make the name on the ORCID record public so the record can be identified.'));
+  }
+  if (profile.source !== 'demo' && profile.employments.length === 0) {
+    issues.push(recordIssue('no-employment', 'No public employment', 'medium',
+      'Add the current position to the Employment section (or link it from the institution).'));
+  }
+  if (profile.works.length > 0 && (latestYear === null || latestYear <= currentYear - RECENT_YEARS)) {
+    issues.push(recordIssue('no-recent-activity', `No works from the last ${RECENT_YEARS} years`, 'medium',
+      'Add recent publications; the record may not have been updated for a while.'));
+  }
+
+  WORK_CHECKS.forEach(check => {
+    const affected = profile.works.filter(check.test);
+    if (affected.length === 0) return;
+    issues.push({
+      check: check.check,
+      label: check.label,
+      severity: check.severity,
+      affected: affected.length,
+      action: check.action,
+      examples: affected.slice(0, MAX_EXAMPLES).map(work => work.title)
+    });
+  });
+
+  // The same publication entered twice within one record (different groups in ORCID)
+  const unique = deduplicateWorks([profile]);
+  const duplicateCount = profile.works.length - unique.length;
+  if (duplicateCount > 0) {
+    issues.push({
+      check: 'duplicates',
+      label: 'Duplicate works',
+      severity: 'medium',
+      affected: duplicateCount,
+      action: 'Combine the duplicate entries using "Combine works" in ORCID.',
+      // Within a single profile every merged cluster is a duplicate
+      examples: unique.filter(u => u.matchedBy !== 'single').slice(0, MAX_EXAMPLES).map(u => u.work.title)
+    });
+  }
+
+  // Work-level issues weigh in proportion to the share of works affected
+  const total = Math.max(profile.works.length, 1);
+  const penalty = issues.reduce((sum, issue) => {
+    const share = RECORD_CHECKS.includes(issue.check) ? 1 : Math.min(issue.affected / total, 1);
+    return sum + SEVERITY_WEIGHT[issue.severity] * share;
+  }, 0);
+
+  issues.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || b.affected - a.affected);
+
+  return {
+    orcidId: profile.orcidId,
+    fullName: profile.fullName,
+    score: Math.max(0, Math.round(100 - penalty)),
+    works: profile.works.length,
+    latestYear,
+    issues
+  };
+};
+
+// Lowest scores first: the records that need the most attention
+export const auditProfiles = (profiles: OrcidProfileData[]): ProfileAudit[] =>
+  profiles.map(profile => auditProfile(profile)).sort((a, b) => a.score - b.score);
+
+export const exportRemediationList = (audits: ProfileAudit[]) => {
+  const rows = audits.flatMap(audit => audit.issues.map(issue => ({
+    'ORCID iD': audit.orcidId,
+    'Name': audit.fullName,
+    'Record Score': audit.score,
+    'Severity': issue.severity,
+    'Issue': issue.label,
+    'Affected': issue.affected,
+    'Action': issue.action,
+    'Examples': issue.examples.join(' | '),
+    'ORCID Record': `https://orcid.org/${audit.orcidId}`
+  })));
+  // Leading BOM so Excel opens non-ASCII names correctly
+  downloadFile('\uFEFF' + toCsv(rows), `orcid-remediation-${new Date().toISOString().slice(0, 10)}.csv`, 'text/csv');
+};
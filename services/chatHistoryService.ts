@@ -0,0 +1,73 @@
+import { ChatChart, ChatThread } from '../types';
+import { CHAT_THREADS_STORE, runRequest } from './localDb';
+import { formatToolCall } from './chatTools';
+import { downloadFile } from './downloadService';
+
+export const DEFAULT_THREAD_NAME = 'New conversation';
+
+const THREAD_NAME_LENGTH = 48;
+
+export const createThread = (analysisId: string | null): ChatThread => ({
+  id: `thread-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+  name: DEFAULT_THREAD_NAME,
+  analysisId,
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+  messages: []
+});
+
+// Untitled threads are named after their first question
+export const nameFromMessage = (text: string) => {
+  const line = text.trim().split('\n')[0];
+  return line.length > THREAD_NAME_LENGTH ? `${line.slice(0, THREAD_NAME_LENGTH - 1)}…` : line;
+};
+
+// Most recently used first
+export const listChatThreads = async (): Promise<ChatThread[]> => {
+  try {
+    const threads = await runRequest<ChatThread[]>(CHAT_THREADS_STORE, 'readonly', store => store.getAll());
+    return threads.sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (error) {
+    console.warn(`Could not read saved conversations: ${error}`);
+    return [];
+  }
+};
+
+export const saveChatThread = async (thread: ChatThread): Promise<void> => {
+  // Placeholders for unfinished replies are not worth restoring
+  const messages = thread.messages.filter(message => !message.isThinking);
+  await runRequest(CHAT_THREADS_STORE, 'readwrite', store => store.put({ ...thread, messages }));
+};
+
+export const deleteChatThread = async (id: string): Promise<void> => {
+  await runRequest(CHAT_THREADS_STORE, 'readwrite', store => store.delete(id));
+};
+
+const chartToMarkdown = (chart: ChatChart) => [
+  `**${chart.title}**`,
+  '',
+  `| ${[chart.xLabel, ...chart.series].join(' | ')} |`,
+  `| ${[chart.xLabel, ...chart.series].map(() => '---').join(' | ')} |`,
+  ...chart.data.map(row => `| ${[row.x, ...chart.series.map(series => row[series])].join(' | ')} |`)
+].join('\n');
+
+export const threadToMarkdown = (thread: ChatThread): string => {
+  const lines = [`# ${thread.name}`, '', `_Exported ${new Date().toLocaleString()}_`, ''];
+  thread.messages.forEach(message => {
+    lines.push(`### ${message.role === 'user' ? 'You' : 'Assistant'} (${new Date(message.timestamp).toLocaleString()})`, '');
+    (message.toolCalls || []).forEach(call => {
+      lines.push(`> Queried \`${formatToolCall(call)}\`${call.error ? ` (failed: ${call.error})` : ''}`);
+    });
+    if (message.toolCalls?.length) lines.push('');
+    (message.toolCalls || []).forEach(call => {
+      if (call.action?.type === 'add-chart') lines.push(chartToMarkdown(call.action.chart), '');
+    });
+    if (message.text) lines.push(message.text, '');
+  });
+  return lines.join('\n');
+};
+
+export const exportThreadMarkdown = (thread: ChatThread) => {
+  const slug = thread.name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'conversation';
+  downloadFile(threadToMarkdown(thread), `chat-${slug}.md`, 'text/markdown');
+};
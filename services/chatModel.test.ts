@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisFilters, ChatMessage } from '../types';
+import { ChatHistoryEntry, ChatModelAdapter, createMockAdapter, historyFromMessages, runChatTurn } from './chatModel';
+import { CHAT_TOOLS, executeChatTool } from './chatTools';
+import { EMPTY_FILTERS, applyFilters } from './filterService';
+import { computeStats } from './statsService';
+import { sampleProfiles } from './fixtures/profiles';
+
+const message = (role: ChatMessage['role'], text: string, isThinking = false): ChatMessage =>
+  ({ id: `${role}-${text}`, role, text, timestamp: new Date(0), isThinking });
+
+describe('mock adapter', () => {
+  const profiles = sampleProfiles();
+  const stats = computeStats(profiles)!;
+  const ask = (text: string) => runChatTurn(
+    createMockAdapter().startSession('', CHAT_TOOLS, []),
+    text,
+    (name, args) => executeChatTool(name, args, { stats, profiles })
+  );
+
+  it.each([
+    ['How many works were published in 2021?', 'count_works', 'Found 1 matching work.'],
+    ['Who is 0000-0003-1584-6722?', 'get_researcher', 'Olena Melnyk (0000-0003-1584-6722) has 2 works and is affiliated with Ceramic Engineering, Brown University.'],
+    ['Give me an overview', 'get_overview', '2 researchers with 4 unique publications.'],
+    ['Open 0000-0002-1825-0097', 'open_researcher', 'Opened the profile of Josiah Carberry.']
+  ])('answers "%s" through %s', async (question, tool, answer) => {
+    const reply = await ask(question);
+    expect(reply.toolCalls.map(call => call.name)).toEqual([tool]);
+    expect(reply.text).toBe(answer);
+  });
+
+  it('renders list, comparison and topic results', async () => {
+    expect((await ask('List works without DOI')).text).toBe([
+      'Showing 2 of 2 matching works:',
+      '- Porcelain fatigue (2023)',
+      '- Kiln temperatures in practice (2022)'
+    ].join('\n'));
+    expect((await ask('Compare by Department')).text).toContain('| Psychoceramics | 1 | 3 | 3 |');
+    expect((await ask('What are the research topics?')).text).toMatch(/^\*\*Research topics\*\*/);
+  });
+
+  it('reports tool errors in the answer', async () => {
+    expect((await ask('Who is 0000-0001-6502-3615?')).text).toBe('The query failed: No researcher in the batch matches "0000-0001-6502-3615".');
+  });
+});
+
+describe('historyFromMessages', () => {
+  it('leaves out the placeholder of a reply that is still arriving', () => {
+    expect(historyFromMessages([message('user', 'How many works?'), message('model', '', true)]))
+      .toEqual([{ role: 'user', text: 'How many works?' }]);
+  });
+});
+
+describe('a turn whose tool call changes the filters', () => {
+  it('seeds the next session with the finished turn and the new data', async () => {
+    const profiles = sampleProfiles();
+    const sessions: { systemInstruction: string; history: ChatHistoryEntry[] }[] = [];
+    const mock = createMockAdapter();
+    const adapter: ChatModelAdapter = {
+      label: mock.label,
+      startSession: (systemInstruction, tools, history) => {
+        sessions.push({ systemInstruction, history });
+        return mock.startSession(systemInstruction, tools, history);
+      }
+    };
+
+    // What the chat window does per question, with App applying the filter actions
+    let filters: AnalysisFilters = EMPTY_FILTERS;
+    let thread: ChatMessage[] = [];
+    const ask = async (text: string) => {
+      const stats = computeStats(applyFilters(profiles, filters))!;
+      const session = adapter.startSession(`Works in view: ${stats.uniquePublications}`, CHAT_TOOLS, historyFromMessages(thread));
+      thread = [...thread, message('user', text), message('model', '', true)];
+      const reply = await runChatTurn(session, text, (name, args) => {
+        const call = executeChatTool(name, args, { stats, profiles });
+        if (call.action?.type === 'apply-filters') filters = call.action.filters;
+        return call;
+      });
+      thread = [...thread.slice(0, -1), message('model', reply.text)];
+      return reply;
+    };
+
+    const first = await ask('Filter to 2021 to 2023 only');
+    expect(first.toolCalls.map(call => call.name)).toEqual(['apply_filters']);
+    expect(filters.yearFrom).toBe(2021);
+
+    await ask('How many works are there?');
+    expect(sessions).toHaveLength(2);
+    expect(sessions[0].systemInstruction).toBe('Works in view: 4');
+    expect(sessions[1].systemInstruction).toBe('Works in view: 3');
+    expect(sessions[1].history).toEqual([
+      { role: 'user', text: 'Filter to 2021 to 2023 only' },
+      { role: 'model', text: 'Updated the dashboard filters.' }
+    ]);
+  });
+});
@@ -0,0 +1,185 @@
+import { ChatMessage, ChatToolCall } from '../types';
+import { ChatToolDefinition, asTypedToolCall } from './chatTools';
+
+export interface ChatModelToolRequest {
+  id?: string; // provider call id, echoed back with the result
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ChatModelReply {
+  text: string;
+  toolCalls: ChatModelToolRequest[];
+}
+
+export type ChatToolResult = ChatToolCall & { id?: string };
+
+// Earlier turns of a conversation, replayed when a session is recreated
+export interface ChatHistoryEntry {
+  role: 'user' | 'model';
+  text: string;
+}
+
+// Messages of a thread as session history; placeholders for replies still arriving are left out
+export const historyFromMessages = (messages: ChatMessage[]): ChatHistoryEntry[] =>
+  messages
+    .filter(msg => !msg.isThinking && msg.text)
+    .map(msg => ({ role: msg.role, text: msg.text }));
+
+export interface ChatModelSession {
+  send: (message: string) => Promise<ChatModelReply>;
+  sendToolResults: (results: ChatToolResult[]) => Promise<ChatModelReply>;
+}
+
+/**
+ * A chat model that can call tools. Sessions keep their own history, so the caller
+ * only passes the new user message or the results of the tools the model asked for.
+ * `history` seeds a new session with an earlier conversation.
+ */
+export interface ChatModelAdapter {
+  label: string;
+  startSession: (systemInstruction: string, tools: ChatToolDefinition[], history: ChatHistoryEntry[]) => ChatModelSession;
+}
+
+// Stops a model that keeps asking for data instead of answering
+const MAX_TOOL_ROUNDS = 5;
+
+const TYPE_KEYWORDS = ['conference', 'journal article', 'article', 'book chapter', 'chapter', 'book', 'preprint', 'dataset', 'thesis', 'patent'];
+
+// Picks one tool call from keywords in the question; good enough to exercise the tools offline
+const planMockToolCall = (message: string): ChatModelToolRequest => {
+  const text = message.toLowerCase();
+  const args: Record<string, unknown> = {};
+  const orcidId = message.match(/\d{4}-\d{4}-\d{4}-\d{3}[\dX]/i)?.[0];
+  if (orcidId) args.researcher = orcidId.toUpperCase();
+  const years = (message.match(/\b(19|20)\d{2}\b/g) || []).map(year => parseInt(year, 10)).sort((a, b) => a - b);
+  if (years.length > 0) {
+    args.yearFrom = years[0];
+    args.yearTo = years[years.length - 1];
+  }
+  const type = TYPE_KEYWORDS.find(keyword => text.includes(keyword));
+  if (type) args.type = type;
+  if (/\bwithout (a )?doi\b/.test(text)) args.hasDoi = false;
+
+  if (/\b(chart|plot|graph)\b/.test(text)) {
+    const top = message.match(/\btop (\d+)\b/i)?.[1];
+    return {
+      name: 'add_chart',
+      args: {
+        ...args,
+        title: message.replace(/^(please )?(show|plot|draw|make|add)( me)?( a chart of)? /i, '').replace(/[?.!]+$/, '').replace(/ as a (bar |line )?(chart|plot|graph)$/i, ''),
+        xAxis: /\bper (type|category)\b|\bby (type|category)\b/.test(text) ? 'category' : 'year',
+        ...(/\bresearchers?\b/.test(text) ? { seriesBy: 'researcher' } : {}),
+        ...(top ? { top: parseInt(top, 10) } : {}),
+        chartType: /\bline\b|\btrend\b/.test(text) ? 'line' : 'bar'
+      }
+    };
+  }
+  if (/\b(filter|only show|restrict|clear filters)\b/.test(text)) {
+    return {
+      name: 'apply_filters',
+      args: {
+        yearFrom: args.yearFrom,
+        yearTo: args.yearTo,
+        types: type ? [type] : [],
+        researchers: orcidId ? [args.researcher] : [],
+        hasDoi: args.hasDoi
+      }
+    };
+  }
+  if (orcidId && /\b(open|show profile)\b/.test(text)) {
+    return { name: 'open_researcher', args: { researcher: args.researcher } };
+  }
+  if (/\b(compare|comparison|by department|by faculty|groups?)\b/.test(text)) {
+    const dimension = message.match(/\bby ([\w ()]+?)[?.!]*$/i)?.[1];
+    return { name: 'compare_groups', args: { dimension: dimension || 'Department (ORCID)' } };
+  }
+  if (/\b(topics?|themes?|research directions?|keyphrases?)\b/.test(text)) {
+    return { name: 'get_topics', args: orcidId ? { researcher: args.researcher } : {} };
+  }
+  if (orcidId && /\b(who is|profile|about|details)\b/.test(text)) {
+    return { name: 'get_researcher', args: { researcher: args.researcher } };
+  }
+  if (/\b(how many|count|number of)\b/.test(text)) return { name: 'count_works', args };
+  if (/\b(list|show|which|what are)\b/.test(text)) return { name: 'list_works', args: { ...args, limit: 10 } };
+  return { name: 'get_overview', args: {} };
+};
+
+const describeMockResult = (result: ChatToolResult): string => {
+  if (result.error) return `The query failed: ${result.error}`;
+  const call = asTypedToolCall(result);
+  if (!call) return `Unknown tool "${result.name}".`;
+  switch (call.name) {
+    case 'count_works':
+      return `Found ${call.result.count} matching ${call.result.count === 1 ? 'work' : 'works'}.`;
+    case 'list_works':
+      return [
+        `Showing ${call.result.returned} of ${call.result.total} matching works:`,
+        ...call.result.works.map(work => `- ${work.title} (${work.year ?? 'n.d.'})`)
+      ].join('\n');
+    case 'get_researcher': {
+      const data = call.result;
+      return 'candidates' in data
+        ? `Several researchers match: ${data.candidates.map(c => `${c.name} (${c.orcidId})`).join(', ')}.`
+        : `${data.name} (${data.orcidId}) has ${data.works} works${data.affiliation ? ` and is affiliated with ${data.affiliation}` : ''}.`;
+    }
+    case 'compare_groups':
+      return [
+        `**Groups by ${call.result.dimension}**`,
+        '',
+        '| Group | Researchers | Publications | Per researcher |',
+        '| --- | --- | --- | --- |',
+        ...call.result.groups.map(group => `| ${group.group} | ${group.researchers} | ${group.uniquePublications} | ${group.perCapita} |`)
+      ].join('\n');
+    case 'get_topics': {
+      const { researcher, topics } = call.result;
+      return [
+        researcher ? `**Topics of ${researcher.name}**` : '**Research topics**',
+        '',
+        ...(researcher ? researcher.topics : topics).map(topic => `- ${topic.topic} (${topic.works} works)`)
+      ].join('\n');
+    }
+    case 'add_chart':
+      return `Added the chart **${call.result.added}** to the dashboard.`;
+    case 'apply_filters':
+      return 'Updated the dashboard filters.';
+    case 'open_researcher':
+      return `Opened the profile of ${call.result.opened}.`;
+    case 'get_overview':
+      return `${call.result.researchers} researchers with ${call.result.uniquePublications} unique publications.`;
+  }
+};
+
+/**
+ * Deterministic stand-in for a real model: one keyword-planned tool call per question,
+ * then a templated answer from the tool result. For tests and demos without a model.
+ */
+export const createMockAdapter = (): ChatModelAdapter => ({
+  label: 'Offline stub',
+  startSession: () => ({
+    send: async message => ({ text: '', toolCalls: [planMockToolCall(message)] }),
+    sendToolResults: async results => ({ text: results.map(describeMockResult).join('\n\n'), toolCalls: [] })
+  })
+});
+
+/**
+ * Sends a user message and runs the tool calls the model asks for until it answers.
+ * `onToolCalls` receives the calls made so far, so the UI can show them as they happen.
+ */
+export const runChatTurn = async (
+  session: ChatModelSession,
+  message: string,
+  executeTool: (name: string, args: Record<string, unknown>) => ChatToolCall,
+  onToolCalls?: (calls: ChatToolCall[]) => void
+): Promise<{ text: string; toolCalls: ChatToolCall[] }> => {
+  const calls: ChatToolCall[] = [];
+  let reply = await session.send(message);
+  for (let round = 0; reply.toolCalls.length > 0; round++) {
+    if (round >= MAX_TOOL_ROUNDS) throw new Error('The assistant ran too many data queries without answering.');
+    const results: ChatToolResult[] = reply.toolCalls.map(request => ({ ...executeTool(request.name, request.args), id: request.id }));
+    calls.push(...results.map(({ id, ...call }) => call));
+    onToolCalls?.([...calls]);
+    reply = await session.sendToolResults(results);
+  }
+  return { text: reply.text, toolCalls: calls };
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisStats } from '../types';
+import { ChatToolName, ChatToolResults, asTypedToolCall, executeChatTool } from './chatTools';
+import { computeStats } from './statsService';
+import { sampleProfiles } from './fixtures/profiles';
+
+const profiles = sampleProfiles();
+const stats = computeStats(profiles) as AnalysisStats;
+
+const run = <K extends ChatToolName>(name: K, args: Record<string, unknown> = {}): ChatToolResults[K] => {
+  const call = executeChatTool(name, args, { stats, profiles });
+  expect(call.error).toBeUndefined();
+  return call.result as ChatToolResults[K];
+};
+
+describe('chat tools', () => {
+  it('get_overview counts co-authored works once', () => {
+    const overview = run('get_overview');
+    expect(overview).toMatchObject({ researchers: 2, uniquePublications: 4, attributedPublications: 5, totalCitations: null });
+    expect(overview.groupingDimensions).toContain('Department');
+  });
+
+  it('count_works applies year and type filters', () => {
+    expect(run('count_works', { yearFrom: 2021 })).toEqual({
+      count: 3,
+      byYear: { '2021': 1, '2022': 1, '2023': 1 },
+      byCategory: { 'Journal article': 2, 'Conference paper': 1 }
+    });
+    expect(run('count_works', { type: 'conference' }).count).toBe(1);
+    expect(run('count_works', { hasDoi: false }).count).toBe(2);
+  });
+
+  it('list_works lists the newest first with batch authors', () => {
+    const listed = run('list_works', { researcher: 'Carberry', limit: 2 });
+    expect(listed.total).toBe(3);
+    expect(listed.works.map(work => work.title)).toEqual(['Kiln temperatures in practice', 'Glazing under pressure']);
+    expect(listed.works[1].authors).toEqual(['Josiah Carberry', 'Olena Melnyk']);
+  });
+
+  it('get_researcher resolves iDs and names', () => {
+    const researcher = run('get_researcher', { researcher: '0000-0003-1584-6722' });
+    expect(researcher).toMatchObject({ name: 'Olena Melnyk', affiliation: 'Ceramic Engineering, Brown University', works: 2 });
+    expect(executeChatTool('get_researcher', { researcher: 'Nobody' }, { stats, profiles }).error).toMatch(/No researcher/);
+  });
+
+  it('compare_groups compares the imported departments', () => {
+    const comparison = run('compare_groups', { dimension: 'department' });
+    expect(comparison.dimension).toBe('Department');
+    expect(comparison.groups.map(group => [group.group, group.uniquePublications]).sort()).toEqual([
+      ['Ceramic Engineering', 2],
+      ['Psychoceramics', 3]
+    ]);
+  });
+
+  it('get_topics returns a topic profile for one researcher', () => {
+    const topics = run('get_topics', { researcher: 'Melnyk' });
+    expect(topics.researcher?.name).toBe('Olena Melnyk');
+    expect(topics.topics.reduce((sum, topic) => sum + topic.works, 0) + topics.unassignedWorks).toBe(4);
+  });
+
+  it('apply_filters resolves partial names into a dashboard action', () => {
+    const call = executeChatTool('apply_filters', { yearFrom: 2021, journals: ['psychoceramics'], researchers: ['Melnyk'] }, { stats, profiles });
+    expect(call.action).toEqual({
+      type: 'apply-filters',
+      filters: expect.objectContaining({ yearFrom: 2021, journals: ['Journal of Psychoceramics'], researchers: ['0000-0003-1584-6722'] })
+    });
+  });
+
+  it('open_researcher asks App to open one profile', () => {
+    const call = executeChatTool('open_researcher', { researcher: 'Carberry' }, { stats, profiles });
+    expect(call.action).toEqual({ type: 'open-researcher', orcidId: '0000-0002-1825-0097' });
+  });
+
+  it('add_chart counts each co-author on researcher series', () => {
+    const chart = run('add_chart', { title: 'Works per year', seriesBy: 'researcher' });
+    expect(chart.series).toEqual(['Josiah Carberry', 'Olena Melnyk']);
+    expect(chart.data.find(row => row.x === '2021')).toEqual({ x: '2021', 'Josiah Carberry': 1, 'Olena Melnyk': 1 });
+  });
+
+  it('returns errors to the model instead of throwing', () => {
+    const call = executeChatTool('drop_tables', {}, { stats, profiles });
+    expect(call.error).toBe('Unknown tool "drop_tables".');
+    expect(asTypedToolCall(call)).toBeNull();
+  });
+});
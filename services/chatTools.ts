@@ -0,0 +1,517 @@
+import { AnalysisFilters, AnalysisStats, ChatAction, ChatChart, ChatToolCall, OrcidProfileData, OrcidWork, UniqueWork } from '../types';
+import { EMPTY_FILTERS, getFilterOptions } from './filterService';
+import { computeGroupStats, getGroupingDimensions, primaryEmployment } from './statsService';
+import { formatOrcidType, getWorkCategory } from './taxonomyService';
+import { extractTopics } from './topicService';
+
+// Provider-neutral tool description; `parameters` is a JSON Schema object
+export interface ChatToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+/**
+ * What the tools can see: the stats for the filtered dashboard view, plus the unfiltered
+ * profiles so filter values and researchers outside the current view can be resolved.
+ */
+export interface ChatToolContext {
+  stats: AnalysisStats;
+  profiles: OrcidProfileData[];
+}
+
+export interface ChatWorkSummary {
+  title: string;
+  year: number | null;
+  category: string;
+  journal: string | null;
+  doi: string | null;
+  authors: string[]; // batch members, by name
+}
+
+// What each tool returns to the model when it succeeds
+export interface ChatToolResults {
+  get_overview: {
+    researchers: number;
+    uniquePublications: number;
+    attributedPublications: number;
+    publicationsByYear: { year: number; count: number }[];
+    publicationsByCategory: { type: string; count: number }[];
+    totalCitations: number | null; // null until citations are loaded
+    medianHIndex: number | null;
+    groupingDimensions: string[];
+  };
+  count_works: { count: number; byYear: Record<string, number>; byCategory: Record<string, number> };
+  list_works: { total: number; returned: number; works: ChatWorkSummary[] };
+  get_researcher:
+    | { ambiguous: true; candidates: { orcidId: string; name: string }[] }
+    | {
+        orcidId: string;
+        name: string;
+        affiliation: string | null;
+        attributes: Record<string, string>;
+        keywords: string[];
+        works: number;
+        byYear: Record<string, number>;
+        byCategory: Record<string, number>;
+        citations: { total: number; hIndex: number; i10Index: number } | null;
+        recentWorks: ChatWorkSummary[];
+      };
+  compare_groups: {
+    dimension: string;
+    groups: {
+      group: string;
+      researchers: number;
+      uniquePublications: number;
+      perCapita: number;
+      perCapitaPerYear: number;
+      citations: number;
+      medianHIndex: number;
+    }[];
+  };
+  get_topics: {
+    topics: { topic: string; works: number; terms: string[]; exampleTitles: (string | undefined)[] }[];
+    unassignedWorks: number;
+    keyphrases: { term: string; works: number }[];
+    byYear: ({ year: number } & Record<string, number>)[];
+    researcher?: { name: string; works: number; topics: { topic: string; works: number }[]; topTerms: string[] };
+  };
+  apply_filters: { applied: AnalysisFilters };
+  open_researcher: { opened: string }; // researcher name
+  add_chart: { added: string; series: string[]; data: ChatChart['data'] };
+}
+
+export type ChatToolName = keyof ChatToolResults;
+
+// A successful tool call, narrowed to its result type by `name`
+export type TypedChatToolCall = { [K in ChatToolName]: { name: K; args: Record<string, unknown>; result: ChatToolResults[K] } }[ChatToolName];
+
+const MAX_LISTED_WORKS = 50;
+const DEFAULT_LISTED_WORKS = 20;
+
+const CHART_DIMENSIONS = ['year', 'category', 'journal', 'researcher'] as const;
+type ChartDimension = typeof CHART_DIMENSIONS[number];
+const DEFAULT_CHART_TOP = 5;
+const MAX_CHART_TOP = 10;
+// Categorical axes are cut to the largest values so the chart stays readable
+const MAX_CHART_CATEGORIES = 15;
+
+const TOPIC_EXAMPLE_TITLES = 3;
+const LISTED_KEYPHRASES = 15;
+
+const WORK_FILTER_PROPERTIES = {
+  researcher: {
+    type: 'string',
+    description: 'ORCID iD (0000-0000-0000-0000) or part of a researcher name. Omit for the whole batch.'
+  },
+  yearFrom: { type: 'integer', description: 'First publication year to include.' },
+  yearTo: { type: 'integer', description: 'Last publication year to include.' },
+  type: {
+    type: 'string',
+    description: 'Reporting category or ORCID work type, matched case-insensitively by substring (e.g. "conference", "journal article").'
+  },
+  journal: { type: 'string', description: 'Part of the journal or venue name.' },
+  hasDoi: { type: 'boolean', description: 'Only works with (true) or without (false) a DOI.' },
+  titleContains: { type: 'string', description: 'Word or phrase the title must contain.' }
+};
+
+export const CHAT_TOOLS: ChatToolDefinition[] = [
+  {
+    name: 'get_overview',
+    description: 'Totals for the loaded data: researchers, unique and attributed publications, publications per year and per category, citations and available grouping dimensions.',
+    parameters: { type: 'object', properties: {} }
+  },
+  {
+    name: 'count_works',
+    description: 'Counts unique works (co-authored works counted once) matching the filters, with a breakdown by year and category.',
+    parameters: { type: 'object', properties: WORK_FILTER_PROPERTIES }
+  },
+  {
+    name: 'list_works',
+    description: 'Lists works matching the filters, newest first, with year, category, journal, DOI and batch authors.',
+    parameters: {
+      type: 'object',
+      properties: {
+        ...WORK_FILTER_PROPERTIES,
+        limit: { type: 'integer', description: `Maximum number of works to return (default ${DEFAULT_LISTED_WORKS}, at most ${MAX_LISTED_WORKS}).` }
+      }
+    }
+  },
+  {
+    name: 'get_researcher',
+    description: 'Profile details for one researcher: affiliation, keywords, output by year and category, citation metrics and most recent works.',
+    parameters: {
+      type: 'object',
+      properties: { researcher: WORK_FILTER_PROPERTIES.researcher },
+      required: ['researcher']
+    }
+  },
+  {
+    name: 'compare_groups',
+    description: 'Compares groups of researchers (e.g. departments) on output, per-capita output and citations.',
+    parameters: {
+      type: 'object',
+      properties: {
+        dimension: {
+          type: 'string',
+          description: 'Grouping dimension label as returned by get_overview, e.g. "Department" or "Employer (ORCID)".'
+        }
+      },
+      required: ['dimension']
+    }
+  },
+  {
+    name: 'get_topics',
+    description: 'Research topics found by clustering the works on title, keyword and journal terms, with TF-IDF keyphrases and topic counts by year. With a researcher, also returns that researcher\'s topic profile.',
+    parameters: {
+      type: 'object',
+      properties: { researcher: WORK_FILTER_PROPERTIES.researcher }
+    }
+  },
+  {
+    name: 'apply_filters',
+    description: 'Replaces the dashboard filters. Omitted fields are cleared; call with no arguments to clear all filters.',
+    parameters: {
+      type: 'object',
+      properties: {
+        yearFrom: WORK_FILTER_PROPERTIES.yearFrom,
+        yearTo: WORK_FILTER_PROPERTIES.yearTo,
+        types: { type: 'array', items: { type: 'string' }, description: 'Reporting categories, as returned by get_overview.' },
+        journals: { type: 'array', items: { type: 'string' }, description: 'Journal names (partial names are resolved).' },
+        researchers: { type: 'array', items: { type: 'string' }, description: 'ORCID iDs or researcher names.' },
+        hasDoi: WORK_FILTER_PROPERTIES.hasDoi
+      }
+    }
+  },
+  {
+    name: 'open_researcher',
+    description: 'Opens the profile of one researcher on the dashboard.',
+    parameters: {
+      type: 'object',
+      properties: { researcher: WORK_FILTER_PROPERTIES.researcher },
+      required: ['researcher']
+    }
+  },
+  {
+    name: 'add_chart',
+    description: 'Counts works matching the filters by one dimension, optionally split into series by another, and adds the chart to the chat and the dashboard. Researcher dimensions count each co-author; the others count unique works.',
+    parameters: {
+      type: 'object',
+      properties: {
+        ...WORK_FILTER_PROPERTIES,
+        title: { type: 'string', description: 'Chart title.' },
+        xAxis: { type: 'string', enum: [...CHART_DIMENSIONS], description: 'Dimension on the x axis (default "year").' },
+        seriesBy: { type: 'string', enum: [...CHART_DIMENSIONS], description: 'Optional dimension to split the bars or lines by.' },
+        top: { type: 'integer', description: `Keep only the top N series (or x values when there are no series); default ${DEFAULT_CHART_TOP}, at most ${MAX_CHART_TOP}.` },
+        chartType: { type: 'string', enum: ['bar', 'line'], description: 'Chart type (default "bar").' }
+      },
+      required: ['title']
+    }
+  }
+];
+
+const asString = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+const asNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+const asStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(asString).filter((item): item is string => item !== undefined) : [];
+const asDimension = (value: unknown): ChartDimension | undefined =>
+  CHART_DIMENSIONS.find(dimension => dimension === value);
+
+const findResearchers = (profiles: OrcidProfileData[], query: string): OrcidProfileData[] => {
+  const needle = query.toLowerCase();
+  const byId = profiles.filter(profile => profile.orcidId === query);
+  if (byId.length > 0) return byId;
+  return profiles.filter(profile => profile.fullName.toLowerCase().includes(needle));
+};
+
+// Exact (case-insensitive) match first, otherwise every option containing the value
+const resolveOptions = (values: string[], options: string[], what: string): string[] =>
+  Array.from(new Set(values.flatMap(value => {
+    const needle = value.toLowerCase();
+    const exact = options.filter(option => option.toLowerCase() === needle);
+    const matches = exact.length > 0 ? exact : options.filter(option => option.toLowerCase().includes(needle));
+    if (matches.length === 0) throw new Error(`No ${what} matches "${value}".`);
+    return matches;
+  })));
+
+// Throws when a researcher filter is given but matches nobody, so the model can ask back
+const selectWorks = (stats: AnalysisStats, args: Record<string, unknown>): UniqueWork[] => {
+  const researcher = asString(args.researcher);
+  const yearFrom = asNumber(args.yearFrom);
+  const yearTo = asNumber(args.yearTo);
+  const type = asString(args.type)?.toLowerCase();
+  const journal = asString(args.journal)?.toLowerCase();
+  const title = asString(args.titleContains)?.toLowerCase();
+  const hasDoi = typeof args.hasDoi === 'boolean' ? args.hasDoi : undefined;
+
+  let authors: Set<string> | null = null;
+  if (researcher) {
+    const matches = findResearchers(stats.processedProfiles, researcher);
+    if (matches.length === 0) throw new Error(`No researcher in the batch matches "${researcher}".`);
+    authors = new Set(matches.map(profile => profile.orcidId));
+  }
+
+  const matchesWork = (work: OrcidWork) => {
+    if (yearFrom !== undefined && (work.year === null || work.year < yearFrom)) return false;
+    if (yearTo !== undefined && (work.year === null || work.year > yearTo)) return false;
+    if (type && !getWorkCategory(work).toLowerCase().includes(type) && !formatOrcidType(work.type).toLowerCase().includes(type)) return false;
+    if (journal && !work.journal?.toLowerCase().includes(journal)) return false;
+    if (title && !work.title.toLowerCase().includes(title)) return false;
+    if (hasDoi !== undefined && Boolean(work.doi) !== hasDoi) return false;
+    return true;
+  };
+
+  return stats.uniqueWorks.filter(unique =>
+    (!authors || unique.authors.some(orcidId => authors!.has(orcidId))) && matchesWork(unique.work)
+  );
+};
+
+const tally = (values: string[]) => {
+  const counts: Record<string, number> = {};
+  values.forEach(value => { counts[value] = (counts[value] || 0) + 1; });
+  return counts;
+};
+
+const describeWork = (unique: UniqueWork, names: Map<string, string>): ChatWorkSummary => ({
+  title: unique.work.title,
+  year: unique.work.year,
+  category: getWorkCategory(unique.work),
+  journal: unique.work.journal || null,
+  doi: unique.work.doi || null,
+  authors: unique.authors.map(orcidId => names.get(orcidId) || orcidId)
+});
+
+const byNewest = (a: UniqueWork, b: UniqueWork) => (b.work.year || 0) - (a.work.year || 0);
+
+const dimensionValues = (unique: UniqueWork, dimension: ChartDimension, names: Map<string, string>): string[] => {
+  switch (dimension) {
+    case 'year': return unique.work.year ? [String(unique.work.year)] : [];
+    case 'category': return [getWorkCategory(unique.work)];
+    case 'journal': return unique.work.journal ? [unique.work.journal] : [];
+    case 'researcher': return unique.authors.map(orcidId => names.get(orcidId) || orcidId);
+  }
+};
+
+const largest = (totals: Map<string, number>, limit: number) =>
+  Array.from(totals.entries()).sort((a, b) => b[1] - a[1]).slice(0, limit).map(([key]) => key);
+
+const buildChart = (stats: AnalysisStats, args: Record<string, unknown>, names: Map<string, string>): ChatChart => {
+  const xAxis = asDimension(args.xAxis) || 'year';
+  const seriesBy = asDimension(args.seriesBy);
+  if (seriesBy === xAxis) throw new Error('xAxis and seriesBy must be different dimensions.');
+  const top = Math.min(Math.max(asNumber(args.top) ?? DEFAULT_CHART_TOP, 1), MAX_CHART_TOP);
+
+  const counts = new Map<string, Map<string, number>>();
+  const xTotals = new Map<string, number>();
+  const seriesTotals = new Map<string, number>();
+  selectWorks(stats, args).forEach(unique => {
+    const seriesValues = seriesBy ? dimensionValues(unique, seriesBy, names) : ['Works'];
+    dimensionValues(unique, xAxis, names).forEach(x => seriesValues.forEach(series => {
+      const row = counts.get(x) || new Map<string, number>();
+      row.set(series, (row.get(series) || 0) + 1);
+      counts.set(x, row);
+      xTotals.set(x, (xTotals.get(x) || 0) + 1);
+      seriesTotals.set(series, (seriesTotals.get(series) || 0) + 1);
+    }));
+  });
+  if (xTotals.size === 0) throw new Error('No works match these filters.');
+
+  const series = seriesBy ? largest(seriesTotals, top) : ['Works'];
+  const xValues = xAxis === 'year'
+    ? Array.from(xTotals.keys()).sort((a, b) => parseInt(a, 10) - parseInt(b, 10))
+    : largest(xTotals, seriesBy ? MAX_CHART_CATEGORIES : top);
+
+  return {
+    id: `chart-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+    title: asString(args.title) || `Works by ${xAxis}`,
+    kind: args.chartType === 'line' ? 'line' : 'bar',
+    xLabel: xAxis,
+    series,
+    data: xValues.map(x => ({
+      x,
+      ...Object.fromEntries(series.map(name => [name, counts.get(x)?.get(name) || 0]))
+    }))
+  };
+};
+
+const buildFilters = (profiles: OrcidProfileData[], args: Record<string, unknown>): AnalysisFilters => {
+  const options = getFilterOptions(profiles);
+  const researchers = asStringList(args.researchers).flatMap(query => {
+    const matches = findResearchers(profiles, query);
+    if (matches.length === 0) throw new Error(`No researcher in the batch matches "${query}".`);
+    return matches.map(profile => profile.orcidId);
+  });
+  return {
+    ...EMPTY_FILTERS,
+    yearFrom: asNumber(args.yearFrom) ?? null,
+    yearTo: asNumber(args.yearTo) ?? null,
+    types: resolveOptions(asStringList(args.types), options.types, 'category'),
+    journals: resolveOptions(asStringList(args.journals), options.journals, 'journal'),
+    researchers: Array.from(new Set(researchers)),
+    hasDoi: typeof args.hasDoi === 'boolean' ? args.hasDoi : null
+  };
+};
+
+const runTool = (name: string, args: Record<string, unknown>, { stats, profiles }: ChatToolContext): { result: unknown; action?: ChatAction } => {
+  const names = new Map(profiles.map(profile => [profile.orcidId, profile.fullName]));
+
+  switch (name) {
+    case 'get_overview':
+      return { result: {
+        researchers: stats.totalResearchers,
+        uniquePublications: stats.uniquePublications,
+        attributedPublications: stats.totalPublications,
+        publicationsByYear: stats.publicationsByYear,
+        publicationsByCategory: stats.publicationsByType,
+        totalCitations: stats.citationsAvailable ? stats.totalCitations : null,
+        medianHIndex: stats.citationsAvailable ? stats.medianHIndex : null,
+        groupingDimensions: getGroupingDimensions(stats.processedProfiles).map(option => option.label)
+      } satisfies ChatToolResults['get_overview'] };
+
+    case 'count_works': {
+      const works = selectWorks(stats, args);
+      return { result: {
+        count: works.length,
+        byYear: tally(works.map(unique => String(unique.work.year ?? 'undated'))),
+        byCategory: tally(works.map(unique => getWorkCategory(unique.work)))
+      } satisfies ChatToolResults['count_works'] };
+    }
+
+    case 'list_works': {
+      const works = selectWorks(stats, args).sort(byNewest);
+      const limit = Math.min(Math.max(asNumber(args.limit) ?? DEFAULT_LISTED_WORKS, 1), MAX_LISTED_WORKS);
+      return { result: {
+        total: works.length,
+        returned: Math.min(limit, works.length),
+        works: works.slice(0, limit).map(unique => describeWork(unique, names))
+      } satisfies ChatToolResults['list_works'] };
+    }
+
+    case 'get_researcher': {
+      const query = asString(args.researcher);
+      if (!query) throw new Error('Give an ORCID iD or a name.');
+      const matches = findResearchers(stats.processedProfiles, query);
+      if (matches.length === 0) throw new Error(`No researcher in the batch matches "${query}".`);
+      if (matches.length > 1) {
+        return { result: { ambiguous: true, candidates: matches.map(profile => ({ orcidId: profile.orcidId, name: profile.fullName })) } satisfies ChatToolResults['get_researcher'] };
+      }
+      const profile = matches[0];
+      const employment = primaryEmployment(profile);
+      const metrics = stats.researcherMetrics.find(entry => entry.orcidId === profile.orcidId);
+      const own = stats.uniqueWorks.filter(unique => unique.authors.includes(profile.orcidId)).sort(byNewest);
+      return { result: {
+        orcidId: profile.orcidId,
+        name: profile.fullName,
+        affiliation: employment ? [employment.department, employment.organization].filter(Boolean).join(', ') : null,
+        attributes: profile.attributes,
+        keywords: profile.keywords,
+        works: profile.works.length,
+        byYear: tally(profile.works.map(work => String(work.year ?? 'undated'))),
+        byCategory: tally(profile.works.map(getWorkCategory)),
+        citations: stats.citationsAvailable && metrics ? { total: metrics.citations, hIndex: metrics.hIndex, i10Index: metrics.i10Index } : null,
+        recentWorks: own.slice(0, 10).map(unique => describeWork(unique, names))
+      } satisfies ChatToolResults['get_researcher'] };
+    }
+
+    case 'compare_groups': {
+      const label = asString(args.dimension)?.toLowerCase();
+      const options = getGroupingDimensions(stats.processedProfiles);
+      const option = options.find(candidate => candidate.label.toLowerCase() === label)
+        || options.find(candidate => label && candidate.label.toLowerCase().includes(label));
+      if (!option) {
+        throw new Error(`Unknown dimension. Available: ${options.map(candidate => candidate.label).join(', ')}.`);
+      }
+      return { result: {
+        dimension: option.label,
+        groups: computeGroupStats(stats.processedProfiles, option.dimension).map(group => ({
+          group: group.group,
+          researchers: group.researchers,
+          uniquePublications: group.publications,
+          perCapita: Number(group.perCapita.toFixed(2)),
+          perCapitaPerYear: Number(group.perCapitaPerYear.toFixed(2)),
+          citations: group.citations,
+          medianHIndex: group.medianHIndex
+        }))
+      } satisfies ChatToolResults['compare_groups'] };
+    }
+
+    case 'get_topics': {
+      const query = asString(args.researcher);
+      const matches = query ? findResearchers(stats.processedProfiles, query) : [];
+      if (query && matches.length !== 1) {
+        throw new Error(matches.length === 0
+          ? `No researcher in the current view matches "${query}".`
+          : `"${query}" matches ${matches.length} researchers: ${matches.map(profile => `${profile.fullName} (${profile.orcidId})`).join(', ')}.`);
+      }
+      const analysis = extractTopics(stats.uniqueWorks, stats.processedProfiles);
+      const titles = new Map(stats.uniqueWorks.map(unique => [unique.key, unique.work.title]));
+      const profile = query ? analysis.researchers.find(entry => entry.orcidId === matches[0].orcidId) : undefined;
+      return { result: {
+        topics: analysis.topics.map(topic => ({
+          topic: topic.label,
+          works: topic.workKeys.length,
+          terms: topic.terms.map(entry => entry.term),
+          exampleTitles: topic.workKeys.slice(0, TOPIC_EXAMPLE_TITLES).map(key => titles.get(key))
+        })),
+        unassignedWorks: analysis.unassigned,
+        keyphrases: analysis.keyphrases.slice(0, LISTED_KEYPHRASES).map(({ term, works }) => ({ term, works })),
+        byYear: analysis.byYear.map(entry => ({
+          year: entry.year,
+          ...Object.fromEntries(analysis.topics.map((topic, i) => [topic.label, entry.counts[i]]))
+        })),
+        ...(profile ? { researcher: {
+          name: profile.fullName,
+          works: profile.works,
+          topics: analysis.topics
+            .map((topic, i) => ({ topic: topic.label, works: profile.counts[i] }))
+            .filter(entry => entry.works > 0),
+          topTerms: profile.topTerms
+        } } : {})
+      } satisfies ChatToolResults['get_topics'] };
+    }
+
+    case 'apply_filters': {
+      const filters = buildFilters(profiles, args);
+      return { result: { applied: filters } satisfies ChatToolResults['apply_filters'], action: { type: 'apply-filters', filters } };
+    }
+
+    case 'open_researcher': {
+      const query = asString(args.researcher);
+      if (!query) throw new Error('Give an ORCID iD or a name.');
+      const matches = findResearchers(profiles, query);
+      if (matches.length !== 1) {
+        throw new Error(matches.length === 0
+          ? `No researcher in the batch matches "${query}".`
+          : `"${query}" matches ${matches.length} researchers: ${matches.map(profile => `${profile.fullName} (${profile.orcidId})`).join(', ')}.`);
+      }
+      return { result: { opened: matches[0].fullName } satisfies ChatToolResults['open_researcher'], action: { type: 'open-researcher', orcidId: matches[0].orcidId } };
+    }
+
+    case 'add_chart': {
+      const chart = buildChart(stats, args, names);
+      return { result: { added: chart.title, series: chart.series, data: chart.data } satisfies ChatToolResults['add_chart'], action: { type: 'add-chart', chart } };
+    }
+
+    default:
+      throw new Error(`Unknown tool "${name}".`);
+  }
+};
+
+const TOOL_NAMES = new Set(CHAT_TOOLS.map(tool => tool.name));
+
+// Narrows a call that succeeded to its tool's result type; null for failed calls and unknown tools
+export const asTypedToolCall = (call: ChatToolCall): TypedChatToolCall | null =>
+  call.error || !TOOL_NAMES.has(call.name) ? null : call as TypedChatToolCall;
+
+// Compact "name(key=value, ...)" label for a tool call
+export const formatToolCall = (call: ChatToolCall) =>
+  `${call.name}(${Object.entries(call.args).map(([key, value]) => `${key}=${JSON.stringify(value)}`).join(', ')})`;
+
+// Tool errors are returned to the model rather than thrown, so it can correct its arguments
+export const executeChatTool = (name: string, args: Record<string, unknown>, context: ChatToolContext): ChatToolCall => {
+  try {
+    return { name, args, ...runTool(name, args, context) };
+  } catch (error: any) {
+    return { name, args, error: error.message || String(error) };
+  }
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeHIndex, computeI10Index, computeResearcherMetrics, createFixtureProvider, enrichProfilesWithCitations, median
+} from './citationService';
+import { computeStats } from './statsService';
+import { makeProfile, makeWork } from './fixtures/profiles';
+
+describe('computeHIndex', () => {
+  it.each([
+    [[], 0],
+    [[0, 0, 0], 0],
+    [[1], 1],
+    [[10, 8, 5, 4, 3], 4],
+    [[3, 3, 3], 3], // ties at the threshold all count
+    [[4, 4, 4, 4, 4], 4],
+    [[25, 8, 5, 3, 3], 3],
+    [[0, 6, 0, 2, 1], 2] // order does not matter
+  ])('h-index of %j is %i', (counts, h) => {
+    expect(computeHIndex(counts)).toBe(h);
+  });
+});
+
+describe('computeI10Index', () => {
+  it('counts works with at least ten citations', () => {
+    expect(computeI10Index([10, 9, 11, 0, 10])).toBe(3);
+    expect(computeI10Index([])).toBe(0);
+  });
+});
+
+describe('median', () => {
+  it('averages the middle pair of an even list', () => {
+    expect(median([])).toBe(0);
+    expect(median([7])).toBe(7);
+    expect(median([5, 1, 3])).toBe(3);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+    expect(median([0, 0, 2, 2])).toBe(1);
+  });
+});
+
+describe('citation metrics from a fixture provider', () => {
+  const provider = createFixtureProvider({
+    'https://doi.org/10.1234/A': { count: 12 },
+    '10.1234/b': { count: 10, fwci: 1.5 },
+    '10.1234/c': { count: 2, fwci: 0.5 },
+    '10.1234/d': { count: 0 }
+  });
+  const profiles = [
+    makeProfile('0000-0002-1825-0097', 'Josiah Carberry', {
+      works: [
+        makeWork({ doi: '10.1234/a', title: 'A' }),
+        makeWork({ doi: '10.1234/b', title: 'B' }),
+        makeWork({ doi: '10.1234/c', title: 'C' }),
+        makeWork({ doi: '10.1234/unknown', title: 'Not in the table' }),
+        makeWork({ title: 'No DOI' })
+      ]
+    }),
+    makeProfile('0000-0003-1584-6722', 'Olena Melnyk', { works: [makeWork({ doi: '10.1234/d', title: 'D' })] }),
+    makeProfile('0000-0001-6502-3615', 'Andrii Bondarenko', { works: [makeWork({ title: 'Uncited' })] })
+  ];
+
+  it('attaches counts by normalized DOI and leaves missing counts unset', async () => {
+    const { profiles: enriched, matched, requested } = await enrichProfilesWithCitations(profiles, provider);
+    expect({ matched, requested }).toEqual({ matched: 4, requested: 5 });
+    expect(enriched[0].works.map(work => work.citations?.count)).toEqual([12, 10, 2, undefined, undefined]);
+    expect(enriched[0].works[0].citations?.provider).toBe('Fixture');
+  });
+
+  it('computes metrics over the works that have counts', async () => {
+    const { profiles: enriched } = await enrichProfilesWithCitations(profiles, provider);
+    expect(computeResearcherMetrics(enriched[0])).toEqual({
+      orcidId: '0000-0002-1825-0097',
+      citations: 24,
+      hIndex: 2,
+      i10Index: 2,
+      meanFwci: 1,
+      worksWithCitations: 3
+    });
+    // A zero count is a count: the work is cited by nobody, not unknown
+    expect(computeResearcherMetrics(enriched[1])).toMatchObject({ citations: 0, hIndex: 0, worksWithCitations: 1, meanFwci: null });
+    expect(computeResearcherMetrics(enriched[2])).toMatchObject({ citations: 0, hIndex: 0, worksWithCitations: 0 });
+
+    const stats = computeStats(enriched)!;
+    expect(stats.totalCitations).toBe(24);
+    expect(stats.medianHIndex).toBe(0);
+    expect(stats.hIndexDistribution).toEqual([{ hIndex: 0, researchers: 2 }, { hIndex: 2, researchers: 1 }]);
+  });
+});
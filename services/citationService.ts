@@ -0,0 +1,160 @@
+import { CitationData, OrcidProfileData, ResearcherCitationMetrics } from '../types';
+import { normalizeDoi } from './dedupService';
+import { createSeededRandom } from './orcidService';
+
+/**
+ * A source of citation counts keyed by normalized DOI. Providers return only the DOIs
+ * they know about; unknown DOIs are simply absent from the result.
+ */
+export interface CitationProvider {
+  id: string;
+  name: string;
+  fetchCitations: (dois: string[], signal?: AbortSignal) => Promise<Map<string, CitationData>>;
+  // Generated counts: only offered when every loaded profile is demo data
+  demoOnly?: boolean;
+}
+
+const OPENALEX_BATCH_SIZE = 50;
+
+export const openAlexProvider: CitationProvider = {
+  id: 'openalex',
+  name: 'OpenAlex',
+  fetchCitations: async (dois, signal) => {
+    const result = new Map<string, CitationData>();
+    // OpenAlex accepts up to 50 OR-ed values in a single filter
+    for (let i = 0; i < dois.length; i += OPENALEX_BATCH_SIZE) {
+      const batch = dois.slice(i, i + OPENALEX_BATCH_SIZE);
+      const url = `https://api.openalex.org/works?filter=doi:${batch.map(encodeURIComponent).join('|')}` +
+        `&per-page=${OPENALEX_BATCH_SIZE}&select=doi,cited_by_count,fwci`;
+      const response = await fetch(url, { signal });
+      if (!response.ok) throw new Error(`OpenAlex request failed (HTTP ${response.status}).`);
+      const data = await response.json();
+      (data.results || []).forEach((work: any) => {
+        if (!work.doi) return;
+        result.set(normalizeDoi(work.doi), {
+          count: work.cited_by_count ?? 0,
+          fwci: typeof work.fwci === 'number' ? work.fwci : undefined,
+          provider: 'OpenAlex'
+        });
+      });
+    }
+    return result;
+  }
+};
+
+export const crossrefProvider: CitationProvider = {
+  id: 'crossref',
+  name: 'Crossref',
+  fetchCitations: async (dois, signal) => {
+    const result = new Map<string, CitationData>();
+    // Crossref has no batch lookup by DOI, so query one at a time to stay polite
+    for (const doi of dois) {
+      const response = await fetch(`https://api.crossref.org/works/${encodeURIComponent(doi)}`, { signal });
+      if (response.status === 404) continue;
+      if (!response.ok) throw new Error(`Crossref request failed (HTTP ${response.status}).`);
+      const data = await response.json();
+      result.set(doi, {
+        count: data.message?.['is-referenced-by-count'] ?? 0,
+        provider: 'Crossref'
+      });
+    }
+    return result;
+  }
+};
+
+// Serves counts from a fixed table, for tests and offline work; DOIs may be given in any form
+export const createFixtureProvider = (
+  fixtures: Record<string, Omit<CitationData, 'provider'>>,
+  name: string = 'Fixture'
+): CitationProvider => ({
+  id: 'fixture',
+  name,
+  fetchCitations: async (dois) => {
+    const normalized = new Map(Object.entries(fixtures).map(([doi, data]) => [normalizeDoi(doi), data]));
+    const result = new Map<string, CitationData>();
+    dois.forEach(doi => {
+      const fixture = normalized.get(doi);
+      if (fixture) result.set(doi, { ...fixture, provider: name });
+    });
+    return result;
+  }
+});
+
+const DEMO_CITATION_SOURCE = 'Demo';
+
+// Seeded counts for demo profiles, mirroring the demo mode of the ORCID service
+export const demoCitationProvider: CitationProvider = {
+  id: 'demo',
+  name: 'Demo (generated)',
+  demoOnly: true,
+  fetchCitations: async (dois) => new Map(dois.map(doi => {
+    const random = createSeededRandom(doi);
+    // Skewed distribution: most papers have few citations, a handful have many
+    const count = Math.floor(Math.pow(random(), 3) * 120);
+    return [doi, { count, fwci: Number((count / 15).toFixed(2)), provider: DEMO_CITATION_SOURCE }];
+  }))
+};
+
+export const CITATION_PROVIDERS: CitationProvider[] = [openAlexProvider, crossrefProvider, demoCitationProvider];
+
+// Also catches generated counts carried in by older snapshots
+export const hasDemoData = (profiles: OrcidProfileData[]): boolean =>
+  profiles.some(profile => profile.source === 'demo' || profile.works.some(work => work.citations?.provider === DEMO_CITATION_SOURCE));
+
+// Generated counts must never land on real works, so demo providers need an all-demo dataset
+export const getCitationProviders = (profiles: OrcidProfileData[]): CitationProvider[] => {
+  const allDemo = profiles.length > 0 && profiles.every(profile => profile.source === 'demo');
+  return CITATION_PROVIDERS.filter(provider => !provider.demoOnly || allDemo);
+};
+
+export const enrichProfilesWithCitations = async (
+  profiles: OrcidProfileData[],
+  provider: CitationProvider,
+  signal?: AbortSignal
+): Promise<{ profiles: OrcidProfileData[]; matched: number; requested: number }> => {
+  const dois = Array.from(new Set(
+    profiles.flatMap(profile => profile.works.map(work => work.doi).filter((doi): doi is string => Boolean(doi)).map(normalizeDoi))
+  ));
+  const citations = await provider.fetchCitations(dois, signal);
+
+  const enriched = profiles.map(profile => ({
+    ...profile,
+    works: profile.works.map(work => {
+      const data = work.doi ? citations.get(normalizeDoi(work.doi)) : undefined;
+      return data ? { ...work, citations: data } : work;
+    })
+  }));
+
+  return { profiles: enriched, matched: citations.size, requested: dois.length };
+};
+
+// Largest h such that h works have at least h citations each
+export const computeHIndex = (counts: number[]): number => {
+  const sorted = [...counts].sort((a, b) => b - a);
+  let h = 0;
+  while (h < sorted.length && sorted[h] >= h + 1) h++;
+  return h;
+};
+
+export const computeI10Index = (counts: number[]): number => counts.filter(count => count >= 10).length;
+
+export const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+export const computeResearcherMetrics = (profile: OrcidProfileData): ResearcherCitationMetrics => {
+  const cited = profile.works.filter(work => work.citations);
+  const counts = cited.map(work => work.citations!.count);
+  const fwcis = cited.map(work => work.citations!.fwci).filter((fwci): fwci is number => fwci !== undefined);
+  return {
+    orcidId: profile.orcidId,
+    citations: counts.reduce((sum, count) => sum + count, 0),
+    hIndex: computeHIndex(counts),
+    i10Index: computeI10Index(counts),
+    meanFwci: fwcis.length > 0 ? fwcis.reduce((sum, fwci) => sum + fwci, 0) / fwcis.length : null,
+    worksWithCitations: cited.length
+  };
+};
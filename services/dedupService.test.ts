@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { deduplicateWorks, normalizeDoi } from './dedupService';
+import { makeProfile, makeWork } from './fixtures/profiles';
+
+describe('normalizeDoi', () => {
+  it('strips resolver prefixes and case', () => {
+    expect(normalizeDoi('https://dx.doi.org/10.1234/ABC')).toBe('10.1234/abc');
+    expect(normalizeDoi('doi: 10.1234/abc')).toBe('10.1234/abc');
+  });
+});
+
+describe('deduplicateWorks', () => {
+  it('merges the same DOI and the same title across researchers', () => {
+    const unique = deduplicateWorks([
+      makeProfile('0000-0002-1825-0097', 'A', { works: [makeWork({ title: 'Glazing under pressure', doi: '10.1234/x' })] }),
+      makeProfile('0000-0003-1584-6722', 'B', { works: [makeWork({ title: 'Glazing Under Pressure.', doi: 'https://doi.org/10.1234/X' })] }),
+      makeProfile('0000-0001-6502-3615', 'C', { works: [makeWork({ title: 'Glazing under pressure' })] })
+    ]);
+    expect(unique).toHaveLength(1);
+    expect(unique[0].authors).toHaveLength(3);
+    expect(unique[0].matchedBy).toBe('doi');
+  });
+
+  describe('a work without a DOI whose title matches two works with different DOIs', () => {
+    const chain = (title: (label: string) => string) => [
+      makeProfile('0000-0001-6502-3615', 'B', { works: [makeWork({ title: title('B') })] }),
+      makeProfile('0000-0002-1825-0097', 'A', { works: [makeWork({ title: title('A'), doi: '10.1234/one' })] }),
+      makeProfile('0000-0003-1584-6722', 'C', { works: [makeWork({ title: title('C'), doi: '10.1234/two' })] })
+    ];
+    const clusters = (profiles: ReturnType<typeof chain>) =>
+      deduplicateWorks(profiles).map(unique => [...unique.authors].sort()).sort((a, b) => b.length - a.length);
+
+    it('joins only one of them on an exact title', () => {
+      expect(clusters(chain(() => 'Cracked pots and the theory of cracks'))).toEqual([
+        ['0000-0001-6502-3615', '0000-0002-1825-0097'],
+        ['0000-0003-1584-6722']
+      ]);
+    });
+
+    it('joins only one of them on a similar title', () => {
+      const titles: Record<string, string> = {
+        A: 'Cracked pots and the theory of cracks in glazes',
+        B: 'Cracked pots and the theory of cracks in glaze',
+        C: 'Cracked pots and the theory of crack in glazes'
+      };
+      expect(clusters(chain(label => titles[label]))).toEqual([
+        ['0000-0001-6502-3615', '0000-0002-1825-0097'],
+        ['0000-0003-1584-6722']
+      ]);
+    });
+  });
+});
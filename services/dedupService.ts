@@ -0,0 +1,169 @@
+import { CoAuthorshipLink, OrcidProfileData, OrcidWork, UniqueWork } from '../types';
+
+// Dice coefficient on character bigrams above which two titles from the same year count as one work
+const TITLE_SIMILARITY_THRESHOLD = 0.9;
+
+export const normalizeDoi = (doi: string): string =>
+  doi.trim().toLowerCase().replace(/^(https?:\/\/)?(dx\.)?doi\.org\//, '').replace(/^doi:\s*/, '');
+
+export const normalizeTitle = (title: string): string =>
+  title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const bigrams = (text: string): Set<string> => {
+  const result = new Set<string>();
+  const compact = text.replace(/ /g, '');
+  for (let i = 0; i < compact.length - 1; i++) {
+    result.add(compact.slice(i, i + 2));
+  }
+  return result;
+};
+
+export const diceCoefficient = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(gram => { if (b.has(gram)) shared++; });
+  return (2 * shared) / (a.size + b.size);
+};
+
+const completeness = (work: OrcidWork) =>
+  (work.doi ? 2 : 0) + (work.year ? 1 : 0) + (work.journal ? 1 : 0) + (work.title !== 'Untitled' ? 1 : 0);
+
+interface WorkRef {
+  orcidId: string;
+  work: OrcidWork;
+  doi?: string;
+  title: string;
+  grams?: Set<string>;
+}
+
+/**
+ * Merges works across profiles: first by DOI, then by exact normalized title + year,
+ * then by fuzzy title similarity within the same year. Works with two different DOIs
+ * are never merged on title alone, not even through a third work without a DOI.
+ */
+export const deduplicateWorks = (profiles: OrcidProfileData[]): UniqueWork[] => {
+  const refs: WorkRef[] = profiles.flatMap(profile =>
+    profile.works.map(work => ({
+      orcidId: profile.orcidId,
+      work,
+      doi: work.doi ? normalizeDoi(work.doi) : undefined,
+      title: normalizeTitle(work.title)
+    }))
+  );
+
+  // Union-find over work references
+  const parent = refs.map((_, i) => i);
+  const matchedBy: ('doi' | 'title')[] = [];
+  // DOI of each cluster, kept on its root, so a work without a DOI cannot bridge two different DOIs
+  const clusterDoi = refs.map(ref => ref.doi);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const doisConflict = (a: number, b: number) => {
+    const doiA = clusterDoi[find(a)];
+    const doiB = clusterDoi[find(b)];
+    return Boolean(doiA && doiB && doiA !== doiB);
+  };
+  const union = (a: number, b: number, reason: 'doi' | 'title') => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA === rootB || doisConflict(rootA, rootB)) return;
+    parent[rootB] = rootA;
+    clusterDoi[rootA] = clusterDoi[rootA] || clusterDoi[rootB];
+    // A DOI match is the stronger evidence, so it wins when clusters merge
+    matchedBy[rootA] = matchedBy[rootA] === 'doi' || matchedBy[rootB] === 'doi' || reason === 'doi' ? 'doi' : 'title';
+  };
+
+  // 1. DOI
+  const byDoi = new Map<string, number>();
+  refs.forEach((ref, i) => {
+    if (!ref.doi) return;
+    const first = byDoi.get(ref.doi);
+    if (first === undefined) byDoi.set(ref.doi, i);
+    else union(first, i, 'doi');
+  });
+
+  // 2. Exact normalized title within the same year
+  const byTitle = new Map<string, number>();
+  refs.forEach((ref, i) => {
+    if (!ref.title || ref.title === 'untitled') return;
+    const key = `${ref.work.year ?? ''}|${ref.title}`;
+    const first = byTitle.get(key);
+    if (first === undefined) byTitle.set(key, i);
+    else union(first, i, 'title');
+  });
+
+  // 3. Fuzzy title, only compared inside the same publication year to keep it tractable
+  const byYear = new Map<string, number[]>();
+  refs.forEach((ref, i) => {
+    if (!ref.title || ref.title === 'untitled') return;
+    const key = String(ref.work.year ?? '');
+    const bucket = byYear.get(key);
+    if (bucket) bucket.push(i);
+    else byYear.set(key, [i]);
+  });
+  byYear.forEach(indices => {
+    for (let x = 0; x < indices.length; x++) {
+      for (let y = x + 1; y < indices.length; y++) {
+        const a = refs[indices[x]];
+        const b = refs[indices[y]];
+        if (find(indices[x]) === find(indices[y]) || doisConflict(indices[x], indices[y])) continue;
+        const lengthRatio = Math.min(a.title.length, b.title.length) / Math.max(a.title.length, b.title.length);
+        if (lengthRatio < TITLE_SIMILARITY_THRESHOLD) continue;
+        a.grams = a.grams || bigrams(a.title);
+        b.grams = b.grams || bigrams(b.title);
+        if (diceCoefficient(a.grams, b.grams) >= TITLE_SIMILARITY_THRESHOLD) {
+          union(indices[x], indices[y], 'title');
+        }
+      }
+    }
+  });
+
+  const clusters = new Map<number, WorkRef[]>();
+  refs.forEach((ref, i) => {
+    const root = find(i);
+    const cluster = clusters.get(root);
+    if (cluster) cluster.push(ref);
+    else clusters.set(root, [ref]);
+  });
+
+  return Array.from(clusters, ([root, members]): UniqueWork => {
+    // Prefer the most complete record as the representative
+    const representative = [...members].sort((a, b) => completeness(b.work) - completeness(a.work))[0];
+    return {
+      key: representative.doi ? `doi:${representative.doi}` : `work:${representative.orcidId}:${representative.work.putCode}`,
+      work: representative.work,
+      authors: Array.from(new Set(members.map(m => m.orcidId))),
+      matchedBy: members.length > 1 ? matchedBy[root] : 'single'
+    };
+  });
+};
+
+// Pairs of researchers in the batch who share at least one work
+export const findCoAuthorshipLinks = (uniqueWorks: UniqueWork[]): CoAuthorshipLink[] => {
+  const links = new Map<string, CoAuthorshipLink>();
+  uniqueWorks
+    .filter(unique => unique.authors.length > 1)
+    .forEach(unique => {
+      const authors = [...unique.authors].sort();
+      for (let i = 0; i < authors.length; i++) {
+        for (let j = i + 1; j < authors.length; j++) {
+          const key = `${authors[i]}|${authors[j]}`;
+          const link = links.get(key) || { source: authors[i], target: authors[j], works: [] };
+          link.works.push(unique);
+          links.set(key, link);
+        }
+      }
+    });
+  return Array.from(links.values()).sort((a, b) => b.works.length - a.works.length);
+};
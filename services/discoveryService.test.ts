@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ExpandedSearchResponse,
+  buildDiscoveryQuery,
+  createFixtureTransport,
+  discoverResearchers,
+  discoverySearchUrl,
+  parseExpandedSearch
+} from './discoveryService';
+import recorded from './fixtures/orcidExpandedSearch.json';
+import { DiscoveryField } from '../types';
+
+const field = recorded.field as DiscoveryField;
+const query = buildDiscoveryQuery(field, recorded.value);
+
+const recordedResponses = (rows: number): Record<string, ExpandedSearchResponse> =>
+  Object.fromEntries(recorded.pages.map(page => [discoverySearchUrl(query, page.start, rows), page.response]));
+
+describe('parseExpandedSearch', () => {
+  it('reads names, alternative names and affiliations from a recorded page', () => {
+    const { total, researchers } = parseExpandedSearch(recorded.pages[0].response);
+    expect(total).toBe(3);
+    expect(researchers[0]).toEqual({
+      orcidId: '0000-0002-1825-0097',
+      fullName: 'Josiah Stinkney Carberry',
+      otherNames: ['J. Carberry', 'J. S. Carberry'],
+      institutions: ['Brown University', 'Wesleyan University']
+    });
+    expect(researchers[1].fullName).toBe('Olena Melnyk');
+  });
+
+  it('tolerates private fields and skips rows without a usable iD', () => {
+    const { researchers } = parseExpandedSearch({
+      'num-found': 2,
+      'expanded-result': [
+        recorded.pages[1].response['expanded-result'][1],
+        { 'orcid-id': 'not-an-orcid' }
+      ]
+    });
+    expect(researchers).toEqual([
+      { orcidId: '0000-0001-6502-3615', fullName: 'Andrii', otherNames: ['A. Bondarenko'], institutions: [] }
+    ]);
+  });
+
+  it('treats a null result list as no matches', () => {
+    expect(parseExpandedSearch({ 'num-found': 0, 'expanded-result': null })).toEqual({ total: 0, researchers: [] });
+  });
+});
+
+describe('discoverResearchers', () => {
+  it('pages through every match and lists a researcher repeated across pages once', async () => {
+    const result = await discoverResearchers(field, recorded.value, {
+      transport: createFixtureTransport(recordedResponses(recorded.pageSize)),
+      pageSize: recorded.pageSize
+    });
+    expect(result.query).toBe('ror-org-id:"https://ror.org/05gq02987"');
+    expect(result.total).toBe(3);
+    expect(result.researchers.map(researcher => researcher.orcidId)).toEqual([
+      '0000-0002-1825-0097',
+      '0000-0003-1584-6722',
+      '0000-0001-6502-3615'
+    ]);
+  });
+
+  it('stops requesting pages once maxResults is reached', async () => {
+    const result = await discoverResearchers(field, recorded.value, {
+      transport: createFixtureTransport(recordedResponses(recorded.pageSize)),
+      pageSize: recorded.pageSize,
+      maxResults: 2
+    });
+    expect(result.total).toBe(3);
+    expect(result.researchers).toHaveLength(2);
+  });
+});
+
+describe('buildDiscoveryQuery', () => {
+  it('normalizes identifiers to the form ORCID indexes', () => {
+    expect(buildDiscoveryQuery('ror', '02AAQV166')).toBe('ror-org-id:"https://ror.org/02aaqv166"');
+    expect(buildDiscoveryQuery('grid', 'grid.34555.32')).toBe('grid-org-id:"grid.34555.32"');
+    expect(buildDiscoveryQuery('email-domain', '@KNU.ua')).toBe('email:*@knu.ua');
+    expect(buildDiscoveryQuery('organization', 'The "Best" University')).toBe('affiliation-org-name:"The \\"Best\\" University"');
+  });
+
+  it('rejects values that are not identifiers of the chosen kind', () => {
+    expect(() => buildDiscoveryQuery('ror', 'brown')).toThrow('is not a ROR ID');
+    expect(() => buildDiscoveryQuery('email-domain', 'localhost')).toThrow('is not an email domain');
+    expect(() => buildDiscoveryQuery('organization', '   ')).toThrow('Enter a value');
+  });
+});
@@ -0,0 +1,163 @@
+import { DiscoveredResearcher, DiscoveryField, DiscoveryResult } from '../types';
+import { OrcidApiError, createSeededRandom } from './orcidService';
+import { normalizeOrcidId, orcidCheckDigit } from './importService';
+
+const ORCID_SEARCH_BASE = 'https://pub.orcid.org/v3.0/expanded-search/';
+
+// ORCID serves at most 1000 rows per request; smaller pages keep each response quick
+export const DISCOVERY_PAGE_SIZE = 200;
+export const DEFAULT_MAX_DISCOVERED = 1000;
+
+export const DISCOVERY_FIELDS: { id: DiscoveryField; label: string; placeholder: string }[] = [
+  { id: 'organization', label: 'Organization name', placeholder: 'e.g., Taras Shevchenko National University of Kyiv' },
+  { id: 'ror', label: 'ROR ID', placeholder: 'e.g., https://ror.org/02aaqv166 or 02aaqv166' },
+  { id: 'grid', label: 'GRID ID', placeholder: 'e.g., grid.34555.32' },
+  { id: 'email-domain', label: 'Email domain', placeholder: 'e.g., knu.ua' }
+];
+
+// One row of ORCID's expanded-search response; fields the researcher keeps private are null or absent
+export interface ExpandedSearchEntry {
+  'orcid-id': string;
+  'given-names'?: string | null;
+  'family-names'?: string | null;
+  'credit-name'?: string | null;
+  'other-name'?: string[] | null;
+  'email'?: string[] | null;
+  'institution-name'?: string[] | null;
+}
+
+export interface ExpandedSearchResponse {
+  'expanded-result': ExpandedSearchEntry[] | null; // null when nothing matches
+  'num-found': number;
+}
+
+/**
+ * Returns the parsed JSON body for an expanded-search URL. The live transport calls ORCID;
+ * fixture transports replay recorded responses so the service can be exercised offline.
+ */
+export type SearchTransport = (url: string, signal?: AbortSignal) => Promise<ExpandedSearchResponse>;
+
+export const orcidSearchTransport: SearchTransport = async (url, signal) => {
+  const response = await fetch(url, { headers: { 'Accept': 'application/json' }, signal });
+  if (!response.ok) {
+    if (response.status === 429) throw new OrcidApiError('Rate limit exceeded while searching ORCID.', 429);
+    throw new OrcidApiError(`ORCID search failed (HTTP ${response.status}).`, response.status);
+  }
+  return response.json() as Promise<ExpandedSearchResponse>;
+};
+
+// Replays recorded responses keyed by request URL, for tests and offline work
+export const createFixtureTransport = (responses: Record<string, ExpandedSearchResponse>): SearchTransport => async (url) => {
+  if (!(url in responses)) throw new Error(`No recorded response for ${url}`);
+  return responses[url];
+};
+
+// Quotes a value for the Solr query syntax used by ORCID search
+const quote = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`;
+
+export const buildDiscoveryQuery = (field: DiscoveryField, raw: string): string => {
+  const value = raw.trim();
+  if (!value) throw new Error('Enter a value to search for.');
+  switch (field) {
+    case 'organization':
+      return `affiliation-org-name:${quote(value)}`;
+    case 'ror': {
+      // ORCID indexes the full ROR URL
+      const id = value.replace(/^(https?:\/\/)?(www\.)?ror\.org\//i, '').replace(/\/$/, '');
+      if (!/^0[a-z0-9]{8}$/i.test(id)) throw new Error(`"${value}" is not a ROR ID.`);
+      return `ror-org-id:${quote(`https://ror.org/${id.toLowerCase()}`)}`;
+    }
+    case 'grid': {
+      if (!/^grid\.\d+\.[0-9a-f]+$/i.test(value)) throw new Error(`"${value}" is not a GRID ID.`);
+      return `grid-org-id:${quote(value.toLowerCase())}`;
+    }
+    case 'email-domain': {
+      const domain = value.replace(/^\*?@/, '').toLowerCase();
+      if (!/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain)) throw new Error(`"${value}" is not an email domain.`);
+      // Only emails the researchers made public are searchable
+      return `email:*@${domain}`;
+    }
+  }
+};
+
+export const discoverySearchUrl = (query: string, start: number, rows: number) =>
+  `${ORCID_SEARCH_BASE}?q=${encodeURIComponent(query)}&start=${start}&rows=${rows}`;
+
+const asStringList = (value: string[] | null | undefined): string[] =>
+  (value || []).filter(item => typeof item === 'string' && item.trim());
+
+// The body comes from the network, so missing or malformed rows are skipped rather than trusted
+export const parseExpandedSearch = (body: ExpandedSearchResponse): { total: number; researchers: DiscoveredResearcher[] } => {
+  const researchers = (body?.['expanded-result'] || []).flatMap((entry): DiscoveredResearcher[] => {
+    const orcidId = normalizeOrcidId(String(entry?.['orcid-id'] || ''));
+    if (!orcidId) return [];
+    const name = [entry['given-names'], entry['family-names']].filter(Boolean).join(' ').trim();
+    return [{
+      orcidId,
+      fullName: entry['credit-name'] || name || `Researcher ${orcidId}`,
+      otherNames: asStringList(entry['other-name']),
+      institutions: Array.from(new Set(asStringList(entry['institution-name'])))
+    }];
+  });
+  return { total: Number(body?.['num-found']) || 0, researchers };
+};
+
+export interface DiscoveryOptions {
+  transport?: SearchTransport;
+  signal?: AbortSignal;
+  maxResults?: number;
+  pageSize?: number;
+}
+
+/**
+ * Pages through the ORCID expanded search until every match, or maxResults of them,
+ * has been read. Researchers are listed once even if paging shifts them between pages.
+ */
+export const discoverResearchers = async (
+  field: DiscoveryField,
+  value: string,
+  options: DiscoveryOptions = {}
+): Promise<DiscoveryResult> => {
+  const { transport = orcidSearchTransport, signal, maxResults = DEFAULT_MAX_DISCOVERED, pageSize = DISCOVERY_PAGE_SIZE } = options;
+  const query = buildDiscoveryQuery(field, value);
+  const found = new Map<string, DiscoveredResearcher>();
+  let total = 0;
+
+  for (let start = 0; start < maxResults; start += pageSize) {
+    const page = parseExpandedSearch(await transport(discoverySearchUrl(query, start, Math.min(pageSize, maxResults - start)), signal));
+    total = page.total;
+    page.researchers.forEach(researcher => {
+      if (!found.has(researcher.orcidId)) found.set(researcher.orcidId, researcher);
+    });
+    if (page.researchers.length === 0 || start + pageSize >= total) break;
+  }
+
+  return { field, value: value.trim(), query, total, researchers: Array.from(found.values()) };
+};
+
+const DEMO_GIVEN_NAMES = ['Olena', 'Andrii', 'Maria', 'Taras', 'Iryna', 'Dmytro', 'Sofia', 'Petro', 'Natalia', 'Yurii'];
+const DEMO_FAMILY_NAMES = ['Kovalenko', 'Shevchenko', 'Bondarenko', 'Tkachenko', 'Melnyk', 'Kravchenko', 'Oliinyk', 'Lysenko'];
+
+// Seeded search results for demo mode: the same query always finds the same researchers
+export const demoSearchTransport: SearchTransport = async (url) => {
+  const params = new URL(url).searchParams;
+  const query = params.get('q') || '';
+  const start = Number(params.get('start')) || 0;
+  const rows = Number(params.get('rows')) || DISCOVERY_PAGE_SIZE;
+  const random = createSeededRandom(query);
+  const total = Math.floor(random() * 20) + 8;
+  const institution = query.replace(/^[a-z-]+:/, '').replace(/["*@\\]/g, '') || 'Demo University';
+
+  const results = Array.from({ length: total }, (_, i): ExpandedSearchEntry => {
+    const base = String(Math.floor(random() * 1e15)).padStart(15, '0');
+    const digits = `0000${base.slice(4)}`.slice(0, 15);
+    const orcidId = `${digits}${orcidCheckDigit(digits)}`.match(/.{4}/g)!.join('-');
+    return {
+      'orcid-id': orcidId,
+      'given-names': DEMO_GIVEN_NAMES[Math.floor(random() * DEMO_GIVEN_NAMES.length)],
+      'family-names': `${DEMO_FAMILY_NAMES[Math.floor(random() * DEMO_FAMILY_NAMES.length)]} ${i + 1}`,
+      'institution-name': [institution]
+    };
+  });
+  return { 'num-found': total, 'expanded-result': results.slice(start, start + rows) };
+};
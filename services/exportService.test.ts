@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { parseJsonSnapshot, toCsv } from './exportService';
+import { sampleProfiles } from './fixtures/profiles';
+
+describe('toCsv', () => {
+  it('prefixes text a spreadsheet would evaluate as a formula', () => {
+    const csv = toCsv([{ Title: '=HYPERLINK("http://example.com")', Journal: '+1 Letters', Note: '-', Year: -1 }]);
+    expect(csv.split('\r\n')[1]).toBe(`"'=HYPERLINK(""http://example.com"")",'+1 Letters,'-,-1`);
+  });
+
+  it('leaves ordinary text and headers unchanged', () => {
+    expect(toCsv([{ 'Title, full': 'Glazing under pressure' }])).toBe('"Title, full"\r\nGlazing under pressure');
+  });
+});
+
+describe('workbook sheets', () => {
+  it('store formula-like text as plain string cells', () => {
+    const sheet = XLSX.utils.json_to_sheet([{ '=Title': '=1+2' }]);
+    expect(sheet.A1).toMatchObject({ t: 's', v: '=Title' });
+    expect(sheet.A2).toMatchObject({ t: 's', v: '=1+2' });
+    expect(sheet.A2.f).toBeUndefined();
+  });
+});
+
+describe('parseJsonSnapshot', () => {
+  const snapshot = (processedProfiles: unknown, extra: Record<string, unknown> = {}) => JSON.stringify({
+    format: 'orcid-analytics-snapshot',
+    version: 1,
+    stats: { processedProfiles },
+    ...extra
+  });
+
+  it('restores profiles and filters written by the export', () => {
+    const profiles = sampleProfiles();
+    const restored = parseJsonSnapshot(snapshot(profiles, { filters: 'from=2021&type=Journal+article' }));
+    expect(restored.profiles).toHaveLength(2);
+    expect(restored.profiles[0]).toMatchObject({
+      orcidId: '0000-0002-1825-0097',
+      fullName: 'Josiah Carberry',
+      attributes: { Department: 'Psychoceramics' }
+    });
+    expect(restored.profiles[0].works.map(work => work.title)).toEqual(profiles[0].works.map(work => work.title));
+    expect(restored.filters).toMatchObject({ yearFrom: 2021, types: ['Journal article'] });
+  });
+
+  it('fills in lists missing from older or hand-edited files', () => {
+    const { profiles } = parseJsonSnapshot(snapshot([
+      { orcidId: 'https://orcid.org/0000-0002-1825-0097', works: [{ title: 'Glazing', year: '2021', putCode: 7, citations: { count: 'many' } }] }
+    ]));
+    expect(profiles[0]).toMatchObject({
+      orcidId: '0000-0002-1825-0097',
+      fullName: 'Researcher 0000-0002-1825-0097',
+      source: 'cached',
+      employments: [],
+      educations: [],
+      keywords: [],
+      attributes: {}
+    });
+    expect(profiles[0].works[0]).toMatchObject({ title: 'Glazing', year: null, type: 'other', putCode: '7', externalIds: [] });
+    expect(profiles[0].works[0].citations).toBeUndefined();
+  });
+
+  it.each([
+    ['not JSON', '{', 'The file is not valid JSON.'],
+    ['another JSON file', JSON.stringify({ stats: {} }), 'This JSON file is not an ORCID Analytics snapshot.'],
+    ['a newer version', JSON.stringify({ format: 'orcid-analytics-snapshot', version: 99 }), 'Snapshot version 99 is newer than this app supports.'],
+    ['no profiles', snapshot([]), 'The snapshot contains no profiles.'],
+    ['a profile without an iD', snapshot([{ fullName: 'Nobody' }]), 'Profile 1 in the snapshot has no valid ORCID iD.'],
+    ['works that are not a list', snapshot([{ orcidId: '0000-0002-1825-0097', works: 'none' }]), 'Profile 1 in the snapshot has an invalid "works" list.'],
+    ['a malformed work', snapshot([{ orcidId: '0000-0002-1825-0097', works: [{ externalIds: 'doi' }] }]), 'Work 1 of profile 1 has an invalid "externalIds" list.']
+  ])('rejects %s', (_, text, message) => {
+    expect(() => parseJsonSnapshot(text)).toThrow(message);
+  });
+});
@@ -0,0 +1,320 @@
+import * as XLSX from 'xlsx';
+import {
+  AnalysisFilters, AnalysisStats, JournalMatchMethod, MergedWorkField, OrcidAffiliation, OrcidProfileData, OrcidWork, WorkQualityFlag
+} from '../types';
+import { downloadFile } from './downloadService';
+import { hasDemoData } from './citationService';
+import { EMPTY_FILTERS, filtersFromSearchParams, filtersToSearchParams } from './filterService';
+import { formatOrcidType, getWorkCategory } from './taxonomyService';
+import { normalizeOrcidId } from './importService';
+import { QUALITY_FLAG_LABELS } from './workMergeService';
+
+const SNAPSHOT_FORMAT = 'orcid-analytics-snapshot';
+const SNAPSHOT_VERSION = 1;
+
+export interface ChartImage {
+  title: string;
+  dataUrl: string;
+}
+
+const timestamp = () => new Date().toISOString().slice(0, 10);
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// ORCID records are editable by anyone: CSV text that a spreadsheet would read as a formula is
+// prefixed with an apostrophe so it stays text. Workbook cells are typed as strings already and
+// are never evaluated, so they keep the text unchanged.
+const neutralizeFormula = (value: unknown) =>
+  typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+const escapeCsv = (value: unknown) => {
+  const safe = neutralizeFormula(value);
+  const text = safe === null || safe === undefined ? '' : String(safe);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: Record<string, unknown>[]): string => {
+  if (rows.length === 0) return '';
+  const columns = Object.keys(rows[0]);
+  return [
+    columns.map(escapeCsv).join(','),
+    ...rows.map(row => columns.map(column => escapeCsv(row[column])).join(','))
+  ].join('\r\n');
+};
+
+const profileRows = (stats: AnalysisStats) => {
+  // Imported attributes can differ between rows; every row gets every column
+  const attributeKeys = Array.from(new Set(stats.processedProfiles.flatMap(profile => Object.keys(profile.attributes))));
+  return stats.processedProfiles.map((profile, index) => {
+    const metrics = stats.researcherMetrics[index];
+    return {
+      'ORCID iD': profile.orcidId,
+      'Name': profile.fullName,
+      'Current Affiliation': profile.employments.find(e => e.endYear === null)?.organization || '',
+      ...Object.fromEntries(attributeKeys.map(key => [key, profile.attributes[key] || ''])),
+      'Publications': profile.works.length,
+      'Latest Year': Math.max(0, ...profile.works.map(w => w.year || 0)) || '',
+      'Citations': stats.citationsAvailable ? metrics.citations : '',
+      'h-index': stats.citationsAvailable ? metrics.hIndex : '',
+      'i10-index': stats.citationsAvailable ? metrics.i10Index : '',
+      'Data Source': profile.source
+    };
+  });
+};
+
+const workRows = (profiles: OrcidProfileData[]) =>
+  profiles.flatMap(profile => profile.works.map(work => ({
+    'ORCID iD': profile.orcidId,
+    'Researcher': profile.fullName,
+    'Title': work.title,
+    'Year': work.year ?? '',
+    'Type': formatOrcidType(work.type),
+    'Category': getWorkCategory(work),
+    'Journal': work.journal || '',
+    'DOI': work.doi || '',
+    'Put Code': work.putCode,
+    'Citations': work.citations?.count ?? '',
+    'Sources': (work.sources || []).join('; '),
+    'Quality Flags': (work.qualityFlags || []).join('; ')
+  })));
+
+// Recharts renders SVG; serialise each chart so it can be embedded in the printable report
+export const captureChartImages = (container: HTMLElement | null): ChartImage[] => {
+  if (!container) return [];
+  return Array.from(container.querySelectorAll<HTMLElement>('[data-chart-title]'))
+    .map(chart => {
+      const svg = chart.querySelector('svg.recharts-surface') || chart.querySelector('svg');
+      if (!svg) return null;
+      const clone = svg.cloneNode(true) as SVGElement;
+      clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+      const markup = new XMLSerializer().serializeToString(clone);
+      return {
+        title: chart.dataset.chartTitle || '',
+        dataUrl: `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`
+      };
+    })
+    .filter((image): image is ChartImage => image !== null);
+};
+
+export const buildHtmlReport = (stats: AnalysisStats, charts: ChartImage[]): string => {
+  const kpis = [
+    ['Researchers', stats.totalResearchers],
+    ['Unique Publications', stats.uniquePublications],
+    ['Researcher-attributed', stats.totalPublications],
+    ['Avg. per Person', stats.avgPublications.toFixed(1)],
+    ['Active Years', stats.publicationsByYear.length],
+    ...(stats.citationsAvailable ? [['Total Citations', stats.totalCitations], ['Median h-index', stats.medianHIndex]] : [])
+  ];
+  const rows = profileRows(stats);
+  const columns = rows.length > 0 ? Object.keys(rows[0]) : [];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>ORCID Analytics Report ${timestamp()}</title>
+<style>
+  body { font-family: 'Inter', Arial, sans-serif; color: #111827; margin: 32px; }
+  h1 { font-size: 22px; margin-bottom: 4px; }
+  .meta { color: #6b7280; font-size: 12px; margin-bottom: 24px; }
+  .kpis { display: grid; grid-template-columns: repeat(4, 1fr); gap: 12px; margin-bottom: 24px; }
+  .kpi { border: 1px solid #e5e7eb; border-radius: 8px; padding: 12px; }
+  .kpi .label { font-size: 11px; color: #6b7280; }
+  .kpi .value { font-size: 20px; font-weight: 700; }
+  .charts { display: grid; grid-template-columns: 1fr 1fr; gap: 16px; margin-bottom: 24px; }
+  .chart { border: 1px solid #e5e7eb; border-radius: 8px; padding: 12px; page-break-inside: avoid; }
+  .chart h3 { font-size: 13px; margin: 0 0 8px; }
+  .chart img { width: 100%; }
+  table { width: 100%; border-collapse: collapse; font-size: 11px; }
+  th, td { border-bottom: 1px solid #e5e7eb; padding: 6px; text-align: left; }
+  th { background: #f9fafb; color: #6b7280; }
+  @media print { body { margin: 12mm; } }
+</style>
+</head>
+<body>
+<h1>ORCID Analytics Report</h1>
+<p class="meta">Generated ${escapeHtml(new Date().toLocaleString())}${
+  hasDemoData(stats.processedProfiles) ? ' • contains generated demo data' : ''}</p>
+<div class="kpis">
+${kpis.map(([label, value]) => `  <div class="kpi"><div class="label">${label}</div><div class="value">${value}</div></div>`).join('\n')}
+</div>
+<div class="charts">
+${charts.map(chart => `  <div class="chart"><h3>${escapeHtml(chart.title)}</h3><img src="${chart.dataUrl}" alt="${escapeHtml(chart.title)}" /></div>`).join('\n')}
+</div>
+<h2>Researcher Breakdown</h2>
+<table>
+  <thead><tr>${columns.map(column => `<th>${escapeHtml(column)}</th>`).join('')}</tr></thead>
+  <tbody>
+${rows.map(row => `    <tr>${columns.map(column => `<td>${escapeHtml(String((row as Record<string, unknown>)[column] ?? ''))}</td>`).join('')}</tr>`).join('\n')}
+  </tbody>
+</table>
+</body>
+</html>`;
+};
+
+// Opens the report in a new window and invokes the print dialog, where "Save as PDF" produces the PDF
+export const printHtmlReport = (html: string) => {
+  const reportWindow = window.open('', '_blank');
+  if (!reportWindow) throw new Error('The report window was blocked. Please allow pop-ups for this site.');
+  reportWindow.document.open();
+  reportWindow.document.write(html);
+  reportWindow.document.close();
+  reportWindow.focus();
+  // Give the embedded chart images a moment to decode before printing
+  setTimeout(() => reportWindow.print(), 250);
+};
+
+export const exportHtmlReport = (stats: AnalysisStats, charts: ChartImage[]) =>
+  downloadFile(buildHtmlReport(stats, charts), `orcid-report-${timestamp()}.html`, 'text/html');
+
+export const exportWorkbook = (stats: AnalysisStats) => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(profileRows(stats)), 'Profiles');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(workRows(stats.processedProfiles)), 'Works');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(
+    stats.publicationsByYear.map(entry => ({ 'Year': entry.year, 'Unique Publications': entry.count }))
+  ), 'By Year');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(
+    stats.publicationsByType.map(entry => ({ 'Category': entry.type, 'Unique Publications': entry.count }))
+  ), 'By Type');
+  const buffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+  downloadFile(buffer, `orcid-report-${timestamp()}.xlsx`, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+};
+
+export const exportWorksCsv = (stats: AnalysisStats) =>
+  // Leading BOM so Excel opens non-ASCII titles correctly
+  downloadFile('\uFEFF' + toCsv(workRows(stats.processedProfiles)), `orcid-works-${timestamp()}.csv`, 'text/csv');
+
+// stats should hold the full data; the filters travel alongside in their query-string form
+export const exportJsonSnapshot = (stats: AnalysisStats, filters: AnalysisFilters = EMPTY_FILTERS) => {
+  const snapshot = {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    exportedAt: new Date().toISOString(),
+    filters: filtersToSearchParams(filters).toString(),
+    stats
+  };
+  downloadFile(JSON.stringify(snapshot, null, 2), `orcid-snapshot-${timestamp()}.json`, 'application/json');
+};
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown) => typeof value === 'string' && value ? value : undefined;
+const yearOrNull = (value: unknown) => typeof value === 'number' && Number.isInteger(value) ? value : null;
+
+// A missing list is empty; a list of the wrong shape means the file was edited or damaged
+const listField = <T>(record: JsonObject, key: string, where: string, restore: (item: JsonObject, index: number) => T): T[] => {
+  const value = record[key];
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || !value.every(isObject)) throw new Error(`${where} has an invalid "${key}" list.`);
+  return value.map((item, index) => restore(item, index));
+};
+
+const stringListField = (record: JsonObject, key: string, where: string): string[] => {
+  const value = record[key];
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) throw new Error(`${where} has an invalid "${key}" list.`);
+  return value;
+};
+
+const MERGED_FIELDS: MergedWorkField[] = ['title', 'year', 'type', 'journal', 'doi'];
+const JOURNAL_MATCH_METHODS: JournalMatchMethod[] = ['issn', 'title', 'fuzzy', 'manual'];
+
+const restoreAffiliation = (item: JsonObject): OrcidAffiliation => ({
+  organization: optionalString(item.organization) || 'Unknown organization',
+  department: optionalString(item.department),
+  role: optionalString(item.role),
+  startYear: yearOrNull(item.startYear),
+  endYear: yearOrNull(item.endYear),
+  city: optionalString(item.city),
+  country: optionalString(item.country)
+});
+
+const restoreWork = (item: JsonObject, index: number, where: string): OrcidWork => {
+  const citations = isObject(item.citations) ? item.citations : undefined;
+  const provenance = isObject(item.provenance) ? item.provenance : {};
+  const journalMatch = JOURNAL_MATCH_METHODS.find(method => method === item.journalMatch);
+  return {
+    title: optionalString(item.title) || 'Untitled',
+    year: yearOrNull(item.year),
+    type: optionalString(item.type) || 'other',
+    journal: optionalString(item.journal),
+    doi: optionalString(item.doi),
+    putCode: typeof item.putCode === 'string' || typeof item.putCode === 'number' ? String(item.putCode) : `restored-${index}`,
+    externalIds: listField(item, 'externalIds', where, id => ({
+      type: optionalString(id.type) || 'other',
+      value: typeof id.value === 'string' ? id.value : '',
+      url: optionalString(id.url)
+    })),
+    category: optionalString(item.category),
+    journalClass: optionalString(item.journalClass),
+    ...(journalMatch ? { journalMatch } : {}),
+    ...(citations && typeof citations.count === 'number' ? { citations: {
+      count: citations.count,
+      fwci: typeof citations.fwci === 'number' ? citations.fwci : undefined,
+      provider: optionalString(citations.provider) || 'Unknown'
+    } } : {}),
+    sources: stringListField(item, 'sources', where),
+    provenance: Object.fromEntries(MERGED_FIELDS.flatMap(field => {
+      const source = optionalString(provenance[field]);
+      return source ? [[field, source]] : [];
+    })),
+    qualityFlags: stringListField(item, 'qualityFlags', where)
+      .filter((flag): flag is WorkQualityFlag => flag in QUALITY_FLAG_LABELS)
+  };
+};
+
+// Older or hand-edited snapshots may lack fields the dashboard reads without checking
+const restoreProfile = (value: unknown, index: number): OrcidProfileData => {
+  const where = `Profile ${index + 1} in the snapshot`;
+  if (!isObject(value)) throw new Error(`${where} is not an object.`);
+  const orcidId = typeof value.orcidId === 'string' ? normalizeOrcidId(value.orcidId) : null;
+  if (!orcidId) throw new Error(`${where} has no valid ORCID iD.`);
+  const attributes = isObject(value.attributes) ? value.attributes : {};
+  return {
+    orcidId,
+    fullName: optionalString(value.fullName) || `Researcher ${orcidId}`,
+    source: value.source === 'live' || value.source === 'demo' ? value.source : 'cached',
+    givenNames: optionalString(value.givenNames),
+    familyName: optionalString(value.familyName),
+    otherNames: stringListField(value, 'otherNames', where),
+    biography: optionalString(value.biography),
+    keywords: stringListField(value, 'keywords', where),
+    researcherUrls: listField(value, 'researcherUrls', where, url => ({
+      name: optionalString(url.name) || '',
+      url: optionalString(url.url) || ''
+    })).filter(url => url.url),
+    country: optionalString(value.country),
+    employments: listField(value, 'employments', where, restoreAffiliation),
+    educations: listField(value, 'educations', where, restoreAffiliation),
+    attributes: Object.fromEntries(Object.entries(attributes).filter((entry): entry is [string, string] => typeof entry[1] === 'string')),
+    works: listField(value, 'works', where, (item, workIndex) => restoreWork(item, workIndex, `Work ${workIndex + 1} of profile ${index + 1}`))
+  };
+};
+
+/**
+ * Reads a file produced by exportJsonSnapshot. Only the profiles and filters are restored;
+ * the statistics are recomputed so they always match the current code.
+ */
+export const parseJsonSnapshot = (text: string): { profiles: OrcidProfileData[]; filters: AnalysisFilters } => {
+  let snapshot: unknown;
+  try {
+    snapshot = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isObject(snapshot) || snapshot.format !== SNAPSHOT_FORMAT) {
+    throw new Error('This JSON file is not an ORCID Analytics snapshot.');
+  }
+  if (typeof snapshot.version === 'number' && snapshot.version > SNAPSHOT_VERSION) {
+    throw new Error(`Snapshot version ${snapshot.version} is newer than this app supports.`);
+  }
+  const profiles = isObject(snapshot.stats) ? snapshot.stats.processedProfiles : undefined;
+  if (!Array.isArray(profiles) || profiles.length === 0) throw new Error('The snapshot contains no profiles.');
+  const filters = typeof snapshot.filters === 'string' ? filtersFromSearchParams(new URLSearchParams(snapshot.filters)) : EMPTY_FILTERS;
+  return { profiles: profiles.map(restoreProfile), filters };
+};
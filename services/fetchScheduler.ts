@@ -0,0 +1,121 @@
+import { FetchProgress, OrcidFetchResult } from '../types';
+import { FetchOptions, fetchOrcidData } from './orcidService';
+
+// ORCID's public API allows 24 requests/second (burst 40); stay well below it
+export const DEFAULT_REQUESTS_PER_SECOND = 12;
+export const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+
+export interface SchedulerOptions {
+  concurrency?: number;
+  requestsPerSecond?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: FetchProgress) => void;
+  onResult?: (result: OrcidFetchResult) => void;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new DOMException('Aborted', 'AbortError'));
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Spaces requests evenly so that bursts from parallel workers never exceed the configured rate
+export const createRateLimiter = (requestsPerSecond: number, signal?: AbortSignal) => {
+  const interval = 1000 / requestsPerSecond;
+  let nextSlot = 0;
+
+  return async () => {
+    const now = Date.now();
+    const slot = Math.max(now, nextSlot);
+    nextSlot = slot + interval;
+    if (slot > now) await sleep(slot - now, signal);
+  };
+};
+
+const isRetryable = (result: OrcidFetchResult) =>
+  result.status === 'failed' &&
+  result.httpStatus !== undefined &&
+  (result.httpStatus === 429 || result.httpStatus >= 500);
+
+export const fetchOrcidBatch = async (
+  ids: string[],
+  fetchOptions: FetchOptions = {},
+  options: SchedulerOptions = {}
+): Promise<OrcidFetchResult[]> => {
+  const {
+    concurrency = DEFAULT_CONCURRENCY,
+    requestsPerSecond = DEFAULT_REQUESTS_PER_SECOND,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    signal,
+    onProgress,
+    onResult
+  } = options;
+
+  const throttle = createRateLimiter(requestsPerSecond, signal);
+  const results: OrcidFetchResult[] = new Array(ids.length);
+  let cursor = 0;
+
+  const fetchWithRetry = async (id: string): Promise<OrcidFetchResult> => {
+    for (let attempt = 0; ; attempt++) {
+      onProgress?.({ orcidId: id, status: attempt === 0 ? 'running' : 'retrying', attempt });
+      const result = await fetchOrcidData(id, { ...fetchOptions, signal, throttle });
+
+      if (signal?.aborted || !isRetryable(result) || attempt >= maxRetries) return result;
+
+      // Exponential backoff with jitter so parallel workers don't retry in lockstep
+      const delay = baseDelayMs * 2 ** attempt + Math.random() * baseDelayMs;
+      onProgress?.({
+        orcidId: id,
+        status: 'retrying',
+        attempt: attempt + 1,
+        message: result.status === 'failed' ? result.reason : undefined
+      });
+      try {
+        await sleep(delay, signal);
+      } catch {
+        return result;
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (cursor < ids.length) {
+      const index = cursor++;
+      const id = ids[index];
+
+      if (signal?.aborted) {
+        results[index] = { status: 'failed', orcidId: id, reason: 'Cancelled by user.' };
+        onProgress?.({ orcidId: id, status: 'cancelled' });
+        continue;
+      }
+
+      const result = await fetchWithRetry(id);
+      results[index] = result;
+      onProgress?.({
+        orcidId: id,
+        status: result.status === 'ok' ? 'ok' : signal?.aborted ? 'cancelled' : 'failed',
+        message: result.status === 'failed' ? result.reason : undefined
+      });
+      // Requests interrupted by cancellation are not real failures, so they are not reported
+      if (result.status === 'ok' || !signal?.aborted) onResult?.(result);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, ids.length) }, worker));
+  return results;
+};
@@ -0,0 +1,108 @@
+import { AnalysisFilters, OrcidProfileData, OrcidWork } from '../types';
+import { getWorkCategory } from './taxonomyService';
+
+export const EMPTY_FILTERS: AnalysisFilters = {
+  yearFrom: null,
+  yearTo: null,
+  types: [],
+  journals: [],
+  researchers: [],
+  hasDoi: null
+};
+
+export const isFilterActive = (filters: AnalysisFilters) =>
+  filters.yearFrom !== null ||
+  filters.yearTo !== null ||
+  filters.types.length > 0 ||
+  filters.journals.length > 0 ||
+  filters.researchers.length > 0 ||
+  filters.hasDoi !== null;
+
+export const matchesWorkFilters = (work: OrcidWork, filters: AnalysisFilters): boolean => {
+  // An explicit year range excludes undated works
+  if (filters.yearFrom !== null && (work.year === null || work.year < filters.yearFrom)) return false;
+  if (filters.yearTo !== null && (work.year === null || work.year > filters.yearTo)) return false;
+  if (filters.types.length > 0 && !filters.types.includes(getWorkCategory(work))) return false;
+  if (filters.journals.length > 0 && !(work.journal && filters.journals.includes(work.journal))) return false;
+  if (filters.hasDoi !== null && Boolean(work.doi) !== filters.hasDoi) return false;
+  return true;
+};
+
+/**
+ * Restricts the dataset to the selected researchers and, within each profile, to the
+ * matching works. Researchers with no matching works are kept so head counts and
+ * per-person averages still reflect the whole group.
+ */
+export const applyFilters = (profiles: OrcidProfileData[], filters: AnalysisFilters): OrcidProfileData[] => {
+  if (!isFilterActive(filters)) return profiles;
+  return profiles
+    .filter(profile => filters.researchers.length === 0 || filters.researchers.includes(profile.orcidId))
+    .map(profile => ({ ...profile, works: profile.works.filter(work => matchesWorkFilters(work, filters)) }));
+};
+
+// Values for the filter dropdowns, taken from the unfiltered data
+export const getFilterOptions = (profiles: OrcidProfileData[]) => {
+  const works = profiles.flatMap(profile => profile.works);
+  const years = works.map(work => work.year).filter((year): year is number => year !== null);
+  return {
+    years: Array.from(new Set(years)).sort((a, b) => a - b),
+    types: Array.from(new Set(works.map(getWorkCategory))).sort(),
+    journals: Array.from(new Set(works.map(work => work.journal).filter((j): j is string => Boolean(j)))).sort(),
+    researchers: profiles.map(profile => ({ orcidId: profile.orcidId, fullName: profile.fullName }))
+  };
+};
+
+export const toggleValue = (values: string[], value: string) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+// Human-readable summary, e.g. for the chat context
+export const describeFilters = (filters: AnalysisFilters, profiles: OrcidProfileData[]): string[] => {
+  const names = new Map(profiles.map(profile => [profile.orcidId, profile.fullName]));
+  const parts: string[] = [];
+  if (filters.yearFrom !== null || filters.yearTo !== null) {
+    parts.push(filters.yearFrom === filters.yearTo
+      ? `Year ${filters.yearFrom}`
+      : `Years ${filters.yearFrom ?? '…'}–${filters.yearTo ?? '…'}`);
+  }
+  if (filters.types.length > 0) parts.push(`Type: ${filters.types.join(', ')}`);
+  if (filters.journals.length > 0) parts.push(`Journal: ${filters.journals.join(', ')}`);
+  if (filters.researchers.length > 0) parts.push(`Researcher: ${filters.researchers.map(id => names.get(id) || id).join(', ')}`);
+  if (filters.hasDoi !== null) parts.push(filters.hasDoi ? 'With DOI' : 'Without DOI');
+  return parts;
+};
+
+// Filters live in the query string so a filtered view can be shared as a link
+export const filtersToSearchParams = (filters: AnalysisFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (filters.yearFrom !== null) params.set('from', String(filters.yearFrom));
+  if (filters.yearTo !== null) params.set('to', String(filters.yearTo));
+  filters.types.forEach(type => params.append('type', type));
+  filters.journals.forEach(journal => params.append('journal', journal));
+  filters.researchers.forEach(orcidId => params.append('researcher', orcidId));
+  if (filters.hasDoi !== null) params.set('doi', filters.hasDoi ? 'yes' : 'no');
+  return params;
+};
+
+export const filtersFromSearchParams = (params: URLSearchParams): AnalysisFilters => {
+  const parseYear = (value: string | null) => {
+    const year = value ? parseInt(value, 10) : NaN;
+    return Number.isNaN(year) ? null : year;
+  };
+  const doi = params.get('doi');
+  return {
+    yearFrom: parseYear(params.get('from')),
+    yearTo: parseYear(params.get('to')),
+    types: params.getAll('type'),
+    journals: params.getAll('journal'),
+    researchers: params.getAll('researcher'),
+    hasDoi: doi === 'yes' ? true : doi === 'no' ? false : null
+  };
+};
+
+// Keeps parameters owned by other features and replaces only the filter ones
+export const writeFiltersToUrl = (filters: AnalysisFilters) => {
+  const url = new URL(window.location.href);
+  ['from', 'to', 'type', 'journal', 'researcher', 'doi'].forEach(key => url.searchParams.delete(key));
+  filtersToSearchParams(filters).forEach((value, key) => url.searchParams.append(key, value));
+  window.history.replaceState(null, '', url.toString());
+};
@@ -0,0 +1,48 @@
+import { OrcidProfileData, OrcidWork } from '../../types';
+
+// Builders for small hand-written batches used by the service tests
+
+let nextPutCode = 1;
+
+export const makeWork = (overrides: Partial<OrcidWork> = {}): OrcidWork => ({
+  title: 'Untitled',
+  year: 2020,
+  type: 'journal-article',
+  putCode: String(nextPutCode++),
+  ...overrides
+});
+
+export const makeProfile = (orcidId: string, fullName: string, overrides: Partial<OrcidProfileData> = {}): OrcidProfileData => ({
+  orcidId,
+  fullName,
+  source: 'live',
+  otherNames: [],
+  keywords: [],
+  researcherUrls: [],
+  employments: [],
+  educations: [],
+  attributes: {},
+  works: [],
+  ...overrides
+});
+
+// Two researchers in different departments sharing one co-authored paper
+export const sampleProfiles = (): OrcidProfileData[] => [
+  makeProfile('0000-0002-1825-0097', 'Josiah Carberry', {
+    attributes: { Department: 'Psychoceramics' },
+    employments: [{ organization: 'Brown University', department: 'Psychoceramics', startYear: 2001, endYear: null }],
+    works: [
+      makeWork({ title: 'Cracked pots and the theory of cracks', year: 2019, journal: 'Journal of Psychoceramics', doi: '10.1234/pots.1', putCode: '11' }),
+      makeWork({ title: 'Glazing under pressure', year: 2021, journal: 'Journal of Psychoceramics', doi: '10.1234/pots.2', putCode: '12' }),
+      makeWork({ title: 'Kiln temperatures in practice', year: 2022, type: 'conference-paper', putCode: '13' })
+    ]
+  }),
+  makeProfile('0000-0003-1584-6722', 'Olena Melnyk', {
+    attributes: { Department: 'Ceramic Engineering' },
+    employments: [{ organization: 'Brown University', department: 'Ceramic Engineering', startYear: 2015, endYear: null }],
+    works: [
+      makeWork({ title: 'Glazing under pressure', year: 2021, journal: 'Journal of Psychoceramics', doi: '10.1234/pots.2', putCode: '21' }),
+      makeWork({ title: 'Porcelain fatigue', year: 2023, journal: 'Ceramics Letters', putCode: '22' })
+    ]
+  })
+];
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import {
+  applyColumnMapping, guessColumnMapping, isValidOrcidChecksum, normalizeOrcidId, orcidCheckDigit, parseDelimited, readTableFile
+} from './importService';
+
+describe('parseDelimited', () => {
+  it('keeps delimiters, escaped quotes and line breaks inside quoted fields', () => {
+    expect(parseDelimited('name,title\n"Carberry, Josiah","The ""cracked"" pot\nrevisited"\n', ',')).toEqual([
+      ['name', 'title'],
+      ['Carberry, Josiah', 'The "cracked" pot\nrevisited']
+    ]);
+  });
+
+  it('accepts CRLF and bare CR line endings and drops blank lines', () => {
+    expect(parseDelimited('a;b\r\n1;2\r\n\r\n3;4\r5;6', ';')).toEqual([['a', 'b'], ['1', '2'], ['3', '4'], ['5', '6']]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(parseDelimited('a\t\tc\n', '\t')).toEqual([['a', '', 'c']]);
+  });
+});
+
+describe('ORCID iDs', () => {
+  it('computes the ISO 7064 11,2 check digit, including X', () => {
+    expect(orcidCheckDigit('000000021825009')).toBe('7');
+    expect(orcidCheckDigit('000000021694233')).toBe('X');
+    expect(isValidOrcidChecksum('0000-0002-1694-233X')).toBe(true);
+    expect(isValidOrcidChecksum('0000-0002-1825-0098')).toBe(false);
+  });
+
+  it.each([
+    ['0000-0002-1825-0097', '0000-0002-1825-0097'],
+    [' https://orcid.org/0000-0002-1825-0097/ ', '0000-0002-1825-0097'],
+    ['http://www.orcid.org/0000-0002-1825-0097', '0000-0002-1825-0097'],
+    ['https://sandbox.orcid.org/0000-0002-1825-0097', '0000-0002-1825-0097'],
+    ['000000021694233x', '0000-0002-1694-233X'],
+    ['0000 0002 1825 0097', '0000-0002-1825-0097'],
+    ['0000-0002-1825', null],
+    ['https://example.org/0000-0002-1825-0097', null],
+    ['Josiah Carberry', null]
+  ])('normalizes %j to %j', (raw, expected) => {
+    expect(normalizeOrcidId(raw)).toBe(expected);
+  });
+});
+
+describe('importing a researcher list', () => {
+  const csv = [
+    'ORCID;Department;Notes',
+    'https://orcid.org/0000-0002-1825-0097;Psychoceramics;"Lead; founder"',
+    '0000-0002-1694-233x;Ceramic Engineering;',
+    '0000-0002-1825-0098;Psychoceramics;typo',
+    'not an id;;',
+    '0000000218250097;Psychoceramics;again'
+  ].join('\r\n');
+
+  it('strips a byte order mark and detects the delimiter', async () => {
+    const table = await readTableFile(new File(['\uFEFF' + csv], 'staff.csv'));
+    expect(table.columns).toEqual(['ORCID', 'Department', 'Notes']);
+    expect(table.rows[0]).toEqual(['https://orcid.org/0000-0002-1825-0097', 'Psychoceramics', 'Lead; founder']);
+  });
+
+  it('reads the first sheet of a workbook', async () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['ORCID iD', 'Faculty'], ['0000-0002-1825-0097', 'Arts']]), 'Staff');
+    const buffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' }) as ArrayBuffer;
+    const table = await readTableFile(new File([buffer], 'staff.xlsx'));
+    expect(table.columns).toEqual(['ORCID iD', 'Faculty']);
+    expect(table.rows).toEqual([['0000-0002-1825-0097', 'Arts']]);
+  });
+
+  it('reports bad checksums, non-iDs and duplicates by spreadsheet row', async () => {
+    const table = await readTableFile(new File([csv], 'staff.csv'));
+    const mapping = guessColumnMapping(table);
+    expect(mapping.orcidColumn).toBe(0);
+    expect(mapping.attributeColumns.filter(column => column.include).map(column => column.label)).toEqual(['Department']);
+
+    const result = applyColumnMapping(table, mapping);
+    expect(result.researchers).toEqual([
+      { orcidId: '0000-0002-1825-0097', row: 2, attributes: { Department: 'Psychoceramics' } },
+      { orcidId: '0000-0002-1694-233X', row: 3, attributes: { Department: 'Ceramic Engineering' } }
+    ]);
+    expect(result.invalid).toEqual([
+      { row: 4, value: '0000-0002-1825-0098', reason: 'Checksum mismatch (likely a typo)' },
+      { row: 5, value: 'not an id', reason: 'Not an ORCID iD' }
+    ]);
+    expect(result.duplicates).toEqual([{ orcidId: '0000-0002-1825-0097', rows: [2, 6] }]);
+  });
+});
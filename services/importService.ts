@@ -0,0 +1,184 @@
+import * as XLSX from 'xlsx';
+import { ColumnMapping, ImportedTable, ImportResult, ImportedResearcher } from '../types';
+
+const ORCID_PATTERN = /^(\d{4}-){3}\d{3}[\dX]$/;
+const ORCID_URL_PREFIX = /^https?:\/\/(www\.)?(sandbox\.)?orcid\.org\//i;
+
+// Column headers we recognise automatically, mapped to the label used for grouping
+const KNOWN_ATTRIBUTES: { label: string; pattern: RegExp }[] = [
+  { label: 'Department', pattern: /^(department|dept|кафедра)$/i },
+  { label: 'Faculty', pattern: /^(faculty|school|факультет|інститут)$/i },
+  { label: 'Position', pattern: /^(position|title|role|посада)$/i },
+  { label: 'Start year', pattern: /^(start[ _-]?year|since|year[ _-]?started)$/i }
+];
+
+/**
+ * RFC 4180 parser: handles quoted fields, escaped quotes ("") and line breaks inside quotes.
+ */
+export const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines (including the usual trailing newline)
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const candidates = ['\t', ';', ','];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  , ',');
+};
+
+export const readTableFile = async (file: File): Promise<ImportedTable> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  let rows: string[][];
+
+  if (extension === 'xlsx' || extension === 'xls') {
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!sheet) throw new Error("The workbook contains no sheets.");
+    rows = (XLSX.utils.sheet_to_json(sheet, { header: 1, raw: false, defval: '' }) as unknown[][])
+      .map(row => row.map(cell => String(cell ?? '')))
+      .filter(row => row.some(cell => cell.trim() !== ''));
+  } else {
+    const text = (await file.text()).replace(/^\uFEFF/, '');
+    rows = parseDelimited(text, extension === 'tsv' ? '\t' : detectDelimiter(text));
+  }
+
+  if (rows.length < 2) throw new Error("The file must contain a header row and at least one data row.");
+
+  const [header, ...body] = rows;
+  return {
+    fileName: file.name,
+    columns: header.map((h, i) => h.trim() || `Column ${i + 1}`),
+    rows: body
+  };
+};
+
+/**
+ * ISO 7064 11,2 check digit, as used by ORCID for the last character of an iD.
+ */
+export const orcidCheckDigit = (baseDigits: string): string => {
+  let total = 0;
+  for (let i = 0; i < 15; i++) {
+    total = (total + parseInt(baseDigits[i], 10)) * 2;
+  }
+  const result = (12 - (total % 11)) % 11;
+  return result === 10 ? 'X' : String(result);
+};
+
+export const isValidOrcidChecksum = (orcidId: string): boolean => {
+  const digits = orcidId.replace(/-/g, '');
+  return digits[15] === orcidCheckDigit(digits);
+};
+
+// Accepts bare iDs, iDs without dashes and https://orcid.org/... URLs
+export const normalizeOrcidId = (raw: string): string | null => {
+  let value = raw.trim().replace(ORCID_URL_PREFIX, '').replace(/\s+/g, '').replace(/\/$/, '').toUpperCase();
+  if (/^\d{15}[\dX]$/.test(value)) {
+    value = value.match(/.{4}/g)!.join('-');
+  }
+  return ORCID_PATTERN.test(value) ? value : null;
+};
+
+export const guessColumnMapping = (table: ImportedTable): ColumnMapping => {
+  let orcidColumn = table.columns.findIndex(column => /orcid/i.test(column));
+  if (orcidColumn === -1) {
+    // Fall back to the first column whose values look like ORCID iDs
+    orcidColumn = table.columns.findIndex((_, index) =>
+      table.rows.slice(0, 20).some(row => normalizeOrcidId(row[index] || '') !== null)
+    );
+  }
+
+  const attributeColumns = table.columns.map((column, index) => {
+    const known = KNOWN_ATTRIBUTES.find(attribute => attribute.pattern.test(column.trim()));
+    return { column: index, label: known ? known.label : column, include: Boolean(known) };
+  });
+
+  return { orcidColumn, attributeColumns };
+};
+
+export const applyColumnMapping = (table: ImportedTable, mapping: ColumnMapping): ImportResult => {
+  const result: ImportResult = { researchers: [], invalid: [], duplicates: [] };
+  if (mapping.orcidColumn < 0) return result;
+
+  const seen = new Map<string, ImportedResearcher>();
+  const duplicateRows = new Map<string, number[]>();
+
+  table.rows.forEach((row, index) => {
+    // +2: one for the header row, one because spreadsheets count from 1
+    const rowNumber = index + 2;
+    const raw = (row[mapping.orcidColumn] || '').trim();
+    if (!raw) return;
+
+    const orcidId = normalizeOrcidId(raw);
+    if (!orcidId) {
+      result.invalid.push({ row: rowNumber, value: raw, reason: 'Not an ORCID iD' });
+      return;
+    }
+    if (!isValidOrcidChecksum(orcidId)) {
+      result.invalid.push({ row: rowNumber, value: raw, reason: 'Checksum mismatch (likely a typo)' });
+      return;
+    }
+
+    const existing = seen.get(orcidId);
+    if (existing) {
+      duplicateRows.set(orcidId, [...(duplicateRows.get(orcidId) || [existing.row]), rowNumber]);
+      return;
+    }
+
+    const attributes: Record<string, string> = {};
+    mapping.attributeColumns
+      .filter(attribute => attribute.include && attribute.column !== mapping.orcidColumn)
+      .forEach(attribute => {
+        const value = (row[attribute.column] || '').trim();
+        if (value) attributes[attribute.label] = value;
+      });
+
+    const researcher = { orcidId, row: rowNumber, attributes };
+    seen.set(orcidId, researcher);
+    result.researchers.push(researcher);
+  });
+
+  result.duplicates = Array.from(duplicateRows, ([orcidId, rows]) => ({ orcidId, rows }));
+  return result;
+};
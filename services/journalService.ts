@@ -0,0 +1,186 @@
+import {
+  ImportedTable, JournalColumnMapping, JournalList, JournalListEntry, JournalMatchMethod, OrcidProfileData, OrcidWork
+} from '../types';
+import { bigrams, diceCoefficient, normalizeTitle } from './dedupService';
+import { JOURNAL_LISTS_STORE, runRequest } from './localDb';
+
+export const NOT_LISTED = 'Not listed';
+
+const ACTIVE_LIST_ID = 'active';
+
+// Journal names vary more than work titles ("J." vs "Journal"), so the bar is a little lower
+const JOURNAL_SIMILARITY_THRESHOLD = 0.85;
+
+const TITLE_HEADER = /^(journal|title|source|назва|журнал|видання)/i;
+const ISSN_HEADER = /issn/i;
+const CLASSIFICATION_HEADER = /(quartile|category|class|квартиль|категорія)/i;
+
+export const normalizeIssn = (raw: string): string | null => {
+  const compact = raw.toUpperCase().replace(/[^0-9X]/g, '');
+  return compact.length === 8 ? compact : null;
+};
+
+export const formatIssn = (issn: string) => `${issn.slice(0, 4)}-${issn.slice(4)}`;
+
+// A cell can hold several ISSNs, e.g. "1234-5678; 8765-4321"
+const parseIssnCell = (cell: string): string[] =>
+  cell.split(/[;,\s/]+/).map(normalizeIssn).filter((issn): issn is string => issn !== null);
+
+export const guessJournalColumns = (table: ImportedTable): JournalColumnMapping => ({
+  title: table.columns.findIndex(column => TITLE_HEADER.test(column.trim())),
+  issns: table.columns.map((column, index) => ISSN_HEADER.test(column) ? index : -1).filter(index => index >= 0),
+  classification: table.columns.findIndex(column => CLASSIFICATION_HEADER.test(column))
+});
+
+export const parseJournalList = (table: ImportedTable, columns: JournalColumnMapping): JournalList => {
+  if (columns.title < 0 && columns.issns.length === 0) {
+    throw new Error('Select a journal title or ISSN column.');
+  }
+  if (columns.classification < 0) {
+    throw new Error('Select the column with the quartile or category.');
+  }
+  const entries: JournalListEntry[] = table.rows
+    .map(row => ({
+      title: columns.title >= 0 ? (row[columns.title] || '').trim() : '',
+      issns: columns.issns.flatMap(index => parseIssnCell(row[index] || '')),
+      classification: (row[columns.classification] || '').trim()
+    }))
+    .filter(entry => entry.classification && (entry.title || entry.issns.length > 0));
+  if (entries.length === 0) throw new Error('The file contains no classified journals.');
+
+  return { id: ACTIVE_LIST_ID, fileName: table.fileName, importedAt: Date.now(), entries, manualMatches: {} };
+};
+
+const hasDecision = (list: JournalList, key: string) => Object.prototype.hasOwnProperty.call(list.manualMatches, key);
+
+export const getWorkIssns = (work: OrcidWork): string[] =>
+  (work.externalIds || [])
+    .filter(id => id.type === 'issn' || id.type === 'eissn')
+    .map(id => normalizeIssn(id.value))
+    .filter((issn): issn is string => issn !== null);
+
+export interface JournalMatcher {
+  match: (journal: string | undefined, issns: string[]) => { entry: JournalListEntry; method: JournalMatchMethod } | null;
+  suggest: (journal: string, limit: number) => { index: number; entry: JournalListEntry; score: number }[];
+}
+
+/**
+ * Builds lookup indexes once per list. Matching order: manual review decision, ISSN,
+ * exact normalized title, then fuzzy title among entries sharing the first word.
+ */
+export const createJournalMatcher = (list: JournalList): JournalMatcher => {
+  const byIssn = new Map<string, number>();
+  const byTitle = new Map<string, number>();
+  const byFirstWord = new Map<string, number[]>();
+  const grams = new Map<number, Set<string>>();
+
+  list.entries.forEach((entry, index) => {
+    entry.issns.forEach(issn => { if (!byIssn.has(issn)) byIssn.set(issn, index); });
+    const title = normalizeTitle(entry.title);
+    if (!title) return;
+    if (!byTitle.has(title)) byTitle.set(title, index);
+    const firstWord = title.split(' ')[0];
+    const bucket = byFirstWord.get(firstWord) || [];
+    bucket.push(index);
+    byFirstWord.set(firstWord, bucket);
+  });
+
+  const gramsOf = (index: number) => {
+    if (!grams.has(index)) grams.set(index, bigrams(normalizeTitle(list.entries[index].title)));
+    return grams.get(index)!;
+  };
+
+  const rank = (title: string, candidates: number[]) => {
+    const target = bigrams(title);
+    return candidates
+      .map(index => ({ index, entry: list.entries[index], score: diceCoefficient(target, gramsOf(index)) }))
+      .sort((a, b) => b.score - a.score);
+  };
+
+  return {
+    match: (journal, issns) => {
+      const title = journal ? normalizeTitle(journal) : '';
+      if (title && hasDecision(list, title)) {
+        const index = list.manualMatches[title];
+        return index === null ? null : { entry: list.entries[index], method: 'manual' };
+      }
+      for (const issn of issns) {
+        const index = byIssn.get(issn);
+        if (index !== undefined) return { entry: list.entries[index], method: 'issn' };
+      }
+      if (!title) return null;
+      const exact = byTitle.get(title);
+      if (exact !== undefined) return { entry: list.entries[exact], method: 'title' };
+      const best = rank(title, byFirstWord.get(title.split(' ')[0]) || [])[0];
+      return best && best.score >= JOURNAL_SIMILARITY_THRESHOLD ? { entry: best.entry, method: 'fuzzy' } : null;
+    },
+    // Review-queue candidates; scans the whole list, so only call it for a handful of titles
+    suggest: (journal, limit) => rank(normalizeTitle(journal), list.entries.map((_, index) => index))
+      .filter(candidate => candidate.score > 0)
+      .slice(0, limit)
+  };
+};
+
+// Works with neither a journal title nor an ISSN are left unclassified
+export const applyJournalList = (profiles: OrcidProfileData[], list: JournalList | null): OrcidProfileData[] => {
+  if (!list) return profiles;
+  const matcher = createJournalMatcher(list);
+  return profiles.map(profile => ({
+    ...profile,
+    works: profile.works.map(work => {
+      const issns = getWorkIssns(work);
+      if (!work.journal && issns.length === 0) return work;
+      const match = matcher.match(work.journal, issns);
+      return match
+        ? { ...work, journalClass: match.entry.classification, journalMatch: match.method }
+        : { ...work, journalClass: NOT_LISTED, journalMatch: undefined };
+    })
+  }));
+};
+
+// Journals that matched nothing and have not been reviewed yet, most frequent first
+export const findUnmatchedJournals = (profiles: OrcidProfileData[], list: JournalList) => {
+  const counts = new Map<string, { key: string; title: string; works: number }>();
+  profiles.forEach(profile => profile.works.forEach(work => {
+    if (work.journalClass !== NOT_LISTED || !work.journal) return;
+    const key = normalizeTitle(work.journal);
+    if (hasDecision(list, key)) return;
+    const item = counts.get(key) || { key, title: work.journal, works: 0 };
+    item.works++;
+    counts.set(key, item);
+  }));
+  return Array.from(counts.values()).sort((a, b) => b.works - a.works);
+};
+
+// Q1 < Q2 < ... with free-text categories after and "Not listed" last
+export const sortClassifications = (classes: string[]): string[] =>
+  [...classes].sort((a, b) => {
+    if (a === NOT_LISTED) return 1;
+    if (b === NOT_LISTED) return -1;
+    return a.localeCompare(b, undefined, { numeric: true });
+  });
+
+export const countByJournalClass = (works: OrcidWork[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  works.forEach(work => {
+    if (work.journalClass) counts[work.journalClass] = (counts[work.journalClass] || 0) + 1;
+  });
+  return counts;
+};
+
+export const loadJournalList = async (): Promise<JournalList | null> => {
+  try {
+    return (await runRequest<JournalList | undefined>(JOURNAL_LISTS_STORE, 'readonly', store => store.get(ACTIVE_LIST_ID))) || null;
+  } catch (error) {
+    console.warn(`Could not read the saved journal list: ${error}`);
+    return null;
+  }
+};
+
+export const saveJournalList = async (list: JournalList): Promise<void> => {
+  await runRequest(JOURNAL_LISTS_STORE, 'readwrite', store => store.put(list));
+};
+
+export const deleteJournalList = async (): Promise<void> => {
+  await runRequest(JOURNAL_LISTS_STORE, 'readwrite', store => store.delete(ACTIVE_LIST_ID));
+};
@@ -0,0 +1,240 @@
+import { GoogleGenAI, GenerateContentResponse } from '@google/genai';
+import { LlmProviderId, LlmSettings } from '../types';
+import { ChatModelAdapter, ChatModelReply, createMockAdapter } from './chatModel';
+
+const STORAGE_KEY = 'orcid-analytics.llm-settings';
+
+export const GEMINI_CHAT_MODEL = 'gemini-3-pro-preview';
+
+// Served by the app's own server (server/llmProxy.ts), which adds the API key
+export const LLM_PROXY_BASE_URL = '/api/llm/v1';
+
+export interface LlmProviderInfo {
+  id: LlmProviderId;
+  label: string;
+  description: string;
+  defaultModel: string;
+  defaultBaseUrl: string;
+  usesBaseUrl: boolean;
+  usesApiKey: boolean;
+}
+
+export const LLM_PROVIDERS: LlmProviderInfo[] = [
+  {
+    id: 'proxy',
+    label: 'Server proxy',
+    description: "Requests go through this app's server, which holds the API key. No key is sent to the browser.",
+    defaultModel: GEMINI_CHAT_MODEL,
+    defaultBaseUrl: '',
+    usesBaseUrl: false,
+    usesApiKey: true // the access token, when the server sets LLM_PROXY_TOKEN
+  },
+  {
+    id: 'openai-compatible',
+    label: 'OpenAI-compatible endpoint',
+    description: 'Any server with the OpenAI chat completions API, e.g. a local Ollama or llama.cpp server. The model must support tool calls.',
+    defaultModel: 'llama3.1',
+    defaultBaseUrl: 'http://localhost:11434/v1',
+    usesBaseUrl: true,
+    usesApiKey: true
+  },
+  {
+    id: 'gemini',
+    label: 'Gemini (direct)',
+    description: 'Calls Google from the browser with your own API key, which is stored in this browser.',
+    defaultModel: GEMINI_CHAT_MODEL,
+    defaultBaseUrl: '',
+    usesBaseUrl: false,
+    usesApiKey: true
+  },
+  {
+    id: 'stub',
+    label: 'Offline stub',
+    description: 'Keyword-based answers from the data tools, without any model. For testing.',
+    defaultModel: 'stub',
+    defaultBaseUrl: '',
+    usesBaseUrl: false,
+    usesApiKey: false
+  }
+];
+
+export const getProviderInfo = (id: LlmProviderId): LlmProviderInfo =>
+  LLM_PROVIDERS.find(provider => provider.id === id) || LLM_PROVIDERS[0];
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  provider: 'proxy',
+  model: GEMINI_CHAT_MODEL,
+  baseUrl: '',
+  apiKey: ''
+};
+
+export const loadLlmSettings = (): LlmSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_LLM_SETTINGS;
+    const parsed = JSON.parse(stored);
+    if (!LLM_PROVIDERS.some(provider => provider.id === parsed?.provider)) return DEFAULT_LLM_SETTINGS;
+    return { ...DEFAULT_LLM_SETTINGS, ...parsed };
+  } catch (error) {
+    console.warn(`Could not read the assistant settings: ${error}`);
+    return DEFAULT_LLM_SETTINGS;
+  }
+};
+
+export const saveLlmSettings = (settings: LlmSettings): LlmSettings => {
+  const provider = getProviderInfo(settings.provider);
+  const saved: LlmSettings = {
+    provider: provider.id,
+    model: settings.model.trim() || provider.defaultModel,
+    baseUrl: provider.usesBaseUrl ? settings.baseUrl.trim() || provider.defaultBaseUrl : '',
+    apiKey: provider.usesApiKey ? settings.apiKey.trim() : ''
+  };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+  } catch (error) {
+    console.warn(`Could not save the assistant settings: ${error}`);
+  }
+  return saved;
+};
+
+export const createGeminiAdapter = (apiKey: string, model: string = GEMINI_CHAT_MODEL): ChatModelAdapter => ({
+  label: `Gemini (${model})`,
+  startSession: (systemInstruction, tools, history) => {
+    const ai = new GoogleGenAI({ apiKey });
+    const chat = ai.chats.create({
+      model,
+      history: history.map(entry => ({ role: entry.role, parts: [{ text: entry.text }] })),
+      config: {
+        systemInstruction,
+        tools: [{
+          functionDeclarations: tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            parametersJsonSchema: tool.parameters
+          }))
+        }]
+      }
+    });
+    const toReply = (response: GenerateContentResponse): ChatModelReply => {
+      const toolCalls = (response.functionCalls || []).map(call => ({ id: call.id, name: call.name || '', args: call.args || {} }));
+      // Reading .text on a function-call-only response logs a warning, so skip it
+      return { text: toolCalls.length > 0 ? '' : response.text || '', toolCalls };
+    };
+    return {
+      send: async message => toReply(await chat.sendMessage({ message })),
+      sendToolResults: async results => toReply(await chat.sendMessage({
+        message: results.map(result => ({
+          functionResponse: {
+            id: result.id,
+            name: result.name,
+            response: result.error ? { error: result.error } : { output: result.result }
+          }
+        }))
+      }))
+    };
+  }
+});
+
+interface OpenAiToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+interface OpenAiMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: OpenAiToolCall[];
+  tool_call_id?: string;
+}
+
+// Arguments are a JSON string per the API, but some local servers send an object
+const parseArguments = (raw: unknown): Record<string, unknown> => {
+  if (raw && typeof raw === 'object') return raw as Record<string, unknown>;
+  try {
+    return typeof raw === 'string' && raw.trim() ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Chat completions with function calling, as implemented by OpenAI, Ollama, llama.cpp,
+ * vLLM and Gemini's compatibility endpoint. The API is stateless, so the session keeps
+ * the message list and resends it on every turn.
+ */
+export const createOpenAiCompatibleAdapter = (label: string, baseUrl: string, model: string, apiKey?: string): ChatModelAdapter => ({
+  label,
+  startSession: (systemInstruction, tools, history) => {
+    const messages: OpenAiMessage[] = [
+      { role: 'system', content: systemInstruction },
+      ...history.map((entry): OpenAiMessage => ({ role: entry.role === 'model' ? 'assistant' : 'user', content: entry.text }))
+    ];
+
+    const complete = async (): Promise<ChatModelReply> => {
+      const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+        body: JSON.stringify({
+          model,
+          messages,
+          ...(tools.length > 0 ? { tools: tools.map(tool => ({ type: 'function', function: tool })) } : {})
+        })
+      });
+      const body = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(body?.error?.message || `${label} returned HTTP ${response.status}.`);
+      const message = body?.choices?.[0]?.message;
+      if (!message) throw new Error(`${label} returned no message.`);
+
+      const toolCalls: OpenAiToolCall[] = message.tool_calls || [];
+      messages.push({ role: 'assistant', content: message.content ?? null, ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}) });
+      return {
+        text: message.content || '',
+        toolCalls: toolCalls.map(call => ({ id: call.id, name: call.function.name, args: parseArguments(call.function.arguments) }))
+      };
+    };
+
+    return {
+      send: async message => {
+        messages.push({ role: 'user', content: message });
+        return complete();
+      },
+      sendToolResults: async results => {
+        results.forEach(result => messages.push({
+          role: 'tool',
+          tool_call_id: result.id || '',
+          content: JSON.stringify(result.error ? { error: result.error } : result.result)
+        }));
+        return complete();
+      }
+    };
+  }
+});
+
+// Stands in for a provider that is not configured, so the chat reports why instead of failing silently
+const createUnavailableAdapter = (label: string, reason: string): ChatModelAdapter => ({
+  label,
+  startSession: () => ({
+    send: async () => { throw new Error(reason); },
+    sendToolResults: async () => { throw new Error(reason); }
+  })
+});
+
+export const createChatAdapter = (settings: LlmSettings): ChatModelAdapter => {
+  const provider = getProviderInfo(settings.provider);
+  const model = settings.model || provider.defaultModel;
+  switch (provider.id) {
+    case 'proxy':
+      return createOpenAiCompatibleAdapter(`Server proxy (${model})`, LLM_PROXY_BASE_URL, model, settings.apiKey || undefined);
+    case 'openai-compatible':
+      return settings.baseUrl
+        ? createOpenAiCompatibleAdapter(`${model} at ${settings.baseUrl}`, settings.baseUrl, model, settings.apiKey || undefined)
+        : createUnavailableAdapter(provider.label, 'Enter the endpoint URL in the assistant settings.');
+    case 'gemini':
+      return settings.apiKey
+        ? createGeminiAdapter(settings.apiKey, model)
+        : createUnavailableAdapter(provider.label, 'Enter a Gemini API key in the assistant settings, or use the server proxy.');
+    case 'stub':
+      return createMockAdapter();
+  }
+};
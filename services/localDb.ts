@@ -0,0 +1,65 @@
+const DB_NAME = 'orcid-analytics';
+const DB_VERSION = 5;
+
+export const RESPONSES_STORE = 'responses';
+export const SNAPSHOTS_STORE = 'snapshots';
+export const JOURNAL_LISTS_STORE = 'journalLists';
+export const CHAT_THREADS_STORE = 'chatThreads';
+export const REPORTS_STORE = 'reports';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        // Version 1: cached ORCID API responses
+        if (event.oldVersion < 1) {
+          const store = db.createObjectStore(RESPONSES_STORE, { keyPath: 'key' });
+          store.createIndex('orcidId', 'orcidId', { unique: false });
+        }
+        // Version 2: saved analysis snapshots
+        if (event.oldVersion < 2) {
+          const store = db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' });
+          store.createIndex('name', 'name', { unique: false });
+        }
+        // Version 3: imported journal classification lists
+        if (event.oldVersion < 3) {
+          db.createObjectStore(JOURNAL_LISTS_STORE, { keyPath: 'id' });
+        }
+        // Version 4: assistant conversations
+        if (event.oldVersion < 4) {
+          db.createObjectStore(CHAT_THREADS_STORE, { keyPath: 'id' });
+        }
+        // Version 5: generated narrative reports
+        if (event.oldVersion < 5) {
+          db.createObjectStore(REPORTS_STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed (e.g. blocked by another tab)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
@@ -0,0 +1,256 @@
+import { CollaborationNetwork, NetworkEdge, NetworkNode, OrcidProfileData, UniqueWork } from '../types';
+
+export interface YearRange {
+  from: number | null;
+  to: number | null;
+}
+
+const inRange = (year: number | null, range: YearRange) => {
+  if (range.from === null && range.to === null) return true;
+  if (year === null) return false;
+  return (range.from === null || year >= range.from) && (range.to === null || year <= range.to);
+};
+
+/**
+ * Label propagation: every node repeatedly adopts the label with the highest total edge
+ * weight among its neighbours. Nodes are visited in a fixed order and ties go to the
+ * smallest label, so the same input always produces the same clusters.
+ */
+const detectClusters = (ids: string[], edges: NetworkEdge[]): Map<string, number> => {
+  const neighbours = new Map<string, { id: string; weight: number }[]>(ids.map(id => [id, []]));
+  edges.forEach(edge => {
+    neighbours.get(edge.source)!.push({ id: edge.target, weight: edge.weight });
+    neighbours.get(edge.target)!.push({ id: edge.source, weight: edge.weight });
+  });
+
+  const labels = new Map(ids.map((id, index) => [id, index]));
+  for (let round = 0; round < 20; round++) {
+    let changed = false;
+    ids.forEach(id => {
+      const scores = new Map<number, number>();
+      neighbours.get(id)!.forEach(n => {
+        const label = labels.get(n.id)!;
+        scores.set(label, (scores.get(label) || 0) + n.weight);
+      });
+      if (scores.size === 0) return;
+      const [best] = Array.from(scores).sort((a, b) => b[1] - a[1] || a[0] - b[0])[0];
+      if (best !== labels.get(id)) {
+        labels.set(id, best);
+        changed = true;
+      }
+    });
+    if (!changed) break;
+  }
+
+  // Renumber clusters 0..k-1, largest first
+  const sizes = new Map<number, number>();
+  labels.forEach(label => sizes.set(label, (sizes.get(label) || 0) + 1));
+  const order = Array.from(sizes).sort((a, b) => b[1] - a[1] || a[0] - b[0]).map(([label]) => label);
+  return new Map(ids.map(id => [id, order.indexOf(labels.get(id)!)]));
+};
+
+// Brandes' algorithm on the unweighted graph, normalised to 0..1
+const computeBetweenness = (ids: string[], edges: NetworkEdge[]): Map<string, number> => {
+  const adjacency = new Map<string, string[]>(ids.map(id => [id, []]));
+  edges.forEach(edge => {
+    adjacency.get(edge.source)!.push(edge.target);
+    adjacency.get(edge.target)!.push(edge.source);
+  });
+
+  const centrality = new Map(ids.map(id => [id, 0]));
+  ids.forEach(source => {
+    const stack: string[] = [];
+    const predecessors = new Map<string, string[]>(ids.map(id => [id, []]));
+    const paths = new Map(ids.map(id => [id, 0]));
+    const distance = new Map(ids.map(id => [id, -1]));
+    paths.set(source, 1);
+    distance.set(source, 0);
+
+    const queue = [source];
+    while (queue.length > 0) {
+      const v = queue.shift()!;
+      stack.push(v);
+      adjacency.get(v)!.forEach(w => {
+        if (distance.get(w)! < 0) {
+          queue.push(w);
+          distance.set(w, distance.get(v)! + 1);
+        }
+        if (distance.get(w) === distance.get(v)! + 1) {
+          paths.set(w, paths.get(w)! + paths.get(v)!);
+          predecessors.get(w)!.push(v);
+        }
+      });
+    }
+
+    const dependency = new Map(ids.map(id => [id, 0]));
+    while (stack.length > 0) {
+      const w = stack.pop()!;
+      predecessors.get(w)!.forEach(v => {
+        dependency.set(v, dependency.get(v)! + (paths.get(v)! / paths.get(w)!) * (1 + dependency.get(w)!));
+      });
+      if (w !== source) centrality.set(w, centrality.get(w)! + dependency.get(w)!);
+    }
+  });
+
+  // Undirected graph: each pair was counted twice
+  const n = ids.length;
+  const scale = n > 2 ? 1 / ((n - 1) * (n - 2)) : 0;
+  return new Map(Array.from(centrality, ([id, value]) => [id, value * scale]));
+};
+
+export const buildCollaborationNetwork = (
+  profiles: OrcidProfileData[],
+  uniqueWorks: UniqueWork[],
+  range: YearRange = { from: null, to: null }
+): CollaborationNetwork => {
+  const ids = profiles.map(profile => profile.orcidId);
+  const edgeMap = new Map<string, NetworkEdge>();
+  const workCounts = new Map(ids.map(id => [id, 0]));
+
+  uniqueWorks
+    .filter(unique => inRange(unique.work.year, range))
+    .forEach(unique => {
+      unique.authors.forEach(author => workCounts.set(author, (workCounts.get(author) || 0) + 1));
+      const authors = [...unique.authors].sort();
+      for (let i = 0; i < authors.length; i++) {
+        for (let j = i + 1; j < authors.length; j++) {
+          const key = `${authors[i]}|${authors[j]}`;
+          const edge = edgeMap.get(key) || { source: authors[i], target: authors[j], weight: 0 };
+          edge.weight += 1;
+          edgeMap.set(key, edge);
+        }
+      }
+    });
+
+  const edges = Array.from(edgeMap.values());
+  const clusters = detectClusters(ids, edges);
+  const betweenness = computeBetweenness(ids, edges);
+
+  const nodes: NetworkNode[] = profiles.map(profile => {
+    const incident = edges.filter(edge => edge.source === profile.orcidId || edge.target === profile.orcidId);
+    return {
+      id: profile.orcidId,
+      label: profile.fullName,
+      works: workCounts.get(profile.orcidId) || 0,
+      degree: incident.length,
+      weightedDegree: incident.reduce((sum, edge) => sum + edge.weight, 0),
+      degreeCentrality: ids.length > 1 ? incident.length / (ids.length - 1) : 0,
+      betweenness: betweenness.get(profile.orcidId) || 0,
+      cluster: clusters.get(profile.orcidId) || 0
+    };
+  });
+
+  return { nodes, edges };
+};
+
+/**
+ * Fruchterman–Reingold force-directed layout. Starts from a circle rather than random
+ * positions so the picture is stable between renders.
+ */
+export const layoutNetwork = (
+  network: CollaborationNetwork,
+  width: number,
+  height: number,
+  iterations: number = 200
+): Map<string, { x: number; y: number }> => {
+  const n = network.nodes.length;
+  const positions = new Map(network.nodes.map((node, index) => [node.id, {
+    x: width / 2 + (width / 3) * Math.cos((2 * Math.PI * index) / Math.max(n, 1)),
+    y: height / 2 + (height / 3) * Math.sin((2 * Math.PI * index) / Math.max(n, 1))
+  }]));
+  if (n < 2) return positions;
+
+  const k = Math.sqrt((width * height) / n);
+  let temperature = width / 10;
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const displacement = new Map(network.nodes.map(node => [node.id, { x: 0, y: 0 }]));
+
+    // Repulsion between all pairs
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const a = positions.get(network.nodes[i].id)!;
+        const b = positions.get(network.nodes[j].id)!;
+        const dx = a.x - b.x;
+        const dy = a.y - b.y;
+        const distance = Math.max(Math.sqrt(dx * dx + dy * dy), 0.01);
+        const force = (k * k) / distance;
+        const da = displacement.get(network.nodes[i].id)!;
+        const db = displacement.get(network.nodes[j].id)!;
+        da.x += (dx / distance) * force;
+        da.y += (dy / distance) * force;
+        db.x -= (dx / distance) * force;
+        db.y -= (dy / distance) * force;
+      }
+    }
+
+    // Attraction along edges, stronger for pairs with more shared works
+    network.edges.forEach(edge => {
+      const a = positions.get(edge.source)!;
+      const b = positions.get(edge.target)!;
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const distance = Math.max(Math.sqrt(dx * dx + dy * dy), 0.01);
+      const force = ((distance * distance) / k) * Math.log2(1 + edge.weight);
+      const da = displacement.get(edge.source)!;
+      const db = displacement.get(edge.target)!;
+      da.x -= (dx / distance) * force;
+      da.y -= (dy / distance) * force;
+      db.x += (dx / distance) * force;
+      db.y += (dy / distance) * force;
+    });
+
+    // Weak pull to the centre keeps isolated researchers on screen
+    network.nodes.forEach(node => {
+      const position = positions.get(node.id)!;
+      const d = displacement.get(node.id)!;
+      d.x += (width / 2 - position.x) * 0.05;
+      d.y += (height / 2 - position.y) * 0.05;
+      const length = Math.max(Math.sqrt(d.x * d.x + d.y * d.y), 0.01);
+      position.x = Math.min(width - 20, Math.max(20, position.x + (d.x / length) * Math.min(length, temperature)));
+      position.y = Math.min(height - 20, Math.max(20, position.y + (d.y / length) * Math.min(length, temperature)));
+    });
+
+    temperature *= 0.97;
+  }
+
+  return positions;
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const networkToGraphML = (network: CollaborationNetwork): string => {
+  const nodes = network.nodes.map(node => [
+    `    <node id="${escapeXml(node.id)}">`,
+    `      <data key="label">${escapeXml(node.label)}</data>`,
+    `      <data key="works">${node.works}</data>`,
+    `      <data key="degree">${node.degree}</data>`,
+    `      <data key="betweenness">${node.betweenness.toFixed(4)}</data>`,
+    `      <data key="cluster">${node.cluster}</data>`,
+    `    </node>`
+  ].join('\n'));
+  const edges = network.edges.map((edge, index) =>
+    `    <edge id="e${index}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">\n` +
+    `      <data key="weight">${edge.weight}</data>\n    </edge>`
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="works" for="node" attr.name="works" attr.type="int"/>',
+    '  <key id="degree" for="node" attr.name="degree" attr.type="int"/>',
+    '  <key id="betweenness" for="node" attr.name="betweenness" attr.type="double"/>',
+    '  <key id="cluster" for="node" attr.name="cluster" attr.type="int"/>',
+    '  <key id="weight" for="edge" attr.name="weight" attr.type="int"/>',
+    '  <graph id="collaboration" edgedefault="undirected">',
+    ...nodes,
+    ...edges,
+    '  </graph>',
+    '</graphml>'
+  ].join('\n');
+};
+
+export const networkToJson = (network: CollaborationNetwork): string =>
+  JSON.stringify(network, null, 2);
@@ -0,0 +1,46 @@
+import { CacheEntry } from '../types';
+import { RESPONSES_STORE, runRequest } from './localDb';
+
+export const DEFAULT_CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 1 day
+
+export const cacheKey = (orcidId: string, endpoint: string) => `${orcidId}/${endpoint}`;
+
+export const isFresh = (entry: CacheEntry, ttlMs: number = DEFAULT_CACHE_TTL_MS) =>
+  Date.now() - entry.fetchedAt < ttlMs;
+
+// The cache is an optimisation: every accessor swallows storage errors so that
+// analysis still works when IndexedDB is unavailable (private browsing, quota exceeded)
+export const getCacheEntry = async (orcidId: string, endpoint: string): Promise<CacheEntry | undefined> => {
+  try {
+    return await runRequest<CacheEntry | undefined>(RESPONSES_STORE, 'readonly', store => store.get(cacheKey(orcidId, endpoint)));
+  } catch (error) {
+    console.warn(`Cache read failed for ${orcidId}/${endpoint}: ${error}`);
+    return undefined;
+  }
+};
+
+export const putCacheEntry = async (entry: CacheEntry): Promise<void> => {
+  try {
+    await runRequest(RESPONSES_STORE, 'readwrite', store => store.put(entry));
+  } catch (error) {
+    console.warn(`Cache write failed for ${entry.key}: ${error}`);
+  }
+};
+
+export const listCacheEntries = async (): Promise<CacheEntry[]> => {
+  try {
+    return await runRequest<CacheEntry[]>(RESPONSES_STORE, 'readonly', store => store.getAll());
+  } catch (error) {
+    console.warn(`Cache listing failed: ${error}`);
+    return [];
+  }
+};
+
+export const deleteProfileFromCache = async (orcidId: string): Promise<void> => {
+  const keys = await runRequest<IDBValidKey[]>(RESPONSES_STORE, 'readonly', store => store.index('orcidId').getAllKeys(orcidId));
+  await Promise.all(keys.map(key => runRequest(RESPONSES_STORE, 'readwrite', store => store.delete(key))));
+};
+
+export const clearCache = async (): Promise<void> => {
+  await runRequest(RESPONSES_STORE, 'readwrite', store => store.clear());
+};
@@ -1,107 +1,331 @@
-import { OrcidProfileData, OrcidWork } from '../types';
+import {
+  OrcidAffiliation, OrcidContributor, OrcidExternalId, OrcidFetchResult, OrcidProfileData,
+  OrcidResearcherUrl, OrcidWork, OrcidWorkDetail
+} from '../types';
+import { normalizeOrcidType } from './taxonomyService';
+import { getSummarySource, mergeWorkVersions } from './workMergeService';
+import { DEFAULT_CACHE_TTL_MS, cacheKey, getCacheEntry, isFresh, putCacheEntry } from './orcidCache';
 
 const ORCID_API_BASE = 'https://pub.orcid.org/v3.0';
 
-// Mock data generator for fallback if API fails (CORS is common with ORCID public API from browser)
+export interface FetchOptions {
+  // Opt-in: skip the API entirely and return seeded demo data
+  demoMode?: boolean;
+  signal?: AbortSignal;
+  // Called before every HTTP request, used by the batch scheduler for rate limiting
+  throttle?: () => Promise<void>;
+  // Bypass fresh cache entries and download everything again
+  forceRefresh?: boolean;
+  cacheTtlMs?: number;
+}
+
+export class OrcidApiError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'OrcidApiError';
+    this.status = status;
+  }
+}
+
+// Small seeded PRNG (mulberry32) so the same iD always yields the same demo profile
+export const createSeededRandom = (seed: string) => {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = (Math.imul(31, state) + seed.charCodeAt(i)) | 0;
+  }
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const DEMO_SHARED_WORKS = 12;
+
+// Demo data generator, only used when demo mode is explicitly enabled
 const generateMockData = (orcid: string): OrcidProfileData => {
+  const random = createSeededRandom(orcid);
   const years = [2018, 2019, 2020, 2021, 2022, 2023, 2024];
   const types = ['JOURNAL_ARTICLE', 'CONFERENCE_PAPER', 'BOOK_CHAPTER', 'BOOK'];
   const journals = ['Journal of Scientific Computing', 'Nature Communications', 'IEEE Access', 'Physical Review Letters', 'Bioinformatics'];
   
-  const works: OrcidWork[] = Array.from({ length: Math.floor(Math.random() * 20) + 5 }).map((_, i) => ({
+  const works: OrcidWork[] = Array.from({ length: Math.floor(random() * 20) + 5 }).map((_, i) => ({
     title: `Sample Research Publication ${i + 1} for ${orcid}`,
-    year: years[Math.floor(Math.random() * years.length)],
-    type: types[Math.floor(Math.random() * types.length)],
-    journal: journals[Math.floor(Math.random() * journals.length)],
+    year: years[Math.floor(random() * years.length)],
+    type: types[Math.floor(random() * types.length)],
+    journal: journals[Math.floor(random() * journals.length)],
     putCode: `mock-${i}`,
-    doi: `10.1000/mock.${i}`
+    doi: `10.1000/mock.${orcid}.${i}`,
+    externalIds: [{ type: 'doi', value: `10.1000/mock.${orcid}.${i}`, url: `https://doi.org/10.1000/mock.${orcid}.${i}` }]
   }));
 
+  // A few papers from a shared pool, so demo batches also show internal co-authorship
+  const sharedCount = Math.floor(random() * 4);
+  for (let i = 0; i < sharedCount; i++) {
+    const shared = Math.floor(random() * DEMO_SHARED_WORKS);
+    if (works.some(work => work.putCode === `mock-shared-${shared}`)) continue;
+    works.push({
+      title: `Joint Study ${shared + 1} on Collaborative Research Methods`,
+      year: years[shared % years.length],
+      type: types[shared % types.length],
+      journal: journals[shared % journals.length],
+      putCode: `mock-shared-${shared}`,
+      doi: `10.1000/mock.shared.${shared}`,
+      externalIds: [{ type: 'doi', value: `10.1000/mock.shared.${shared}`, url: `https://doi.org/10.1000/mock.shared.${shared}` }]
+    });
+  }
+
   return {
     orcidId: orcid,
-    fullName: `Researcher ${orcid.substring(0, 4)}`,
-    works
+    fullName: `Demo Researcher ${orcid.substring(orcid.length - 4)}`,
+    source: 'demo',
+    otherNames: [],
+    keywords: [],
+    researcherUrls: [],
+    employments: [],
+    educations: [],
+    attributes: {},
+    works: works.map(work => mergeWorkVersions([{ work, source: 'Demo generator', trust: 1 }]))
   };
 };
 
-export const fetchOrcidData = async (orcidId: string): Promise<OrcidProfileData> => {
-  const cleanId = orcidId.trim();
-  
+interface JsonResponse {
+  body: any;
+  fromCache: boolean;
+}
+
+const fetchOrcidJson = async (cleanId: string, endpoint: string, options: FetchOptions): Promise<JsonResponse> => {
+  const cached = await getCacheEntry(cleanId, endpoint);
+  if (cached && !options.forceRefresh && isFresh(cached, options.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS)) {
+    return { body: cached.body, fromCache: true };
+  }
+
+  const headers: Record<string, string> = { 'Accept': 'application/json' };
+  // Stale entries are revalidated instead of re-downloaded when the server supports it
+  if (cached && !options.forceRefresh) {
+    if (cached.etag) headers['If-None-Match'] = cached.etag;
+    if (cached.lastModified) headers['If-Modified-Since'] = cached.lastModified;
+  }
+
+  let response: Response;
   try {
-    const response = await fetch(`${ORCID_API_BASE}/${cleanId}/works`, {
-      headers: {
-        'Accept': 'application/json'
-      }
+    await options.throttle?.();
+    response = await fetch(`${ORCID_API_BASE}/${cleanId}/${endpoint}`, {
+      headers,
+      signal: options.signal
     });
-
-    if (!response.ok) {
-      if (response.status === 404) throw new Error(`ORCID ${cleanId} not found.`);
-      // If CORS or other network error, we might fall through to catch
-      throw new Error(`Failed to fetch data for ${cleanId}`);
+  } catch (error) {
+    // Offline or blocked: serve the last snapshot if we have one
+    if (cached && (error as Error).name !== 'AbortError') {
+      console.warn(`Serving stale cache for ${cleanId}/${endpoint}: ${error}`);
+      return { body: cached.body, fromCache: true };
     }
+    throw error;
+  }
+
+  if (response.status === 304 && cached) {
+    await putCacheEntry({ ...cached, fetchedAt: Date.now() });
+    return { body: cached.body, fromCache: false };
+  }
+
+  if (!response.ok) {
+    if (response.status === 404) throw new OrcidApiError(`ORCID ${cleanId} not found.`, 404);
+    if (response.status === 429) throw new OrcidApiError(`Rate limit exceeded while fetching ${cleanId}.`, 429);
+    throw new OrcidApiError(`Failed to fetch ${endpoint} for ${cleanId} (HTTP ${response.status}).`, response.status);
+  }
+
+  const text = await response.text();
+  const body = JSON.parse(text);
+  await putCacheEntry({
+    key: cacheKey(cleanId, endpoint),
+    orcidId: cleanId,
+    endpoint,
+    body,
+    etag: response.headers.get('ETag') || undefined,
+    lastModified: response.headers.get('Last-Modified') || undefined,
+    fetchedAt: Date.now(),
+    size: text.length
+  });
+  return { body, fromCache: false };
+};
+
+const parseYear = (date: any): number | null => {
+  const yearStr = date?.year?.value;
+  return yearStr ? parseInt(yearStr, 10) : null;
+};
+
+// Employments and educations share the same affiliation-group layout, only the summary key differs
+const parseAffiliations = (data: any, summaryKey: string): OrcidAffiliation[] =>
+  (data?.['affiliation-group'] || [])
+    .map((group: any) => group.summaries?.[0]?.[summaryKey])
+    .filter(Boolean)
+    .map((summary: any) => ({
+      organization: summary.organization?.name || 'Unknown organization',
+      department: summary['department-name'] || undefined,
+      role: summary['role-title'] || undefined,
+      startYear: parseYear(summary['start-date']),
+      endYear: parseYear(summary['end-date']),
+      city: summary.organization?.address?.city || undefined,
+      country: summary.organization?.address?.country || undefined
+    }));
+
+const parseExternalIds = (container: any): OrcidExternalId[] =>
+  (container?.['external-id'] || [])
+    .filter((id: any) => id['external-id-value'])
+    .map((id: any) => ({
+      type: id['external-id-type'],
+      value: id['external-id-value'],
+      url: id['external-id-url']?.value || undefined
+    }));
+
+const parseWorkSummary = (summary: any): OrcidWork => {
+  const externalIds = parseExternalIds(summary['external-ids']);
+  return {
+    title: summary.title?.title?.value || 'Untitled',
+    year: parseYear(summary['publication-date']),
+    type: normalizeOrcidType(summary.type),
+    journal: summary['journal-title']?.value,
+    putCode: String(summary['put-code']),
+    doi: externalIds.find(id => id.type === 'doi')?.value,
+    externalIds
+  };
+};
+
+const parsePerson = (person: any) => {
+  const givenNames: string | undefined = person?.name?.['given-names']?.value;
+  const familyName: string | undefined = person?.name?.['family-name']?.value;
+  const creditName: string | undefined = person?.name?.['credit-name']?.value;
+  const composedName = [givenNames, familyName].filter(Boolean).join(' ');
+
+  const researcherUrls: OrcidResearcherUrl[] = (person?.['researcher-urls']?.['researcher-url'] || [])
+    .filter((entry: any) => entry.url?.value)
+    .map((entry: any) => ({
+      name: entry['url-name'] || entry.url.value,
+      url: entry.url.value
+    }));
+
+  return {
+    // Name may be private, in which case ORCID returns null and we keep the iD-based label
+    fullName: creditName || composedName || undefined,
+    givenNames,
+    familyName,
+    otherNames: (person?.['other-names']?.['other-name'] || []).map((n: any) => n.content).filter(Boolean),
+    biography: person?.biography?.content || undefined,
+    keywords: (person?.keywords?.keyword || []).map((k: any) => k.content).filter(Boolean),
+    researcherUrls,
+    country: person?.addresses?.address?.[0]?.country?.value || undefined
+  };
+};
 
-    const data = await response.json();
+export const fetchOrcidData = async (orcidId: string, options: FetchOptions = {}): Promise<OrcidFetchResult> => {
+  const cleanId = orcidId.trim();
+
+  if (options.demoMode) {
+    return new Promise(resolve => setTimeout(() => resolve({
+      status: 'ok',
+      orcidId: cleanId,
+      profile: generateMockData(cleanId)
+    }), 300));
+  }
+  
+  try {
+    const responses = await Promise.all([
+      fetchOrcidJson(cleanId, 'works', options),
+      fetchOrcidJson(cleanId, 'person', options),
+      fetchOrcidJson(cleanId, 'employments', options),
+      fetchOrcidJson(cleanId, 'educations', options)
+    ]);
+    const [worksData, personData, employmentsData, educationsData] = responses.map(r => r.body);
     
     // Parse the nested ORCID structure
-    const works: OrcidWork[] = (data.group || []).map((group: any) => {
-      const summary = group['work-summary'][0];
-      const yearStr = summary['publication-date']?.year?.value;
-      return {
-        title: summary.title?.title?.value || 'Untitled',
-        year: yearStr ? parseInt(yearStr, 10) : null,
-        type: summary.type ? summary.type.replace(/_/g, ' ') : 'UNKNOWN',
-        journal: summary['journal-title']?.value,
-        putCode: summary['put-code'],
-        doi: summary['external-ids']?.['external-id']?.find((id: any) => id['external-id-type'] === 'doi')?.['external-id-value']
-      };
-    });
+    // A group holds one summary per source that asserts the work; merge them all
+    const works: OrcidWork[] = (worksData.group || [])
+      .filter((group: any) => group['work-summary']?.length > 0)
+      .map((group: any) =>
+      mergeWorkVersions((group['work-summary'] || []).map((summary: any) => ({
+        work: parseWorkSummary(summary),
+        ...getSummarySource(summary, cleanId)
+      })))
+    );
 
-    // Fetch name (separate endpoint usually, but we'll approximate or fetch if needed)
-    // For this MVP, we focus on works.
+    const person = parsePerson(personData);
     
     return {
+      status: 'ok',
       orcidId: cleanId,
-      fullName: `Researcher ${cleanId}`, // Simplified for batch processing
-      works
+      profile: {
+        orcidId: cleanId,
+        ...person,
+        fullName: person.fullName || `Researcher ${cleanId}`,
+        source: responses.every(r => r.fromCache) ? 'cached' : 'live',
+        employments: parseAffiliations(employmentsData, 'employment-summary'),
+        educations: parseAffiliations(educationsData, 'education-summary'),
+        attributes: {},
+        works
+      }
     };
 
   } catch (error) {
-    console.warn(`API fetch failed for ${cleanId}, using mock data for demonstration. Reason: ${error}`);
-    // Fallback to mock data for demonstration purposes if API is blocked by CORS/Rate Limits
-    return new Promise(resolve => setTimeout(() => resolve(generateMockData(cleanId)), 500)); 
+    console.warn(`API fetch failed for ${cleanId}. Reason: ${error}`);
+    // fetch() rejects with a TypeError when the request is blocked by CORS or the network is down
+    const reason = (error as Error).name === 'AbortError'
+      ? 'Cancelled by user.'
+      : error instanceof TypeError
+        ? `Network error while contacting ORCID (possibly blocked by CORS).`
+        : (error as Error).message;
+    return {
+      status: 'failed',
+      orcidId: cleanId,
+      reason,
+      httpStatus: error instanceof OrcidApiError ? error.status : undefined
+    };
   }
 };
 
-export const parseCsvFile = async (file: File): Promise<string[]> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const text = event.target?.result as string;
-      const lines = text.split(/\r?\n/);
-      
-      // Find 'orcid' column
-      const header = lines[0].toLowerCase().split(',').map(h => h.trim());
-      const orcidIndex = header.indexOf('orcid');
-
-      if (orcidIndex === -1) {
-        reject(new Error("CSV must contain an 'orcid' column."));
-        return;
-      }
+// Demo contributors: the owner plus a few seeded co-authors
+const generateMockWorkDetail = (orcidId: string, work: OrcidWork): OrcidWorkDetail => {
+  const random = createSeededRandom(`${orcidId}/${work.putCode}`);
+  const coAuthors = Array.from({ length: Math.floor(random() * 5) }).map((_, i): OrcidContributor => ({
+    name: `Co-author ${String.fromCharCode(65 + Math.floor(random() * 26))}. ${i + 1}`,
+    role: 'author',
+    sequence: 'additional'
+  }));
+  return {
+    putCode: work.putCode,
+    contributors: [{ name: `Demo Researcher ${orcidId.substring(orcidId.length - 4)}`, orcidId, role: 'author', sequence: 'first' }, ...coAuthors],
+    externalIds: work.externalIds || []
+  };
+};
 
-      const ids: string[] = [];
-      for (let i = 1; i < lines.length; i++) {
-        const columns = lines[i].split(',');
-        if (columns.length > orcidIndex) {
-          const id = columns[orcidIndex].trim();
-          // Basic regex for ORCID-like structure (Groups of 4 digits/X)
-          if (id.match(/^(\d{4}-){3}\d{3}[\dX]$/)) {
-            ids.push(id);
-          }
-        }
-      }
-      resolve(ids);
-    };
-    reader.onerror = () => reject(new Error("Failed to read file"));
-    reader.readAsText(file);
-  });
-};
\ No newline at end of file
+/**
+ * Loads the full record of a single work, which unlike the works summary lists all
+ * contributors. Responses go through the same cache as profile data.
+ */
+export const fetchWorkDetail = async (
+  orcidId: string,
+  work: OrcidWork,
+  options: FetchOptions = {}
+): Promise<OrcidWorkDetail> => {
+  if (options.demoMode) return generateMockWorkDetail(orcidId, work);
+
+  const { body } = await fetchOrcidJson(orcidId, `work/${work.putCode}`, options);
+  const contributors: OrcidContributor[] = (body.contributors?.contributor || []).map((contributor: any) => ({
+    name: contributor['credit-name']?.value || 'Unnamed contributor',
+    orcidId: contributor['contributor-orcid']?.path || undefined,
+    role: contributor['contributor-attributes']?.['contributor-role'] || undefined,
+    sequence: contributor['contributor-attributes']?.['contributor-sequence'] || undefined
+  }));
+
+  return {
+    putCode: work.putCode,
+    contributors,
+    externalIds: parseExternalIds(body['external-ids']),
+    url: body.url?.value || undefined,
+    shortDescription: body['short-description'] || undefined
+  };
+};
+
+export const orcidWorkApiUrl = (orcidId: string, putCode: string) => `${ORCID_API_BASE}/${orcidId}/work/${putCode}`;
@@ -0,0 +1,425 @@
+import {
+  AnalysisStats, GroupingDimension, LlmSettings, NarrativeReport, ReportFacts, ReportScope, ReportSection, ReportSectionId
+} from '../types';
+import { REPORTS_STORE, runRequest } from './localDb';
+import { computeStats, getGroupKey } from './statsService';
+import { createChatAdapter } from './llmProviders';
+import { downloadFile } from './downloadService';
+import { extractTopics } from './topicService';
+
+// Part of the cache key; bump when the prompt or the facts change so old reports are not reused
+const REPORT_VERSION = 3;
+
+const RECENT_YEARS = 3;
+const TOP_CATEGORIES = 3;
+const TOP_VENUES = 5;
+const TOP_TOPICS = 5;
+const TOP_KEYPHRASES = 10;
+const NOTABLE_WORKS = 5;
+
+export const REPORT_SECTIONS: { id: ReportSectionId; title: string; guidance: string }[] = [
+  { id: 'overview', title: 'Output overview', guidance: 'total output, researchers and years covered, mix of work types' },
+  { id: 'trends', title: 'Trends', guidance: 'how output changed over the years and in the recent period' },
+  { id: 'topics', title: 'Main research topics', guidance: 'the listed topics and keyphrases, and the notable works' },
+  { id: 'venues', title: 'Publication venues', guidance: 'main journals, how concentrated the output is, DOI coverage' },
+  { id: 'notable', title: 'Notable works', guidance: 'the listed notable works and why they stand out' }
+];
+
+const SYSTEM_INSTRUCTION = 'You write concise, factual summaries of research output for university annual reviews.';
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const percent = (part: number, whole: number) => whole > 0 ? round1(part / whole * 100) : 0;
+
+/**
+ * Narrows the dashboard statistics to the report's subject. Returns null when the subject
+ * is no longer in view, e.g. after the filters or the grouping changed.
+ */
+export const resolveReportScope = (
+  stats: AnalysisStats,
+  scope: ReportScope,
+  grouping: { id: string; label: string; dimension: GroupingDimension } | null
+): { subject: string; stats: AnalysisStats } | null => {
+  switch (scope.kind) {
+    case 'all':
+      return { subject: 'All researchers in view', stats };
+    case 'group': {
+      if (!grouping || grouping.id !== scope.dimensionId) return null;
+      const members = stats.processedProfiles.filter(profile => getGroupKey(profile, grouping.dimension) === scope.group);
+      const groupStats = computeStats(members);
+      return groupStats && { subject: `${grouping.label}: ${scope.group}`, stats: groupStats };
+    }
+    case 'researcher': {
+      const profile = stats.processedProfiles.find(p => p.orcidId === scope.orcidId);
+      const researcherStats = profile && computeStats([profile]);
+      return researcherStats ? { subject: profile.fullName, stats: researcherStats } : null;
+    }
+  }
+};
+
+export const buildReportFacts = (stats: AnalysisStats, subject: string, filters: string[]): ReportFacts => {
+  const works = stats.uniqueWorks.map(unique => unique.work);
+  const byYear = stats.publicationsByYear;
+  const firstYear = byYear.length > 0 ? byYear[0].year : null;
+  const lastYear = byYear.length > 0 ? byYear[byYear.length - 1].year : null;
+  const countBetween = (from: number, to: number) =>
+    byYear.filter(entry => entry.year >= from && entry.year <= to).reduce((sum, entry) => sum + entry.count, 0);
+
+  let recentPeriod: ReportFacts['recentPeriod'] = null;
+  if (lastYear !== null) {
+    const from = lastYear - RECENT_YEARS + 1;
+    const recent = countBetween(from, lastYear);
+    const previous = countBetween(from - RECENT_YEARS, from - 1);
+    recentPeriod = {
+      from,
+      to: lastYear,
+      works: recent,
+      previousWorks: previous,
+      previousFrom: from - RECENT_YEARS,
+      previousTo: from - 1,
+      change: recent - previous,
+      changePercent: previous > 0 ? round1((recent - previous) / previous * 100) : null
+    };
+  }
+
+  // Journals are matched case-insensitively and shown as first spelled
+  const venues = new Map<string, { journal: string; count: number }>();
+  works.forEach(work => {
+    const journal = work.journal?.trim();
+    if (!journal) return;
+    const entry = venues.get(journal.toLowerCase()) || { journal, count: 0 };
+    entry.count++;
+    venues.set(journal.toLowerCase(), entry);
+  });
+
+  const worksWithDoi = works.filter(work => work.doi).length;
+  const topicAnalysis = extractTopics(stats.uniqueWorks, stats.processedProfiles);
+  const notable = [...works]
+    .sort((a, b) => (b.citations?.count || 0) - (a.citations?.count || 0) || (b.year || 0) - (a.year || 0))
+    .slice(0, NOTABLE_WORKS);
+
+  return {
+    subject,
+    filters,
+    researchers: stats.totalResearchers,
+    works: stats.uniquePublications,
+    attributedWorks: stats.totalPublications,
+    firstYear,
+    lastYear,
+    worksByYear: byYear,
+    peakYear: byYear.reduce<ReportFacts['peakYear']>((peak, entry) => !peak || entry.count > peak.count ? entry : peak, null),
+    recentPeriod,
+    categories: stats.publicationsByType.map(entry => ({
+      category: entry.type,
+      count: entry.count,
+      percent: percent(entry.count, stats.uniquePublications)
+    })),
+    venues: venues.size,
+    topVenues: Array.from(venues.values()).sort((a, b) => b.count - a.count).slice(0, TOP_VENUES),
+    worksWithDoi,
+    doiPercent: percent(worksWithDoi, works.length),
+    citations: stats.citationsAvailable ? stats.totalCitations : null,
+    hIndex: !stats.citationsAvailable ? null
+      : stats.totalResearchers === 1 ? stats.researcherMetrics[0].hIndex : stats.medianHIndex,
+    topics: topicAnalysis.topics.slice(0, TOP_TOPICS).map(topic => ({ label: topic.label, works: topic.workKeys.length })),
+    keyphrases: topicAnalysis.keyphrases.slice(0, TOP_KEYPHRASES).map(({ term, works }) => ({ term, works })),
+    notableWorks: notable.map(work => ({
+      title: work.title,
+      year: work.year,
+      journal: work.journal,
+      category: work.category || work.type,
+      ...(work.citations ? { citations: work.citations.count } : {})
+    }))
+  };
+};
+
+// Numbers as written in prose: 1,234 or 12.5, but not parts of words such as "Q1" or "3D"
+const NUMBER_PATTERN = /(?<![\p{L}\d.,])(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?(?![\p{L}\d])/gu;
+
+const isYear = (value: number) => Number.isInteger(value) && value >= 1900 && value <= 2100;
+
+const parseNumber = (claim: string) => parseFloat(claim.replace(/,/g, ''));
+
+// Figures a section may quote: yearly counts are only valid next to their year
+interface SectionFigures {
+  years: number[];
+  values: number[];
+  countsByYear?: Map<number, number>;
+}
+
+const sectionFigures = (facts: ReportFacts, section: ReportSectionId): SectionFigures => {
+  const present = (values: (number | null | undefined)[]) => values.filter((value): value is number => typeof value === 'number');
+  const notableYears = present(facts.notableWorks.map(work => work.year));
+  switch (section) {
+    case 'overview': {
+      // Filter descriptions such as "Years 2019–2023" are figures the user chose
+      const filterNumbers = facts.filters.flatMap(filter => filter.match(NUMBER_PATTERN) || []).map(parseNumber);
+      return {
+        years: present([facts.firstYear, facts.lastYear, ...filterNumbers.filter(isYear)]),
+        values: present([
+          facts.researchers, facts.works, facts.attributedWorks, facts.citations, facts.hIndex,
+          ...facts.categories.flatMap(category => [category.count, category.percent]),
+          ...filterNumbers
+        ])
+      };
+    }
+    case 'trends': {
+      const recent = facts.recentPeriod;
+      return {
+        years: present([
+          facts.firstYear, facts.lastYear, ...facts.worksByYear.map(entry => entry.year),
+          recent?.from, recent?.to, recent?.previousFrom, recent?.previousTo
+        ]),
+        values: present([recent?.works, recent?.previousWorks, recent?.change, recent?.changePercent]),
+        countsByYear: new Map(facts.worksByYear.map(entry => [entry.year, entry.count]))
+      };
+    }
+    case 'topics':
+      return {
+        years: notableYears,
+        values: [...facts.topics.map(topic => topic.works), ...facts.keyphrases.map(phrase => phrase.works)]
+      };
+    case 'venues':
+      return {
+        years: [],
+        values: present([facts.works, facts.venues, facts.worksWithDoi, facts.doiPercent, ...facts.topVenues.map(venue => venue.count)])
+      };
+    case 'notable':
+      return { years: notableYears, values: present(facts.notableWorks.map(work => work.citations)) };
+  }
+};
+
+// Names and titles from the facts are quotes, not claims, even when they contain digits
+const stripQuotedNames = (text: string, facts: ReportFacts) => {
+  const names = [
+    facts.subject,
+    ...facts.notableWorks.flatMap(work => [work.title, work.journal || '']),
+    ...facts.topVenues.map(venue => venue.journal),
+    ...facts.topics.map(topic => topic.label),
+    ...facts.keyphrases.map(phrase => phrase.term),
+    ...facts.categories.map(category => category.category)
+  ].filter(name => /\d/.test(name)).sort((a, b) => b.length - a.length);
+  const lower = text.toLowerCase();
+  let result = text;
+  names.forEach(name => {
+    let index = lower.indexOf(name.toLowerCase());
+    while (index !== -1) {
+      result = result.slice(0, index) + ' '.repeat(name.length) + result.slice(index + name.length);
+      index = lower.indexOf(name.toLowerCase(), index + name.length);
+    }
+  });
+  return result;
+};
+
+// Allows for rounding to the precision a number is written with (12.46 may be quoted as 12.5 or 12)
+const matchesFigure = (claim: string, figures: number[]) => {
+  const value = parseNumber(claim);
+  const decimals = claim.split('.')[1]?.length || 0;
+  // Signs are usually carried by words ("down 12%"), so magnitudes are compared
+  return figures.some(figure => Math.abs(parseFloat(Math.abs(figure).toFixed(decimals)) - value) < 1e-9);
+};
+
+/**
+ * Checks every number in a section against the facts that section is about. A year must be
+ * one the section covers, and a count in a sentence that names years must be one of those
+ * years' counts or a period figure, so "12 works in 2020" only passes if 2020 had 12 works.
+ */
+export const checkReportNumbers = (
+  text: string,
+  facts: ReportFacts,
+  section: ReportSectionId
+): { checked: number; unverified: string[] } => {
+  const figures = sectionFigures(facts, section);
+  let checked = 0;
+  const unverified: string[] = [];
+
+  stripQuotedNames(text, facts)
+    .split(/\n|(?<=[.!?])\s+/)
+    .map(sentence => sentence.replace(/^\s*\d+[.)]\s+/, '')) // list numbering is not a claim
+    .forEach(sentence => {
+      const claims = sentence.match(NUMBER_PATTERN) || [];
+      const yearsNamed = claims.map(parseNumber).filter(value => isYear(value) && figures.years.includes(value));
+      const pairedCounts = yearsNamed.flatMap(year => figures.countsByYear?.has(year) ? [figures.countsByYear.get(year)!] : []);
+
+      claims.forEach(claim => {
+        checked++;
+        const value = parseNumber(claim);
+        const valid = (isYear(value) && figures.years.includes(value)) || matchesFigure(claim, [...figures.values, ...pairedCounts]);
+        if (!valid) unverified.push(claim);
+      });
+    });
+
+  return { checked, unverified: Array.from(new Set(unverified)) };
+};
+
+const buildPrompt = (facts: ReportFacts) => `Write a narrative research summary of "${facts.subject}".
+Use exactly these Markdown sections, in this order, each starting with a "## " heading:
+${REPORT_SECTIONS.map(section => `## ${section.title} (${section.guidance})`).join('\n')}
+
+Rules:
+- Quote only figures that appear in the FACTS. Do not compute new numbers such as sums, differences or ratios; describe them in words instead.
+- Do not invent topics, venues or works that are not in the FACTS.
+- In each section quote only the figures about its subject (given in brackets); always name the year next to a yearly count.
+- Keep each section to a short paragraph or a short bullet list, without numbered lists.
+- If a section has no data, say so in one sentence.
+- Mention the dashboard filters in the overview if there are any.
+
+FACTS (JSON):
+${JSON.stringify(facts, null, 2)}`;
+
+// Splits the model's Markdown into the expected sections, by heading text or else by position
+const parseReportSections = (markdown: string): ReportSection[] => {
+  const chunks: { heading: string; lines: string[] }[] = [];
+  markdown.split('\n').forEach(line => {
+    const heading = line.match(/^#{1,3}\s+(.*)$/);
+    if (heading) chunks.push({ heading: heading[1].replace(/[*_]/g, '').trim().toLowerCase(), lines: [] });
+    else if (chunks.length > 0) chunks[chunks.length - 1].lines.push(line);
+  });
+  if (chunks.length === 0) chunks.push({ heading: '', lines: markdown.split('\n') });
+
+  return REPORT_SECTIONS.map((section, index) => {
+    const chunk = chunks.find(c => c.heading.startsWith(section.title.toLowerCase())) || chunks[index];
+    return { id: section.id, title: section.title, text: chunk ? chunk.lines.join('\n').trim() : '' };
+  });
+};
+
+const list = (items: string[]) => items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+
+// Deterministic report used by the offline stub provider; only quotes figures from the facts
+export const draftReport = (facts: ReportFacts): ReportSection[] => {
+  const text: Record<ReportSectionId, string> = {
+    overview: '',
+    trends: '',
+    topics: '',
+    venues: '',
+    notable: ''
+  };
+
+  text.overview = facts.works === 0
+    ? 'No works are recorded for this selection.'
+    : [
+      facts.researchers > 1
+        ? `The ${facts.researchers} researchers in this selection have ${facts.works} distinct works (${facts.attributedWorks} when each co-author is counted).`
+        : `${facts.subject} has ${facts.works} works.`,
+      facts.firstYear !== null ? `They were published between ${facts.firstYear} and ${facts.lastYear}.` : '',
+      facts.categories.length > 0
+        ? `The largest categories are ${list(facts.categories.slice(0, TOP_CATEGORIES).map(c => `${c.category} (${c.count}, ${c.percent}%)`))}.`
+        : '',
+      facts.citations !== null
+        ? `Together they have received ${facts.citations} citations (${facts.researchers > 1 ? 'median h-index' : 'h-index'} ${facts.hIndex}).`
+        : '',
+      facts.filters.length > 0 ? `Figures reflect the dashboard filters: ${facts.filters.join('; ')}.` : ''
+    ].filter(Boolean).join(' ');
+
+  const recent = facts.recentPeriod;
+  text.trends = !facts.peakYear
+    ? 'No publication years are recorded, so trends cannot be described.'
+    : [
+      `Output peaked in ${facts.peakYear.year} with ${facts.peakYear.count} works.`,
+      recent && recent.previousWorks > 0
+        ? `In ${recent.from}–${recent.to} there were ${recent.works} works, ${recent.change >= 0 ? 'up' : 'down'} from ${recent.previousWorks} in the preceding period (${recent.changePercent}%).`
+        : recent ? `In ${recent.from}–${recent.to} there were ${recent.works} works, with none in the preceding period.` : ''
+    ].filter(Boolean).join(' ');
+
+  text.topics = facts.topics.length > 0
+    ? [
+      `The works fall into these main topics: ${list(facts.topics.map(t => `${t.label} (${t.works} works)`))}.`,
+      facts.keyphrases.length > 0 ? `Frequent keyphrases include ${list(facts.keyphrases.map(k => k.term))}.` : ''
+    ].filter(Boolean).join(' ')
+    : 'There are too few titles to identify recurring topics.';
+
+  text.venues = [
+    facts.venues > 0
+      ? `Works appeared in ${facts.venues} distinct journals. The most frequent are ${list(facts.topVenues.map(v => `${v.journal} (${v.count})`))}.`
+      : 'No journal names are recorded.',
+    facts.works > 0 ? `${facts.worksWithDoi} works (${facts.doiPercent}%) have a DOI.` : ''
+  ].filter(Boolean).join(' ');
+
+  text.notable = facts.notableWorks.length > 0
+    ? facts.notableWorks.map(work => {
+      const details = [work.year, work.journal, work.citations !== undefined ? `${work.citations} citations` : ''].filter(Boolean);
+      return `- *${work.title}*${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
+    }).join('\n')
+    : 'No works to highlight.';
+
+  return REPORT_SECTIONS.map(section => ({ id: section.id, title: section.title, text: text[section.id] }));
+};
+
+const scopeKey = (scope: ReportScope) => {
+  switch (scope.kind) {
+    case 'all': return 'all';
+    case 'group': return `group:${scope.dimensionId}:${scope.group}`;
+    case 'researcher': return `researcher:${scope.orcidId}`;
+  }
+};
+
+// Short non-cryptographic hash (djb2), enough to tell data versions apart
+const hashString = (text: string) => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) hash = (hash * 33 + text.charCodeAt(i)) | 0;
+  return (hash >>> 0).toString(36);
+};
+
+const getCachedReport = async (key: string): Promise<NarrativeReport | undefined> => {
+  try {
+    return await runRequest<NarrativeReport | undefined>(REPORTS_STORE, 'readonly', store => store.get(key));
+  } catch (error) {
+    console.warn(`Could not read cached reports: ${error}`);
+    return undefined;
+  }
+};
+
+export const saveReport = async (report: NarrativeReport): Promise<void> => {
+  await runRequest(REPORTS_STORE, 'readwrite', store => store.put(report));
+};
+
+/**
+ * Returns the cached report for the same subject, data and model when there is one (including
+ * the user's edits), otherwise asks the model and caches the result. `force` skips the cache.
+ */
+export const generateReport = async (
+  facts: ReportFacts,
+  scope: ReportScope,
+  settings: LlmSettings,
+  force = false
+): Promise<{ report: NarrativeReport; cached: boolean }> => {
+  const adapter = createChatAdapter(settings);
+  const key = `v${REPORT_VERSION}|${scopeKey(scope)}|${adapter.label}|${hashString(JSON.stringify(facts))}`;
+
+  if (!force) {
+    const cached = await getCachedReport(key);
+    if (cached) return { report: cached, cached: true };
+  }
+
+  // The stub adapter only understands chat questions, so it gets a templated report instead
+  const sections = settings.provider === 'stub'
+    ? draftReport(facts)
+    : parseReportSections((await adapter.startSession(SYSTEM_INSTRUCTION, [], []).send(buildPrompt(facts))).text);
+
+  const report: NarrativeReport = {
+    key,
+    title: `Research summary: ${facts.subject}`,
+    generatedBy: adapter.label,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    edited: false,
+    facts,
+    sections
+  };
+  await saveReport(report).catch(error => console.warn(`Could not cache the report: ${error}`));
+  return { report, cached: false };
+};
+
+export const reportToMarkdown = (report: NarrativeReport): string => [
+  `# ${report.title}`,
+  '',
+  `_Generated by ${report.generatedBy} on ${new Date(report.createdAt).toLocaleDateString()}${report.edited ? ', edited' : ''}._`,
+  ...(report.facts.filters.length > 0 ? ['', `_Filters: ${report.facts.filters.join('; ')}_`] : []),
+  '',
+  ...report.sections.flatMap(section => [`## ${section.title}`, '', section.text, ''])
+].join('\n');
+
+export const exportReportMarkdown = (report: NarrativeReport) => {
+  const slug = report.facts.subject.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'report';
+  downloadFile(reportToMarkdown(report), `report-${slug}.md`, 'text/markdown');
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { buildCareerTimeline, computeProductivityTrend } from './researcherProfileService';
+import { makeProfile, makeWork } from './fixtures/profiles';
+
+const CURRENT_YEAR = 2026;
+
+const profileWithWorks = (years: number[]) =>
+  makeProfile('0000-0002-1825-0097', 'Josiah Carberry', { works: years.map(year => makeWork({ year, title: `Work of ${year}` })) });
+
+describe('computeProductivityTrend', () => {
+  const rising = [2017, 2020, 2021, 2022, 2023, 2023, 2024, 2024, 2025, 2025, 2025];
+
+  it('compares the last three full years with the three before', () => {
+    const trend = computeProductivityTrend(profileWithWorks(rising), CURRENT_YEAR)!;
+    expect(trend.years.map(entry => entry.year)).toEqual([2016, 2017, 2018, 2019, 2020, 2021, 2022, 2023, 2024, 2025]);
+    expect(trend.recentFrom).toBe(2023);
+    expect(trend.recentAverage).toBeCloseTo(7 / 3);
+    expect(trend.previousAverage).toBe(1);
+    expect(trend.direction).toBe('rising');
+  });
+
+  it('ignores a mistyped future year instead of moving the window', () => {
+    expect(computeProductivityTrend(profileWithWorks([...rising, 2204]), CURRENT_YEAR))
+      .toEqual(computeProductivityTrend(profileWithWorks(rising), CURRENT_YEAR));
+  });
+
+  it('extends the window to the current year once it has works', () => {
+    expect(computeProductivityTrend(profileWithWorks([2024, CURRENT_YEAR]), CURRENT_YEAR)!.years.at(-1)!.year).toBe(CURRENT_YEAR);
+  });
+
+  it('returns null without dated works', () => {
+    expect(computeProductivityTrend(profileWithWorks([2999]), CURRENT_YEAR)).toBeNull();
+  });
+});
+
+describe('buildCareerTimeline', () => {
+  it('spans works and affiliations but stops at the current year', () => {
+    const profile = makeProfile('0000-0002-1825-0097', 'Josiah Carberry', {
+      works: [makeWork({ year: 2019 }), makeWork({ year: 2204 })],
+      educations: [{ organization: 'Wesleyan University', startYear: 2010, endYear: 2014 }],
+      employments: [
+        { organization: 'Brown University', role: 'Professor', startYear: 2015, endYear: 2030 },
+        { organization: 'Typo College', startYear: 2205, endYear: null }
+      ]
+    });
+    const timeline = buildCareerTimeline(profile, CURRENT_YEAR)!;
+    expect([timeline.fromYear, timeline.toYear]).toEqual([2010, CURRENT_YEAR]);
+    expect(timeline.works).toHaveLength(CURRENT_YEAR - 2010 + 1);
+    expect(timeline.works.reduce((sum, entry) => sum + entry.count, 0)).toBe(1);
+    expect(timeline.periods).toEqual([
+      { kind: 'education', organization: 'Wesleyan University', detail: '', startYear: 2010, endYear: 2014, ongoing: false },
+      { kind: 'employment', organization: 'Brown University', detail: 'Professor', startYear: 2015, endYear: CURRENT_YEAR, ongoing: true }
+    ]);
+  });
+});
@@ -0,0 +1,186 @@
+import { OrcidAffiliation, OrcidProfileData, UniqueWork } from '../types';
+import { getWorkCategory } from './taxonomyService';
+import { isValidOrcidChecksum, normalizeOrcidId } from './importService';
+
+// Query parameter holding the ORCID iD of the open profile page
+export const PROFILE_PARAM = 'profile';
+
+const TREND_YEARS = 10;
+const TREND_PERIOD = 3; // years compared at the end of the trend window
+const TREND_THRESHOLD = 0.2; // relative change below which output counts as stable
+const TOP_VENUES = 8;
+
+export interface TimelinePeriod {
+  kind: 'employment' | 'education';
+  organization: string;
+  detail: string; // role and department
+  startYear: number;
+  endYear: number;
+  ongoing: boolean;
+}
+
+export interface CareerTimeline {
+  fromYear: number;
+  toYear: number;
+  works: { year: number; count: number }[]; // every year in the range, including years without works
+  periods: TimelinePeriod[];
+}
+
+export interface ProductivityTrend {
+  years: { year: number; count: number; trend: number }[]; // trend: least-squares fit
+  slope: number; // works per year, per year
+  recentFrom: number;
+  recentAverage: number;
+  previousAverage: number;
+  direction: 'rising' | 'stable' | 'declining';
+}
+
+export interface GroupCoAuthor {
+  orcidId: string;
+  fullName: string;
+  sharedWorks: number;
+  latestYear: number | null;
+}
+
+/**
+ * The ORCID iD in the URL, normalized so links with orcid.org URLs or a lowercase check
+ * digit still match the loaded data. Invalid values are dropped from the URL.
+ */
+export const readProfileFromUrl = (): string | null => {
+  const raw = new URLSearchParams(window.location.search).get(PROFILE_PARAM);
+  if (raw === null) return null;
+  const normalized = normalizeOrcidId(raw);
+  const orcidId = normalized && isValidOrcidChecksum(normalized) ? normalized : null;
+  if (orcidId !== raw) {
+    const url = new URL(window.location.href);
+    if (orcidId) url.searchParams.set(PROFILE_PARAM, orcidId);
+    else url.searchParams.delete(PROFILE_PARAM);
+    window.history.replaceState(null, '', url.toString());
+  }
+  return orcidId;
+};
+
+// Adds a history entry, so the browser's back button returns from the profile page
+export const writeProfileToUrl = (orcidId: string | null) => {
+  const url = new URL(window.location.href);
+  if (orcidId) url.searchParams.set(PROFILE_PARAM, orcidId);
+  else url.searchParams.delete(PROFILE_PARAM);
+  if (url.toString() !== window.location.href) window.history.pushState(null, '', url.toString());
+};
+
+// Years after the current one are typos (e.g. 2204 for 2024) and would stretch every range
+const countByYear = (profile: OrcidProfileData, currentYear: number) => {
+  const counts = new Map<number, number>();
+  profile.works.forEach(work => {
+    if (work.year && work.year <= currentYear) counts.set(work.year, (counts.get(work.year) || 0) + 1);
+  });
+  return counts;
+};
+
+const toPeriod = (affiliation: OrcidAffiliation, kind: TimelinePeriod['kind'], currentYear: number): TimelinePeriod | null => {
+  // Undated records cannot be placed; a record with only an end year is drawn as that one year.
+  // Records starting after the current year cannot be placed either, and planned end dates are
+  // drawn up to the current year.
+  const startYear = affiliation.startYear ?? affiliation.endYear;
+  if (startYear === null || startYear > currentYear) return null;
+  return {
+    kind,
+    organization: affiliation.organization,
+    detail: [affiliation.role, affiliation.department].filter(Boolean).join(', '),
+    startYear,
+    endYear: Math.min(Math.max(startYear, affiliation.endYear ?? currentYear), currentYear),
+    ongoing: affiliation.endYear === null || affiliation.endYear > currentYear
+  };
+};
+
+/**
+ * Works per year alongside dated employment and education records, over the span covered
+ * by either and ending no later than the current year. Returns null when neither has a year.
+ */
+export const buildCareerTimeline = (profile: OrcidProfileData, currentYear: number = new Date().getFullYear()): CareerTimeline | null => {
+  const counts = countByYear(profile, currentYear);
+  const periods = [
+    ...profile.educations.map(affiliation => toPeriod(affiliation, 'education', currentYear)),
+    ...profile.employments.map(affiliation => toPeriod(affiliation, 'employment', currentYear))
+  ]
+    .filter((period): period is TimelinePeriod => period !== null)
+    .sort((a, b) => a.startYear - b.startYear || a.endYear - b.endYear);
+
+  const years = [...counts.keys(), ...periods.flatMap(period => [period.startYear, period.endYear])];
+  if (years.length === 0) return null;
+  const fromYear = Math.min(...years);
+  const toYear = Math.max(...years);
+  return {
+    fromYear,
+    toYear,
+    works: Array.from({ length: toYear - fromYear + 1 }, (_, i) => ({ year: fromYear + i, count: counts.get(fromYear + i) || 0 })),
+    periods
+  };
+};
+
+/**
+ * Output over the last TREND_YEARS years up to the last full year (or the current year once
+ * it has works), with a linear fit. Works dated after the current year are ignored. The direction compares the average of the final TREND_PERIOD years
+ * with the TREND_PERIOD years before them.
+ */
+export const computeProductivityTrend = (profile: OrcidProfileData, currentYear: number = new Date().getFullYear()): ProductivityTrend | null => {
+  const counts = countByYear(profile, currentYear);
+  if (counts.size === 0) return null;
+  const toYear = Math.max(currentYear - 1, ...counts.keys());
+  const fromYear = toYear - TREND_YEARS + 1;
+  const series = Array.from({ length: TREND_YEARS }, (_, i) => ({ year: fromYear + i, count: counts.get(fromYear + i) || 0 }));
+
+  const meanX = (TREND_YEARS - 1) / 2;
+  const meanY = series.reduce((sum, entry) => sum + entry.count, 0) / TREND_YEARS;
+  const covariance = series.reduce((sum, entry, i) => sum + (i - meanX) * (entry.count - meanY), 0);
+  const variance = series.reduce((sum, _, i) => sum + (i - meanX) ** 2, 0);
+  const slope = covariance / variance;
+
+  const average = (entries: { count: number }[]) => entries.reduce((sum, entry) => sum + entry.count, 0) / entries.length;
+  const recentAverage = average(series.slice(-TREND_PERIOD));
+  const previousAverage = average(series.slice(-2 * TREND_PERIOD, -TREND_PERIOD));
+  const change = previousAverage > 0 ? (recentAverage - previousAverage) / previousAverage : recentAverage > 0 ? 1 : 0;
+
+  return {
+    years: series.map((entry, i) => ({ ...entry, trend: Math.max(0, Math.round((meanY + slope * (i - meanX)) * 100) / 100) })),
+    slope,
+    recentFrom: toYear - TREND_PERIOD + 1,
+    recentAverage,
+    previousAverage,
+    direction: change > TREND_THRESHOLD ? 'rising' : change < -TREND_THRESHOLD ? 'declining' : 'stable'
+  };
+};
+
+export const summarizeOutput = (profile: OrcidProfileData) => {
+  const types = new Map<string, number>();
+  const venues = new Map<string, { journal: string; count: number }>();
+  profile.works.forEach(work => {
+    const category = getWorkCategory(work);
+    types.set(category, (types.get(category) || 0) + 1);
+    const journal = work.journal?.trim();
+    if (!journal) return;
+    const entry = venues.get(journal.toLowerCase()) || { journal, count: 0 };
+    entry.count++;
+    venues.set(journal.toLowerCase(), entry);
+  });
+  return {
+    byType: Array.from(types.entries()).map(([type, count]) => ({ type, count })).sort((a, b) => b.count - a.count),
+    topVenues: Array.from(venues.values()).sort((a, b) => b.count - a.count).slice(0, TOP_VENUES)
+  };
+};
+
+// Other members of the loaded batch who list at least one of the researcher's works
+export const findGroupCoAuthors = (orcidId: string, uniqueWorks: UniqueWork[], profiles: OrcidProfileData[]): GroupCoAuthor[] => {
+  const names = new Map(profiles.map(profile => [profile.orcidId, profile.fullName]));
+  const coAuthors = new Map<string, GroupCoAuthor>();
+  uniqueWorks
+    .filter(unique => unique.authors.includes(orcidId))
+    .forEach(unique => unique.authors.forEach(author => {
+      if (author === orcidId) return;
+      const entry = coAuthors.get(author) || { orcidId: author, fullName: names.get(author) || author, sharedWorks: 0, latestYear: null };
+      entry.sharedWorks++;
+      if (unique.work.year && (entry.latestYear === null || unique.work.year > entry.latestYear)) entry.latestYear = unique.work.year;
+      coAuthors.set(author, entry);
+    }));
+  return Array.from(coAuthors.values()).sort((a, b) => b.sharedWorks - a.sharedWorks || a.fullName.localeCompare(b.fullName));
+};
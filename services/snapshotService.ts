@@ -0,0 +1,111 @@
+import { AnalysisFilters, AnalysisSnapshot, AnalysisStats, MetricDelta, SnapshotDiff, SnapshotInfo, UniqueWork } from '../types';
+import { SNAPSHOTS_STORE, runRequest } from './localDb';
+import { computeStats } from './statsService';
+import { normalizeDoi, normalizeTitle } from './dedupService';
+
+const toInfo = (snapshot: AnalysisSnapshot): SnapshotInfo => ({
+  id: snapshot.id,
+  name: snapshot.name,
+  version: snapshot.version,
+  createdAt: snapshot.createdAt,
+  researchers: snapshot.stats.totalResearchers,
+  uniquePublications: snapshot.stats.uniquePublications
+});
+
+export const listSnapshots = async (): Promise<SnapshotInfo[]> => {
+  const snapshots = await runRequest<AnalysisSnapshot[]>(SNAPSHOTS_STORE, 'readonly', store => store.getAll());
+  return snapshots.map(toInfo).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveSnapshot = async (
+  name: string,
+  stats: AnalysisStats,
+  analysisId?: string,
+  filters?: AnalysisFilters
+): Promise<SnapshotInfo> => {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Please give the snapshot a name.');
+
+  const existing = await runRequest<AnalysisSnapshot[]>(SNAPSHOTS_STORE, 'readonly', store => store.index('name').getAll(trimmed));
+  const snapshot: AnalysisSnapshot = {
+    id: `snapshot-${Date.now()}`,
+    name: trimmed,
+    version: existing.reduce((max, s) => Math.max(max, s.version), 0) + 1,
+    createdAt: Date.now(),
+    analysisId,
+    stats,
+    filters
+  };
+  await runRequest(SNAPSHOTS_STORE, 'readwrite', store => store.put(snapshot));
+  return toInfo(snapshot);
+};
+
+/**
+ * Loads a snapshot and recomputes its statistics from the stored profiles, so snapshots
+ * saved by older versions of the app show the metrics the current code computes.
+ */
+export const loadSnapshot = async (id: string): Promise<AnalysisSnapshot> => {
+  const snapshot = await runRequest<AnalysisSnapshot | undefined>(SNAPSHOTS_STORE, 'readonly', store => store.get(id));
+  if (!snapshot) throw new Error('Snapshot not found.');
+  const stats = computeStats(snapshot.stats.processedProfiles);
+  if (!stats) throw new Error('The snapshot contains no profiles.');
+  return { ...snapshot, stats };
+};
+
+export const deleteSnapshot = async (id: string): Promise<void> => {
+  await runRequest(SNAPSHOTS_STORE, 'readwrite', store => store.delete(id));
+};
+
+// Identity of a work across snapshots: DOI when known, otherwise title + year
+const workIdentity = (unique: UniqueWork) =>
+  unique.work.doi
+    ? `doi:${normalizeDoi(unique.work.doi)}`
+    : `title:${normalizeTitle(unique.work.title)}|${unique.work.year ?? ''}`;
+
+const delta = (metric: string, before: number, after: number): MetricDelta =>
+  ({ metric, before, after, delta: after - before });
+
+export const diffSnapshots = (from: AnalysisSnapshot, to: AnalysisSnapshot): SnapshotDiff => {
+  const a = from.stats;
+  const b = to.stats;
+
+  const profilesA = new Map(a.processedProfiles.map(p => [p.orcidId, p]));
+  const profilesB = new Map(b.processedProfiles.map(p => [p.orcidId, p]));
+  const worksA = new Set(a.uniqueWorks.map(workIdentity));
+  const worksB = new Set(b.uniqueWorks.map(workIdentity));
+
+  const metrics = [
+    delta('Researchers', a.totalResearchers, b.totalResearchers),
+    delta('Unique publications', a.uniquePublications, b.uniquePublications),
+    delta('Researcher-attributed publications', a.totalPublications, b.totalPublications),
+    delta('Average per researcher', Number(a.avgPublications.toFixed(2)), Number(b.avgPublications.toFixed(2))),
+    delta('Internal co-authorship pairs', a.coAuthorshipLinks.length, b.coAuthorshipLinks.length)
+  ];
+  if (a.citationsAvailable || b.citationsAvailable) {
+    metrics.push(delta('Total citations', a.totalCitations, b.totalCitations));
+    metrics.push(delta('Median h-index', a.medianHIndex, b.medianHIndex));
+  }
+
+  return {
+    from: toInfo(from),
+    to: toInfo(to),
+    researchersAdded: b.processedProfiles
+      .filter(p => !profilesA.has(p.orcidId))
+      .map(p => ({ orcidId: p.orcidId, fullName: p.fullName })),
+    researchersRemoved: a.processedProfiles
+      .filter(p => !profilesB.has(p.orcidId))
+      .map(p => ({ orcidId: p.orcidId, fullName: p.fullName })),
+    newWorks: b.uniqueWorks.filter(u => !worksA.has(workIdentity(u))),
+    removedWorks: a.uniqueWorks.filter(u => !worksB.has(workIdentity(u))),
+    metrics,
+    researcherChanges: b.processedProfiles
+      .filter(p => profilesA.has(p.orcidId) && profilesA.get(p.orcidId)!.works.length !== p.works.length)
+      .map(p => ({
+        orcidId: p.orcidId,
+        fullName: p.fullName,
+        before: profilesA.get(p.orcidId)!.works.length,
+        after: p.works.length
+      }))
+      .sort((x, y) => (y.after - y.before) - (x.after - x.before))
+  };
+};
@@ -0,0 +1,135 @@
+import { AnalysisStats, GroupingDimension, GroupStats, OrcidAffiliation, OrcidProfileData, OrcidWork } from '../types';
+import { deduplicateWorks, findCoAuthorshipLinks } from './dedupService';
+import { computeResearcherMetrics, median } from './citationService';
+import { getWorkCategory } from './taxonomyService';
+
+export const UNASSIGNED_GROUP = 'Unassigned';
+
+const countByYearAndType = (works: OrcidWork[]) => {
+  const yearCounts: Record<number, number> = {};
+  const typeCounts: Record<string, number> = {};
+
+  works.forEach(work => {
+    // Year Stats
+    if (work.year) {
+      yearCounts[work.year] = (yearCounts[work.year] || 0) + 1;
+    }
+    // Type Stats, by reporting category
+    const type = getWorkCategory(work);
+    typeCounts[type] = (typeCounts[type] || 0) + 1;
+  });
+
+  // Format for Recharts
+  const publicationsByYear = Object.entries(yearCounts)
+    .map(([year, count]) => ({ year: parseInt(year), count }))
+    .sort((a, b) => a.year - b.year);
+
+  const publicationsByType = Object.entries(typeCounts)
+    .map(([type, count]) => ({ type, count }))
+    .sort((a, b) => b.count - a.count); // Descending
+
+  return { publicationsByYear, publicationsByType };
+};
+
+const countAttributed = (profiles: OrcidProfileData[]) =>
+  profiles.reduce((sum, profile) => sum + profile.works.length, 0);
+
+export const computeStats = (profiles: OrcidProfileData[]): AnalysisStats | null => {
+  if (profiles.length === 0) return null;
+
+  const totalResearchers = profiles.length;
+  const totalPubs = countAttributed(profiles);
+  // Charts count each co-authored work once; per-person averages use attributed output
+  const uniqueWorks = deduplicateWorks(profiles);
+  const { publicationsByYear, publicationsByType } = countByYearAndType(uniqueWorks.map(u => u.work));
+  const researcherMetrics = profiles.map(computeResearcherMetrics);
+
+  const hIndexCounts: Record<number, number> = {};
+  researcherMetrics.forEach(metrics => {
+    hIndexCounts[metrics.hIndex] = (hIndexCounts[metrics.hIndex] || 0) + 1;
+  });
+
+  return {
+    totalResearchers,
+    totalPublications: totalPubs,
+    uniquePublications: uniqueWorks.length,
+    avgPublications: totalResearchers > 0 ? totalPubs / totalResearchers : 0,
+    publicationsByYear,
+    publicationsByType,
+    processedProfiles: profiles,
+    uniqueWorks,
+    coAuthorshipLinks: findCoAuthorshipLinks(uniqueWorks),
+    citationsAvailable: uniqueWorks.some(u => u.work.citations),
+    totalCitations: uniqueWorks.reduce((sum, u) => sum + (u.work.citations?.count || 0), 0),
+    medianHIndex: median(researcherMetrics.map(metrics => metrics.hIndex)),
+    researcherMetrics,
+    hIndexDistribution: Object.entries(hIndexCounts)
+      .map(([hIndex, researchers]) => ({ hIndex: parseInt(hIndex), researchers }))
+      .sort((a, b) => a.hIndex - b.hIndex)
+  };
+};
+
+// The current position if there is one, otherwise the most recently started
+export const primaryEmployment = (profile: OrcidProfileData): OrcidAffiliation | undefined => {
+  const current = profile.employments.filter(e => e.endYear === null);
+  const candidates = current.length > 0 ? current : profile.employments;
+  return [...candidates].sort((a, b) => (b.startYear || 0) - (a.startYear || 0))[0];
+};
+
+export const getGroupKey = (profile: OrcidProfileData, dimension: GroupingDimension): string => {
+  if (dimension.type === 'attribute') {
+    return profile.attributes[dimension.key] || UNASSIGNED_GROUP;
+  }
+  return primaryEmployment(profile)?.[dimension.field] || UNASSIGNED_GROUP;
+};
+
+export const getGroupingDimensions = (profiles: OrcidProfileData[]): { id: string; label: string; dimension: GroupingDimension }[] => {
+  const attributeKeys = Array.from(new Set(profiles.flatMap(profile => Object.keys(profile.attributes)))).sort();
+  return [
+    ...attributeKeys.map(key => ({
+      id: `attribute:${key}`,
+      label: key,
+      dimension: { type: 'attribute', key } as GroupingDimension
+    })),
+    { id: 'employment:organization', label: 'Employer (ORCID)', dimension: { type: 'employment', field: 'organization' } },
+    { id: 'employment:department', label: 'Department (ORCID)', dimension: { type: 'employment', field: 'department' } }
+  ];
+};
+
+/**
+ * Per-group aggregates. "Per year" figures divide by the number of years covered by the
+ * whole dataset, not by each group's own span, so groups stay comparable. Group output is
+ * deduplicated within the group; per-researcher figures use attributed output.
+ */
+export const computeGroupStats = (profiles: OrcidProfileData[], dimension: GroupingDimension): GroupStats[] => {
+  const years = profiles.flatMap(p => p.works.map(w => w.year)).filter((y): y is number => y !== null);
+  const yearSpan = years.length > 0 ? Math.max(...years) - Math.min(...years) + 1 : 1;
+
+  const members: Record<string, OrcidProfileData[]> = {};
+  profiles.forEach(profile => {
+    const key = getGroupKey(profile, dimension);
+    (members[key] = members[key] || []).push(profile);
+  });
+
+  return Object.entries(members)
+    .map(([group, groupProfiles]) => {
+      const uniqueWorks = deduplicateWorks(groupProfiles);
+      const { publicationsByYear, publicationsByType } = countByYearAndType(uniqueWorks.map(u => u.work));
+      const attributed = countAttributed(groupProfiles);
+      const perCapita = attributed / groupProfiles.length;
+      return {
+        group,
+        researchers: groupProfiles.length,
+        publications: uniqueWorks.length,
+        attributedPublications: attributed,
+        perCapita,
+        perYear: uniqueWorks.length / yearSpan,
+        perCapitaPerYear: perCapita / yearSpan,
+        citations: uniqueWorks.reduce((sum, u) => sum + (u.work.citations?.count || 0), 0),
+        medianHIndex: median(groupProfiles.map(profile => computeResearcherMetrics(profile).hIndex)),
+        publicationsByYear,
+        publicationsByType
+      };
+    })
+    .sort((a, b) => b.publications - a.publications);
+};
@@ -0,0 +1,103 @@
+import { OrcidProfileData, OrcidWork, WorkTypeTaxonomy } from '../types';
+
+const STORAGE_KEY = 'orcid-analytics.work-type-taxonomy';
+
+// Work types defined by the ORCID v3.0 message schema
+export const ORCID_WORK_TYPES = [
+  'ANNOTATION', 'ARTISTIC_PERFORMANCE', 'BOOK', 'BOOK_CHAPTER', 'BOOK_REVIEW', 'CONFERENCE_ABSTRACT',
+  'CONFERENCE_PAPER', 'CONFERENCE_POSTER', 'DATA_MANAGEMENT_PLAN', 'DATA_SET', 'DICTIONARY_ENTRY',
+  'DISCLOSURE', 'DISSERTATION_THESIS', 'EDITED_BOOK', 'ENCYCLOPEDIA_ENTRY', 'INVENTION', 'JOURNAL_ARTICLE',
+  'JOURNAL_ISSUE', 'LECTURE_SPEECH', 'LICENSE', 'MAGAZINE_ARTICLE', 'MANUAL', 'NEWSLETTER_ARTICLE',
+  'NEWSPAPER_ARTICLE', 'ONLINE_RESOURCE', 'OTHER', 'PATENT', 'PHYSICAL_OBJECT', 'PREPRINT',
+  'REGISTERED_COPYRIGHT', 'REPORT', 'RESEARCH_TECHNIQUE', 'RESEARCH_TOOL', 'REVIEW', 'SOFTWARE',
+  'SPIN_OFF_COMPANY', 'STANDARDS_AND_POLICY', 'SUPERVISED_STUDENT_PUBLICATION', 'TECHNICAL_STANDARD',
+  'TEST', 'TRADEMARK', 'TRANSLATION', 'WEBSITE', 'WORKING_PAPER'
+];
+
+// National reporting categories; everything not listed falls back to "Other"
+export const DEFAULT_TAXONOMY: WorkTypeTaxonomy = {
+  categories: ['Peer-reviewed article', 'Conference', 'Monograph', 'Chapter', 'Other'],
+  mapping: {
+    JOURNAL_ARTICLE: 'Peer-reviewed article',
+    REVIEW: 'Peer-reviewed article',
+    CONFERENCE_PAPER: 'Conference',
+    CONFERENCE_ABSTRACT: 'Conference',
+    CONFERENCE_POSTER: 'Conference',
+    BOOK: 'Monograph',
+    EDITED_BOOK: 'Monograph',
+    BOOK_CHAPTER: 'Chapter',
+    ENCYCLOPEDIA_ENTRY: 'Chapter',
+    DICTIONARY_ENTRY: 'Chapter'
+  },
+  fallback: 'Other'
+};
+
+/**
+ * Canonical ORCID type key. Older cached profiles stored "JOURNAL ARTICLE" and the API
+ * uses "journal-article" in some contexts, so spaces and hyphens are folded to underscores.
+ */
+export const normalizeOrcidType = (type: string | undefined | null): string => {
+  const key = (type || '').trim().toUpperCase().replace(/[\s-]+/g, '_');
+  return key || 'UNDEFINED';
+};
+
+// JOURNAL_ARTICLE -> "Journal article"
+export const formatOrcidType = (type: string): string => {
+  const words = normalizeOrcidType(type).toLowerCase().split('_');
+  return [words[0].charAt(0).toUpperCase() + words[0].slice(1), ...words.slice(1)].join(' ');
+};
+
+// Category for charts and filters; works that have not been through applyTaxonomy show their ORCID type
+export const getWorkCategory = (work: OrcidWork): string => work.category || formatOrcidType(work.type);
+
+export const categorizeWork = (work: OrcidWork, taxonomy: WorkTypeTaxonomy): string =>
+  taxonomy.mapping[normalizeOrcidType(work.type)] || taxonomy.fallback;
+
+export const applyTaxonomy = (profiles: OrcidProfileData[], taxonomy: WorkTypeTaxonomy): OrcidProfileData[] =>
+  profiles.map(profile => ({
+    ...profile,
+    works: profile.works.map(work => ({ ...work, category: categorizeWork(work, taxonomy) }))
+  }));
+
+// Drops mappings to categories that no longer exist and makes sure the fallback is a category
+const sanitizeTaxonomy = (taxonomy: WorkTypeTaxonomy): WorkTypeTaxonomy => {
+  const categories = taxonomy.categories.length > 0 ? taxonomy.categories : DEFAULT_TAXONOMY.categories;
+  const fallback = categories.includes(taxonomy.fallback) ? taxonomy.fallback : categories[categories.length - 1];
+  const mapping = Object.fromEntries(
+    Object.entries(taxonomy.mapping).filter(([, category]) => categories.includes(category))
+  );
+  return { categories, mapping, fallback };
+};
+
+export const loadTaxonomy = (): WorkTypeTaxonomy => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_TAXONOMY;
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed?.categories) || typeof parsed?.mapping !== 'object') return DEFAULT_TAXONOMY;
+    return sanitizeTaxonomy(parsed);
+  } catch (error) {
+    console.warn(`Could not read the saved work-type mapping: ${error}`);
+    return DEFAULT_TAXONOMY;
+  }
+};
+
+export const saveTaxonomy = (taxonomy: WorkTypeTaxonomy): WorkTypeTaxonomy => {
+  const sanitized = sanitizeTaxonomy(taxonomy);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sanitized));
+  } catch (error) {
+    console.warn(`Could not save the work-type mapping: ${error}`);
+  }
+  return sanitized;
+};
+
+export const renameCategory = (taxonomy: WorkTypeTaxonomy, from: string, to: string): WorkTypeTaxonomy => ({
+  categories: taxonomy.categories.map(category => category === from ? to : category),
+  mapping: Object.fromEntries(Object.entries(taxonomy.mapping).map(([type, category]) => [type, category === from ? to : category])),
+  fallback: taxonomy.fallback === from ? to : taxonomy.fallback
+});
+
+// Types mapped to a removed category fall back to the fallback category
+export const removeCategory = (taxonomy: WorkTypeTaxonomy, category: string): WorkTypeTaxonomy =>
+  sanitizeTaxonomy({ ...taxonomy, categories: taxonomy.categories.filter(c => c !== category) });
@@ -0,0 +1,314 @@
+import { LlmSettings, OrcidProfileData, ResearchTopic, TopicAnalysis, UniqueWork } from '../types';
+import { createChatAdapter } from './llmProviders';
+
+const MIN_TOKEN_LENGTH = 3;
+const MIN_DOCUMENT_FREQUENCY = 2; // a term must be shared by two works to say anything about a topic
+const MAX_VOCABULARY = 400;
+const MAX_ITERATIONS = 25;
+const LABEL_TERMS = 3;
+const TOPIC_TERMS = 8;
+const KEYPHRASES = 25;
+const RESEARCHER_TERMS = 5;
+const LABEL_EXAMPLES = 5;
+const MAX_LABEL_LENGTH = 60;
+
+// Journal names and the authors' ORCID keywords describe a work more loosely than its title
+const JOURNAL_WEIGHT = 0.5;
+const KEYWORD_WEIGHT = 0.5;
+
+export const MAX_TOPICS = 12;
+
+const ENGLISH_STOP_WORDS = [
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'also', 'am', 'among', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing',
+  'down', 'during', 'each', 'few', 'for', 'from', 'further', 'had', 'has', 'have', 'having', 'here', 'how', 'if', 'in',
+  'into', 'is', 'it', 'its', 'itself', 'just', 'more', 'most', 'must', 'no', 'nor', 'not', 'now', 'of', 'off', 'on',
+  'once', 'only', 'or', 'other', 'our', 'out', 'over', 'own', 'same', 'should', 'so', 'some', 'such', 'than', 'that',
+  'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to', 'too', 'toward', 'towards',
+  'under', 'until', 'up', 'upon', 'very', 'via', 'vs', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'while',
+  'who', 'whom', 'why', 'will', 'with', 'within', 'without', 'would', 'you', 'your'
+];
+
+const UKRAINIAN_STOP_WORDS = [
+  'а', 'але', 'б', 'без', 'би', 'був', 'була', 'були', 'було', 'бути', 'в', 'вже', 'ви', 'від', 'він', 'вона', 'вони',
+  'воно', 'все', 'всі', 'де', 'для', 'до', 'же', 'з', 'за', 'зі', 'і', 'із', 'й', 'його', 'її', 'їх', 'к', 'коли', 'крім',
+  'ли', 'між', 'мов', 'на', 'над', 'нас', 'не', 'ні', 'о', 'об', 'один', 'одна', 'одне', 'одні', 'от', 'по', 'під', 'після',
+  'при', 'про', 'проти', 'та', 'так', 'також', 'те', 'ти', 'то', 'того', 'той', 'тому', 'ту', 'у', 'це', 'цей', 'ця',
+  'ці', 'цих', 'цього', 'цьому', 'чи', 'що', 'щодо', 'як', 'яка', 'які', 'який', 'якого', 'якої', 'яких',
+  'якщо', 'є', 'через', 'шляхом', 'ним', 'ними', 'них', 'нього', 'неї', 'свій', 'своїх', 'свого', 'серед', 'поміж'
+];
+
+// Common in academic titles and journal names in both languages, but say nothing about the topic
+const ACADEMIC_STOP_WORDS = [
+  'analysis', 'approach', 'article', 'based', 'case', 'conference', 'international', 'journal', 'letters', 'method',
+  'methods', 'new', 'paper', 'proceedings', 'research', 'results', 'review', 'science', 'sciences', 'series', 'studies',
+  'study', 'transactions', 'university', 'using', 'vol', 'volume',
+  'аналіз', 'аналізу', 'вісник', 'дослідження', 'журнал', 'збірник', 'матеріали', 'наукові', 'науковий', 'наукових',
+  'особливості', 'питання', 'праці', 'проблеми', 'серія', 'сучасні', 'університету'
+];
+
+const STOP_WORDS = new Set([...ENGLISH_STOP_WORDS, ...UKRAINIAN_STOP_WORDS, ...ACADEMIC_STOP_WORDS]);
+
+interface SparseVector {
+  index: number[];
+  values: number[];
+}
+
+/**
+ * Lower-cased words and two-word phrases. Phrases never span punctuation or a stop word,
+ * so "soil moisture in forests" gives "soil", "moisture", "soil moisture" and "forests".
+ */
+export const extractTerms = (text: string): string[] => {
+  const terms: string[] = [];
+  text.toLowerCase().replace(/[’ʼ`]/g, "'").split(/[.,;:!?()[\]{}"«»“”—–/]+/).forEach(segment => {
+    let previous: string | null = null;
+    segment.split(/[^\p{L}\p{N}']+/u).forEach(raw => {
+      const word = raw.replace(/^'+|'+$/g, '');
+      if (!word) return;
+      if (word.length < MIN_TOKEN_LENGTH || STOP_WORDS.has(word) || /^\d+$/.test(word)) {
+        previous = null;
+        return;
+      }
+      terms.push(word);
+      if (previous) terms.push(`${previous} ${word}`);
+      previous = word;
+    });
+  });
+  return terms;
+};
+
+// Strongest terms whose words are not already covered, so labels do not repeat themselves
+const distinctTerms = (ranked: string[], limit: number): string[] => {
+  const chosen: string[] = [];
+  const covered = new Set<string>();
+  for (const term of ranked) {
+    if (chosen.length >= limit) break;
+    const words = term.split(' ');
+    if (words.every(word => covered.has(word))) continue;
+    chosen.push(term);
+    words.forEach(word => covered.add(word));
+  }
+  return chosen;
+};
+
+const dot = (vector: SparseVector, dense: Float64Array) =>
+  vector.index.reduce((sum, i, j) => sum + vector.values[j] * dense[i], 0);
+
+const toDense = (vectors: SparseVector[], size: number): Float64Array => {
+  const dense = new Float64Array(size);
+  vectors.forEach(vector => vector.index.forEach((i, j) => { dense[i] += vector.values[j]; }));
+  const norm = Math.sqrt(dense.reduce((sum, value) => sum + value * value, 0));
+  if (norm > 0) dense.forEach((value, i) => { dense[i] = value / norm; });
+  return dense;
+};
+
+const rankTerms = (dense: Float64Array, vocabulary: string[]) =>
+  Array.from(dense.entries())
+    .filter(([, weight]) => weight > 0)
+    .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+    .map(([i, weight]) => ({ term: vocabulary[i], weight }));
+
+/**
+ * TF-IDF over unique works. Each work is a document made of its title, its journal name and
+ * the ORCID keywords of its authors (the latter two weighted down). Returns one unit-length
+ * vector per work over the shared vocabulary, empty for works with no shared terms.
+ */
+const buildTermModel = (uniqueWorks: UniqueWork[], profiles: OrcidProfileData[]) => {
+  const keywordsByAuthor = new Map(profiles.map(profile => [profile.orcidId, profile.keywords]));
+  const documents = uniqueWorks.map(unique => {
+    const weights = new Map<string, number>();
+    const add = (text: string | undefined, weight: number) =>
+      extractTerms(text || '').forEach(term => weights.set(term, (weights.get(term) || 0) + weight));
+    add(unique.work.title, 1);
+    add(unique.work.journal, JOURNAL_WEIGHT);
+    new Set(unique.authors.flatMap(orcidId => keywordsByAuthor.get(orcidId) || [])).forEach(keyword => add(keyword, KEYWORD_WEIGHT));
+    return weights;
+  });
+
+  const documentFrequency = new Map<string, number>();
+  documents.forEach(weights => weights.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)));
+  const idf = (term: string) => Math.log((documents.length + 1) / ((documentFrequency.get(term) || 0) + 1)) + 1;
+
+  const scores = new Map<string, number>();
+  documents.forEach(weights => weights.forEach((weight, term) => scores.set(term, (scores.get(term) || 0) + weight * idf(term))));
+  const vocabulary = Array.from(scores.entries())
+    .filter(([term]) => (documentFrequency.get(term) || 0) >= MIN_DOCUMENT_FREQUENCY)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_VOCABULARY)
+    .map(([term]) => term);
+  const termIndex = new Map(vocabulary.map((term, i) => [term, i]));
+
+  const vectors: SparseVector[] = documents.map(weights => {
+    const entries = Array.from(weights.entries())
+      .filter(([term]) => termIndex.has(term))
+      .map(([term, weight]): [number, number] => [termIndex.get(term)!, weight * idf(term)]);
+    const norm = Math.sqrt(entries.reduce((sum, [, value]) => sum + value * value, 0));
+    return { index: entries.map(([i]) => i), values: entries.map(([, value]) => value / norm) };
+  });
+
+  const keyphrases = distinctTerms(vocabulary, KEYPHRASES).map(term => ({
+    term,
+    score: Math.round((scores.get(term) || 0) * 100) / 100,
+    works: documentFrequency.get(term) || 0
+  }));
+
+  return { vocabulary, vectors, keyphrases };
+};
+
+export const extractKeyphrases = (uniqueWorks: UniqueWork[], profiles: OrcidProfileData[]) =>
+  buildTermModel(uniqueWorks, profiles).keyphrases;
+
+// Roughly one topic per dozen works on small sets, never more than MAX_TOPICS
+export const autoTopicCount = (works: number) => Math.min(MAX_TOPICS, Math.max(2, Math.ceil(Math.sqrt(works / 2))));
+
+/**
+ * Spherical k-means with deterministic farthest-first seeding: the work with the most
+ * terms first, then repeatedly the work least similar to every seed so far. The same data
+ * always gives the same topics.
+ */
+const clusterVectors = (vectors: SparseVector[], k: number, size: number): number[] => {
+  const dense = vectors.map(vector => toDense([vector], size));
+  const seeds = [vectors.reduce((best, vector, i) => vector.index.length > vectors[best].index.length ? i : best, 0)];
+  const closest = vectors.map(vector => dot(vector, dense[seeds[0]]));
+  while (seeds.length < k) {
+    const next = closest.reduce((best, similarity, i) =>
+      !seeds.includes(i) && (best < 0 || similarity < closest[best]) ? i : best, -1);
+    // Every remaining work is identical to a seed
+    if (next < 0 || closest[next] >= 1 - 1e-9) break;
+    seeds.push(next);
+    vectors.forEach((vector, i) => { closest[i] = Math.max(closest[i], dot(vector, dense[next])); });
+  }
+
+  let centroids = seeds.map(i => dense[i]);
+  const assignments = vectors.map(() => -1);
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let changed = false;
+    vectors.forEach((vector, i) => {
+      // Works sharing no term with any topic stay unassigned rather than joining the first one
+      let best = -1;
+      let bestSimilarity = 0;
+      centroids.forEach((centroid, c) => {
+        const similarity = dot(vector, centroid);
+        if (similarity > bestSimilarity + 1e-12) {
+          best = c;
+          bestSimilarity = similarity;
+        }
+      });
+      if (assignments[i] !== best) {
+        assignments[i] = best;
+        changed = true;
+      }
+    });
+    if (!changed) break;
+    centroids = centroids.map((centroid, c) => {
+      const members = vectors.filter((_, i) => assignments[i] === c);
+      return members.length > 0 ? toDense(members, size) : centroid;
+    });
+  }
+  return assignments;
+};
+
+/**
+ * Groups works into topics by their terms, and summarises topics by year and by researcher.
+ * `topicCount` defaults to autoTopicCount; fewer topics come back when the works are too alike.
+ */
+export const extractTopics = (uniqueWorks: UniqueWork[], profiles: OrcidProfileData[], topicCount?: number): TopicAnalysis => {
+  const { vocabulary, vectors, keyphrases } = buildTermModel(uniqueWorks, profiles);
+  const clustered = uniqueWorks.map((_, i) => i).filter(i => vectors[i].index.length > 0);
+  const k = Math.min(topicCount || autoTopicCount(clustered.length), clustered.length);
+
+  const assignments = k > 0 ? clusterVectors(clustered.map(i => vectors[i]), k, vocabulary.length) : [];
+  const topicOf = new Map<string, number>();
+  const members = new Map<number, number[]>();
+  clustered.forEach((workIndex, i) => {
+    if (assignments[i] >= 0) members.set(assignments[i], [...(members.get(assignments[i]) || []), workIndex]);
+  });
+
+  const topics: ResearchTopic[] = Array.from(members.values())
+    .sort((a, b) => b.length - a.length || a[0] - b[0])
+    .map((workIndexes, id) => {
+      const centroid = toDense(workIndexes.map(i => vectors[i]), vocabulary.length);
+      const ranked = rankTerms(centroid, vocabulary);
+      // Most typical works first, so they serve as examples
+      const ordered = [...workIndexes].sort((a, b) => dot(vectors[b], centroid) - dot(vectors[a], centroid) || a - b);
+      ordered.forEach(i => topicOf.set(uniqueWorks[i].key, id));
+      return {
+        id,
+        label: distinctTerms(ranked.map(entry => entry.term), LABEL_TERMS).join(' · '),
+        terms: ranked.slice(0, TOPIC_TERMS).map(entry => ({ term: entry.term, weight: Math.round(entry.weight * 1000) / 1000 })),
+        workKeys: ordered.map(i => uniqueWorks[i].key)
+      };
+    });
+
+  const emptyCounts = () => topics.map(() => 0);
+  const years = new Map<number, number[]>();
+  uniqueWorks.forEach(unique => {
+    const topic = topicOf.get(unique.key);
+    if (topic === undefined || !unique.work.year) return;
+    const counts = years.get(unique.work.year) || emptyCounts();
+    counts[topic]++;
+    years.set(unique.work.year, counts);
+  });
+
+  const researchers = profiles.map(profile => {
+    const own = uniqueWorks.map((unique, i) => ({ unique, i })).filter(({ unique }) => unique.authors.includes(profile.orcidId));
+    const counts = emptyCounts();
+    own.forEach(({ unique }) => {
+      const topic = topicOf.get(unique.key);
+      if (topic !== undefined) counts[topic]++;
+    });
+    const profileVector = toDense(own.map(({ i }) => vectors[i]), vocabulary.length);
+    return {
+      orcidId: profile.orcidId,
+      fullName: profile.fullName,
+      works: own.length,
+      counts,
+      topTerms: distinctTerms(rankTerms(profileVector, vocabulary).map(entry => entry.term), RESEARCHER_TERMS)
+    };
+  });
+
+  return {
+    topics,
+    keyphrases,
+    byYear: Array.from(years.entries()).map(([year, counts]) => ({ year, counts })).sort((a, b) => a.year - b.year),
+    researchers,
+    unassigned: uniqueWorks.length - topicOf.size
+  };
+};
+
+/**
+ * Asks the assistant's model for short topic names, from each topic's terms and most typical
+ * titles. Topics the model skips keep their term label.
+ */
+export const suggestTopicLabels = async (
+  analysis: TopicAnalysis,
+  uniqueWorks: UniqueWork[],
+  settings: LlmSettings
+): Promise<string[]> => {
+  if (settings.provider === 'stub') {
+    throw new Error('The offline stub cannot name topics. Choose a model in the assistant settings.');
+  }
+  const titles = new Map(uniqueWorks.map(unique => [unique.key, unique.work.title]));
+  const prompt = [
+    'Suggest a short name (2 to 5 words) for each research topic below, in the language of its titles.',
+    'Reply with one line per topic in the form "<number>: <name>" and nothing else.',
+    '',
+    ...analysis.topics.map((topic, i) => [
+      `${i + 1}. Terms: ${topic.terms.map(entry => entry.term).join(', ')}`,
+      `   Example titles: ${topic.workKeys.slice(0, LABEL_EXAMPLES).map(key => titles.get(key)).filter(Boolean).join(' | ')}`
+    ].join('\n'))
+  ].join('\n');
+
+  const adapter = createChatAdapter(settings);
+  const reply = await adapter
+    .startSession('You name clusters of research publications concisely and neutrally.', [], [])
+    .send(prompt);
+
+  const labels = new Map<number, string>();
+  reply.text.split('\n').forEach(line => {
+    const match = line.match(/^\s*(\d+)\s*[.:)-]\s*(.+)$/);
+    const name = match?.[2].replace(/[*_"]/g, '').trim();
+    if (match && name) labels.set(parseInt(match[1]), name.slice(0, MAX_LABEL_LENGTH));
+  });
+  return analysis.topics.map((topic, i) => labels.get(i + 1) || topic.label);
+};
@@ -0,0 +1,109 @@
+import { MergedWorkField, OrcidExternalId, OrcidWork, WorkQualityFlag } from '../types';
+import { normalizeDoi } from './dedupService';
+
+// One work-summary inside an ORCID work group, as asserted by a single source
+export interface WorkVersion {
+  work: OrcidWork;
+  source: string;
+  trust: number;
+}
+
+// Registries that take metadata from publishers rank highest, then the researcher's own entry
+const TRUSTED_REGISTRIES = /crossref|datacite/i;
+const AGGREGATORS = /scopus|web of science|researcherid|publons|europe pubmed|pubmed|openalex|dimensions/i;
+
+export const QUALITY_FLAG_LABELS: Record<WorkQualityFlag, string> = {
+  'untitled': 'No title',
+  'missing-year': 'No publication year',
+  'missing-doi': 'No DOI',
+  'missing-journal': 'No journal or venue',
+  'conflicting-year': 'Sources disagree on the year',
+  'conflicting-doi': 'Sources disagree on the DOI',
+  'conflicting-type': 'Sources disagree on the work type'
+};
+
+/**
+ * Name and trust rank for the source of a work summary. The researcher's own entry is
+ * recognised by `source-orcid` matching the record owner.
+ */
+export const getSummarySource = (summary: any, ownerOrcid: string): { source: string; trust: number } => {
+  const name: string = summary.source?.['source-name']?.value
+    || summary.source?.['source-client-id']?.path
+    || summary.source?.['source-orcid']?.path
+    || 'Unknown source';
+  if (TRUSTED_REGISTRIES.test(name)) return { source: name, trust: 3 };
+  if (summary.source?.['source-orcid']?.path === ownerOrcid && !summary.source?.['source-client-id']) {
+    return { source: `${name} (self)`, trust: 3 };
+  }
+  if (AGGREGATORS.test(name)) return { source: name, trust: 2 };
+  return { source: name, trust: 1 };
+};
+
+const hasValue = (work: OrcidWork, field: MergedWorkField) => {
+  if (field === 'title') return work.title !== 'Untitled';
+  if (field === 'type') return work.type !== 'UNDEFINED' && work.type !== 'OTHER';
+  return work[field] !== undefined && work[field] !== null && work[field] !== '';
+};
+
+const completeness = (work: OrcidWork) =>
+  (['title', 'year', 'type', 'journal', 'doi'] as MergedWorkField[]).filter(field => hasValue(work, field)).length;
+
+const distinct = <T>(values: T[]) => Array.from(new Set(values));
+
+const copyField = <K extends keyof OrcidWork>(target: OrcidWork, source: OrcidWork, key: K) => {
+  target[key] = source[key];
+};
+
+const mergeExternalIds = (versions: WorkVersion[]): OrcidExternalId[] => {
+  const seen = new Map<string, OrcidExternalId>();
+  versions.forEach(version => (version.work.externalIds || []).forEach(id => {
+    const key = `${id.type}:${id.value.toLowerCase()}`;
+    if (!seen.has(key)) seen.set(key, id);
+  }));
+  return Array.from(seen.values());
+};
+
+export const computeQualityFlags = (work: OrcidWork, versions: WorkVersion[]): WorkQualityFlag[] => {
+  const flags: WorkQualityFlag[] = [];
+  if (!hasValue(work, 'title')) flags.push('untitled');
+  if (!work.year) flags.push('missing-year');
+  if (!work.doi) flags.push('missing-doi');
+  if (!work.journal) flags.push('missing-journal');
+  const years = distinct(versions.map(v => v.work.year).filter((year): year is number => year !== null));
+  if (years.length > 1) flags.push('conflicting-year');
+  const dois = distinct(versions.map(v => v.work.doi).filter((doi): doi is string => Boolean(doi)).map(normalizeDoi));
+  if (dois.length > 1) flags.push('conflicting-doi');
+  const types = distinct(versions.filter(v => hasValue(v.work, 'type')).map(v => v.work.type));
+  if (types.length > 1) flags.push('conflicting-type');
+  return flags;
+};
+
+/**
+ * Combines every version of a work into one record. Versions are ranked by source trust,
+ * then completeness, then ORCID's own order (the preferred version comes first). Each
+ * field is taken from the best-ranked version that has it, and its source is recorded.
+ * The put-code stays that of the best-ranked version so links point to a real record.
+ */
+export const mergeWorkVersions = (versions: WorkVersion[]): OrcidWork => {
+  const ranked = versions
+    .map((version, index) => ({ version, index }))
+    .sort((a, b) =>
+      b.version.trust - a.version.trust ||
+      completeness(b.version.work) - completeness(a.version.work) ||
+      a.index - b.index
+    )
+    .map(entry => entry.version);
+  const primary = ranked[0];
+
+  const merged: OrcidWork = { ...primary.work, provenance: {} };
+  (['title', 'year', 'type', 'journal', 'doi'] as MergedWorkField[]).forEach(field => {
+    const donor = ranked.find(version => hasValue(version.work, field)) || primary;
+    copyField(merged, donor.work, field);
+    if (hasValue(donor.work, field)) merged.provenance![field] = donor.source;
+  });
+
+  merged.externalIds = mergeExternalIds(ranked);
+  merged.sources = distinct(ranked.map(version => version.source));
+  merged.qualityFlags = computeQualityFlags(merged, versions);
+  return merged;
+};
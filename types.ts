@@ -1,3 +1,15 @@
+export interface CitationData {
+  count: number;
+  fwci?: number; // field-weighted citation impact, 1.0 = world average for the field
+  provider: string;
+}
+
+export interface OrcidExternalId {
+  type: string; // e.g. doi, eid, wosuid, isbn
+  value: string;
+  url?: string;
+}
+
 export interface OrcidWork {
   title: string;
   year: number | null;
@@ -5,21 +17,337 @@ export interface OrcidWork {
   journal?: string;
   doi?: string;
   putCode: string; // Unique ID in ORCID
+  externalIds?: OrcidExternalId[];
+  category?: string; // reporting category assigned by the work-type taxonomy, see services/taxonomyService.ts
+  journalClass?: string; // quartile or category from the imported journal list, see services/journalService.ts
+  journalMatch?: JournalMatchMethod;
+  citations?: CitationData; // attached by a citation provider, see services/citationService.ts
+  // All ORCID sources that hold this work and which one each field was taken from, see services/workMergeService.ts
+  sources?: string[];
+  provenance?: Partial<Record<MergedWorkField, string>>;
+  qualityFlags?: WorkQualityFlag[];
+}
+
+export type MergedWorkField = 'title' | 'year' | 'type' | 'journal' | 'doi';
+
+export type WorkQualityFlag =
+  | 'untitled'
+  | 'missing-year'
+  | 'missing-doi'
+  | 'missing-journal'
+  | 'conflicting-year'
+  | 'conflicting-doi'
+  | 'conflicting-type';
+
+export interface OrcidContributor {
+  name: string;
+  orcidId?: string;
+  role?: string;
+  sequence?: string; // 'first' or 'additional'
+}
+
+// Full work record; the works summary omits contributors, so this is fetched per work on demand
+export interface OrcidWorkDetail {
+  putCode: string;
+  contributors: OrcidContributor[];
+  externalIds: OrcidExternalId[];
+  url?: string;
+  shortDescription?: string;
+}
+
+export interface OrcidAffiliation {
+  organization: string;
+  department?: string;
+  role?: string;
+  startYear: number | null;
+  endYear: number | null; // null means ongoing
+  city?: string;
+  country?: string;
+}
+
+export interface OrcidResearcherUrl {
+  name: string;
+  url: string;
 }
 
+// Where a profile's data came from: the ORCID API, the local cache, or the opt-in demo generator
+export type DataSource = 'live' | 'cached' | 'demo';
+
 export interface OrcidProfileData {
   orcidId: string;
   fullName: string;
+  source: DataSource;
+  givenNames?: string;
+  familyName?: string;
+  otherNames: string[];
+  biography?: string;
+  keywords: string[];
+  researcherUrls: OrcidResearcherUrl[];
+  country?: string;
+  employments: OrcidAffiliation[];
+  educations: OrcidAffiliation[];
+  // Extra columns carried over from the imported file (e.g. Department, Faculty), keyed by label
+  attributes: Record<string, string>;
   works: OrcidWork[];
 }
 
+export interface ImportedTable {
+  fileName: string;
+  columns: string[];
+  rows: string[][];
+}
+
+export interface ColumnMapping {
+  orcidColumn: number; // -1 when no column is selected
+  attributeColumns: { column: number; label: string; include: boolean }[];
+}
+
+export interface ImportedResearcher {
+  orcidId: string;
+  row: number; // 1-based row number in the source file
+  attributes: Record<string, string>;
+}
+
+export interface ImportResult {
+  researchers: ImportedResearcher[];
+  invalid: { row: number; value: string; reason: string }[];
+  duplicates: { orcidId: string; rows: number[] }[];
+}
+
+// How an affiliation search identifies the institution, see services/discoveryService.ts
+export type DiscoveryField = 'organization' | 'ror' | 'grid' | 'email-domain';
+
+export interface DiscoveredResearcher {
+  orcidId: string;
+  fullName: string;
+  otherNames: string[];
+  institutions: string[]; // affiliation names indexed by ORCID, not only the one searched for
+}
+
+export interface DiscoveryResult {
+  field: DiscoveryField;
+  value: string;
+  query: string; // the Solr query sent to ORCID
+  total: number; // matches reported by ORCID, which may exceed the researchers returned
+  researchers: DiscoveredResearcher[];
+}
+
+export type OrcidFetchResult =
+  | { status: 'ok'; orcidId: string; profile: OrcidProfileData }
+  | { status: 'failed'; orcidId: string; reason: string; httpStatus?: number };
+
+export interface CacheEntry {
+  key: string; // `${orcidId}/${endpoint}`
+  orcidId: string;
+  endpoint: string;
+  body: any;
+  etag?: string;
+  lastModified?: string;
+  fetchedAt: number; // epoch ms of the last successful fetch or revalidation
+  size: number; // approximate size in bytes of the raw response
+}
+
+export type FetchStatus = 'pending' | 'running' | 'retrying' | 'ok' | 'failed' | 'cancelled';
+
+export interface FetchProgress {
+  orcidId: string;
+  status: FetchStatus;
+  attempt?: number; // retry number, 0 for the first try
+  message?: string;
+}
+
+// One publication after merging the copies that several researchers in the batch hold
+export interface UniqueWork {
+  key: string;
+  work: OrcidWork; // most complete copy
+  authors: string[]; // ORCID iDs of the batch members who list this work
+  matchedBy: 'doi' | 'title' | 'single';
+}
+
+export interface CoAuthorshipLink {
+  source: string;
+  target: string;
+  works: UniqueWork[];
+}
+
+export interface NetworkNode {
+  id: string; // ORCID iD
+  label: string;
+  works: number; // works in the selected year range
+  degree: number; // number of distinct co-authors in the batch
+  weightedDegree: number; // total shared works
+  degreeCentrality: number; // degree / (n - 1)
+  betweenness: number; // normalised 0..1
+  cluster: number;
+}
+
+export interface NetworkEdge {
+  source: string;
+  target: string;
+  weight: number; // number of shared works
+}
+
+export interface CollaborationNetwork {
+  nodes: NetworkNode[];
+  edges: NetworkEdge[];
+}
+
+export interface ResearcherCitationMetrics {
+  orcidId: string;
+  citations: number;
+  hIndex: number;
+  i10Index: number;
+  meanFwci: number | null;
+  worksWithCitations: number;
+}
+
+// A cluster of works with similar title, keyword and journal terms, see services/topicService.ts
+export interface ResearchTopic {
+  id: number;
+  label: string; // top terms, unless a model suggested a name
+  terms: { term: string; weight: number }[]; // centroid weights, strongest first
+  workKeys: string[]; // UniqueWork keys
+}
+
+export interface TopicAnalysis {
+  topics: ResearchTopic[]; // largest first
+  keyphrases: { term: string; score: number; works: number }[];
+  byYear: { year: number; counts: number[] }[]; // works per topic, in the order of `topics`
+  researchers: { orcidId: string; fullName: string; works: number; counts: number[]; topTerms: string[] }[];
+  unassigned: number; // works with no terms in common with other works or with any topic
+}
+
 export interface AnalysisStats {
   totalResearchers: number;
-  totalPublications: number;
+  totalPublications: number; // researcher-attributed: a work co-authored by 3 members counts 3 times
+  uniquePublications: number; // institutional output: each work counted once
   avgPublications: number;
   publicationsByYear: { year: number; count: number }[];
   publicationsByType: { type: string; count: number }[];
   processedProfiles: OrcidProfileData[];
+  uniqueWorks: UniqueWork[];
+  coAuthorshipLinks: CoAuthorshipLink[];
+  citationsAvailable: boolean; // true once any work has been enriched
+  totalCitations: number; // over unique works
+  medianHIndex: number;
+  researcherMetrics: ResearcherCitationMetrics[];
+  hIndexDistribution: { hIndex: number; researchers: number }[];
+}
+
+export type GroupingDimension =
+  | { type: 'attribute'; key: string } // imported file column
+  | { type: 'employment'; field: 'organization' | 'department' }; // current ORCID employment
+
+export interface GroupStats {
+  group: string;
+  researchers: number;
+  publications: number; // unique within the group
+  attributedPublications: number;
+  perCapita: number;
+  perYear: number;
+  perCapitaPerYear: number;
+  citations: number;
+  medianHIndex: number;
+  publicationsByYear: { year: number; count: number }[];
+  publicationsByType: { type: string; count: number }[];
+}
+
+export interface AnalysisSnapshot {
+  id: string;
+  name: string;
+  version: number; // increments for every save under the same name
+  createdAt: number; // epoch ms
+  analysisId?: string; // analysis the snapshot was saved from; ties chat threads to it
+  stats: AnalysisStats; // always the full, unfiltered data
+  filters?: AnalysisFilters; // dashboard filters active when the snapshot was saved
+}
+
+export type SnapshotInfo = Omit<AnalysisSnapshot, 'stats'> & {
+  researchers: number;
+  uniquePublications: number;
+};
+
+export interface MetricDelta {
+  metric: string;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface SnapshotDiff {
+  from: SnapshotInfo;
+  to: SnapshotInfo;
+  researchersAdded: { orcidId: string; fullName: string }[];
+  researchersRemoved: { orcidId: string; fullName: string }[];
+  newWorks: UniqueWork[];
+  removedWorks: UniqueWork[];
+  metrics: MetricDelta[];
+  researcherChanges: { orcidId: string; fullName: string; before: number; after: number }[];
+}
+
+// Maps ORCID work types (JOURNAL_ARTICLE, BOOK_CHAPTER, ...) onto local reporting categories
+export interface WorkTypeTaxonomy {
+  categories: string[];
+  mapping: Record<string, string>; // ORCID work type -> category
+  fallback: string; // category for types missing from the mapping
+}
+
+export interface JournalListEntry {
+  title: string;
+  issns: string[]; // normalized: 8 characters, no hyphen
+  classification: string; // e.g. Q1, or a national category such as "B"
+}
+
+export type JournalMatchMethod = 'issn' | 'title' | 'fuzzy' | 'manual';
+
+export interface JournalList {
+  id: string;
+  fileName: string;
+  importedAt: number; // epoch ms
+  entries: JournalListEntry[];
+  // Review-queue decisions keyed by normalized journal title: entry index, or null for "not listed"
+  manualMatches: Record<string, number | null>;
+}
+
+export interface JournalColumnMapping {
+  title: number;
+  issns: number[];
+  classification: number; // -1 when no column is selected
+}
+
+// Dashboard-wide filters. Empty lists and nulls mean "no restriction"
+export interface AnalysisFilters {
+  yearFrom: number | null;
+  yearTo: number | null;
+  types: string[];
+  journals: string[];
+  researchers: string[]; // ORCID iDs
+  hasDoi: boolean | null;
+}
+
+// Small chart built by the assistant from the loaded data; one row per x value, one key per series
+export interface ChatChart {
+  id: string;
+  title: string;
+  kind: 'bar' | 'line';
+  xLabel: string;
+  series: string[];
+  data: ({ x: string } & Record<string, string | number>)[];
+}
+
+// Dashboard changes the assistant asks App to make
+export type ChatAction =
+  | { type: 'apply-filters'; filters: AnalysisFilters }
+  | { type: 'open-researcher'; orcidId: string }
+  | { type: 'add-chart'; chart: ChatChart };
+
+// A query the assistant ran against the loaded data while answering
+export interface ChatToolCall {
+  name: string;
+  args: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+  action?: ChatAction;
 }
 
 export interface ChatMessage {
@@ -28,4 +356,83 @@ export interface ChatMessage {
   text: string;
   timestamp: Date;
   isThinking?: boolean;
-}
\ No newline at end of file
+  toolCalls?: ChatToolCall[];
+}
+
+export type LlmProviderId = 'proxy' | 'gemini' | 'openai-compatible' | 'stub';
+
+// Assistant backend chosen in the settings; keys for direct providers are kept in this browser only
+export interface LlmSettings {
+  provider: LlmProviderId;
+  model: string;
+  baseUrl: string; // OpenAI-compatible endpoints, e.g. http://localhost:11434/v1 for Ollama
+  apiKey: string;
+}
+
+// A named conversation with the assistant, kept with the analysis it was held about
+export interface ChatThread {
+  id: string;
+  name: string;
+  analysisId: string | null;
+  createdAt: number;
+  updatedAt: number;
+  messages: ChatMessage[];
+}
+// What a narrative report covers: one researcher, one group of the active grouping, or everyone in view
+export type ReportScope =
+  | { kind: 'all' }
+  | { kind: 'group'; dimensionId: string; group: string }
+  | { kind: 'researcher'; orcidId: string };
+
+export type ReportSectionId = 'overview' | 'trends' | 'topics' | 'venues' | 'notable';
+
+// Figures a report may quote; every number in the narrative is checked against these
+export interface ReportFacts {
+  subject: string;
+  filters: string[];
+  researchers: number;
+  works: number; // unique
+  attributedWorks: number;
+  firstYear: number | null;
+  lastYear: number | null;
+  worksByYear: { year: number; count: number }[];
+  peakYear: { year: number; count: number } | null;
+  recentPeriod: {
+    from: number;
+    to: number;
+    works: number;
+    previousWorks: number; // same number of years just before
+    previousFrom: number;
+    previousTo: number;
+    change: number;
+    changePercent: number | null; // null when the previous period is empty
+  } | null;
+  categories: { category: string; count: number; percent: number }[];
+  venues: number; // distinct journals
+  topVenues: { journal: string; count: number }[];
+  worksWithDoi: number;
+  doiPercent: number;
+  citations: number | null; // null until citations are fetched
+  hIndex: number | null; // the researcher's h-index, or the group median
+  topics: { label: string; works: number }[]; // term labels, see services/topicService.ts
+  keyphrases: { term: string; works: number }[];
+  notableWorks: { title: string; year: number | null; journal?: string; category: string; citations?: number }[];
+}
+
+export interface ReportSection {
+  id: ReportSectionId;
+  title: string;
+  text: string;
+}
+
+// A generated and possibly edited report, cached by subject, data and model
+export interface NarrativeReport {
+  key: string;
+  title: string;
+  generatedBy: string; // model label
+  createdAt: number;
+  updatedAt: number;
+  edited: boolean;
+  facts: ReportFacts;
+  sections: ReportSection[];
+}